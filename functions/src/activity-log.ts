@@ -0,0 +1,135 @@
+import * as admin from 'firebase-admin';
+import { PIREventAction, PIREventEntityType } from '../src/types'; // We're referencing the types from the client application
+
+type DocumentData = admin.firestore.DocumentData;
+
+// Bookkeeping and derived fields that are not reported as changes
+const IGNORED_FIELDS = [
+  'updatedAt', 'updatedBy', 'progress', 'unsavedAnswerIds', 'thumbnailPath', 'previewPath',
+  // Written by the hourly deadline check
+  'isOverdue', 'overdueSince', 'remindersSent', 'escalatedAt', 'slaTrackedDeadline'
+];
+
+/**
+ * Convert a Firestore value into a plain value that can be compared and stored
+ */
+const normalizeValue = (value: unknown): unknown => {
+  if (value instanceof admin.firestore.Timestamp) {
+    return value.toDate().toISOString();
+  }
+  
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+  
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = normalizeValue((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  
+  // Firestore does not store undefined values
+  return value === undefined ? null : value;
+};
+
+/**
+ * Get the fields that differ between two versions of a document
+ */
+export const diffDocuments = (
+  before: DocumentData = {},
+  after: DocumentData = {}
+): Record<string, { before: unknown; after: unknown }> => {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    
+    const beforeValue = normalizeValue(before[field]);
+    const afterValue = normalizeValue(after[field]);
+    
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  });
+  
+  return changes;
+};
+
+/**
+ * Find the PIR an attachment belongs to through its parent document, or
+ * through the PIR recorded with it while the answer it belongs to is not
+ * saved yet
+ */
+export const resolveAttachmentPIRId = async (attachment: DocumentData): Promise<string | null> => {
+  if (attachment.parentType === 'pir') {
+    return attachment.parentId;
+  }
+  
+  const parentCollection = attachment.parentType === 'question' ? 'questions' : 'answers';
+  const parentSnapshot = await admin.firestore().collection(parentCollection).doc(attachment.parentId).get();
+  
+  return parentSnapshot.data()?.pirId || attachment.pirId || null;
+};
+
+interface RecordPIREventParams {
+  pirId: string;
+  entityType: PIREventEntityType;
+  entityId: string;
+  before?: DocumentData;
+  after?: DocumentData;
+}
+
+/**
+ * Append an entry to the activity log of a PIR (pirs/{pirId}/events)
+ *
+ * Events are only ever written here by the Admin SDK; firestore.rules denies
+ * clients any write to them. The actor is the document's updatedBy, which the
+ * rules require to be the signed-in caller on every write and to be stamped
+ * by the caller before a delete. Writes made by Cloud Functions clear it and
+ * are logged as System.
+ */
+export const recordPIREvent = async (params: RecordPIREventParams): Promise<void> => {
+  const { pirId, entityType, entityId, before, after } = params;
+  const db = admin.firestore();
+  
+  let action: PIREventAction;
+  if (!before) {
+    action = 'created';
+  } else if (!after) {
+    action = 'deleted';
+  } else if (entityType === 'pir' && before.status !== after.status) {
+    action = 'status_changed';
+  } else {
+    action = 'updated';
+  }
+  
+  const changes = diffDocuments(before, after);
+  
+  // Skip writes that only touched bookkeeping fields
+  if (action === 'updated' && Object.keys(changes).length === 0) {
+    return;
+  }
+  
+  const actorId: string | null = (after || before)?.updatedBy || null;
+  let actorName = 'System';
+  
+  if (actorId) {
+    const actorSnapshot = await db.collection('users').doc(actorId).get();
+    actorName = actorSnapshot.data()?.displayName || actorId;
+  }
+  
+  await db.collection('pirs').doc(pirId).collection('events').add({
+    pirId,
+    actorId,
+    actorName,
+    action,
+    entityType,
+    entityId,
+    changes,
+    createdAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+};
\ No newline at end of file
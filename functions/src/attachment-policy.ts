@@ -0,0 +1,221 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { AttachmentPolicy, AttachmentViolation } from '../src/types'; // We're referencing the types from the client application
+import { getAttachmentPolicyViolation, withAttachmentPolicyDefaults } from '../src/utils/attachmentPolicy';
+import { isPreviewPath } from '../src/utils/attachmentPreviews';
+import { resolveAttachmentPIRId } from './activity-log';
+
+type Bucket = ReturnType<admin.storage.Storage['bucket']>;
+type DocumentData = admin.firestore.DocumentData;
+
+const STORAGE_PATH = 'attachments';
+const PARENT_TYPES = ['pir', 'question', 'answer'];
+
+/**
+ * The parent of an attachment file, read from its Storage path
+ */
+interface AttachmentLocation {
+  parentType: 'pir' | 'question' | 'answer';
+  parentId: string;
+  fileName: string;
+}
+
+/**
+ * Load the attachment policy, falling back to the defaults for missing fields
+ */
+const getAttachmentPolicy = async (): Promise<AttachmentPolicy> => {
+  const snapshot = await admin.firestore().collection('settings').doc('attachmentPolicy').get();
+  
+  return withAttachmentPolicyDefaults(snapshot.data() as Partial<AttachmentPolicy> | undefined);
+};
+
+/**
+ * Read the parent of a file stored at attachments/{parentType}/{parentId}/{timestamp}_{fileName},
+ * or null for files stored anywhere else
+ */
+const parseAttachmentPath = (path: string): AttachmentLocation | null => {
+  const [root, parentType, parentId, storedName, ...rest] = path.split('/');
+  
+  if (root !== STORAGE_PATH || !PARENT_TYPES.includes(parentType) || !parentId || !storedName || rest.length > 0) {
+    return null;
+  }
+  
+  return {
+    parentType: parentType as AttachmentLocation['parentType'],
+    parentId,
+    fileName: storedName.replace(/^\d+_/, '')
+  };
+};
+
+/**
+ * Find the PIR a stored file counts against, or null if it belongs to none
+ *
+ * Files of answers not saved yet name their PIR in their custom metadata. The
+ * answer is recorded on the PIR, so its files keep counting toward the PIR's
+ * total even if the answer is never saved.
+ */
+const resolveFilePIRId = async (
+  location: AttachmentLocation,
+  object: functions.storage.ObjectMetadata
+): Promise<string | null> => {
+  const db = admin.firestore();
+  const parentPIRId = await resolveAttachmentPIRId(location);
+  const pirId = parentPIRId || (location.parentType === 'answer' ? object.metadata?.pirId : undefined);
+  
+  if (!pirId) {
+    return null;
+  }
+  
+  const pirSnapshot = await db.collection('pirs').doc(pirId).get();
+  
+  if (!pirSnapshot.exists) {
+    return null;
+  }
+  
+  if (!parentPIRId) {
+    await pirSnapshot.ref.update({
+      unsavedAnswerIds: admin.firestore.FieldValue.arrayUnion(location.parentId)
+    });
+  }
+  
+  return pirId;
+};
+
+/**
+ * Get the bytes stored for the attachments of a PIR and of its questions and
+ * answers, those not saved yet included, every version of each file included
+ * and their previews left out
+ */
+const getPIRStoredBytes = async (pirId: string, bucket: Bucket): Promise<number> => {
+  const db = admin.firestore();
+  const [pirSnapshot, questionsSnapshot, answersSnapshot] = await Promise.all([
+    db.collection('pirs').doc(pirId).get(),
+    db.collection('questions').where('pirId', '==', pirId).select().get(),
+    db.collection('answers').where('pirId', '==', pirId).select().get()
+  ]);
+  
+  const answerIds = answersSnapshot.docs.map(doc => doc.id);
+  const unsavedAnswerIds = ((pirSnapshot.get('unsavedAnswerIds') || []) as string[])
+    .filter(answerId => !answerIds.includes(answerId));
+  
+  const prefixes = [
+    `${STORAGE_PATH}/pir/${pirId}/`,
+    ...questionsSnapshot.docs.map(doc => `${STORAGE_PATH}/question/${doc.id}/`),
+    ...answerIds.concat(unsavedAnswerIds).map(answerId => `${STORAGE_PATH}/answer/${answerId}/`)
+  ];
+  const fileLists = await Promise.all(prefixes.map(prefix => bucket.getFiles({ prefix })));
+  
+  return fileLists.reduce((total, [files]) =>
+    total + files
+      .filter(file => !isPreviewPath(file.name))
+      .reduce((sum, file) => sum + Number(file.metadata.size || 0), 0), 0);
+};
+
+/**
+ * Mark the attachments whose current file was removed by the policy check
+ */
+const flagAttachmentsAtPath = async (storagePath: string, reason: string): Promise<void> => {
+  const db = admin.firestore();
+  const snapshot = await db.collection('attachments').where('storagePath', '==', storagePath).get();
+  
+  await Promise.all(snapshot.docs.map(doc => doc.ref.update({
+    policyViolation: reason,
+    updatedBy: null
+  })));
+};
+
+/**
+ * Check a newly stored attachment file against the attachment policy, deleting
+ * it and recording the violation if it breaks the policy
+ *
+ * Files uploaded through the app are checked before they are uploaded, so this
+ * catches uploads that bypassed the app. The file is already stored, so it is
+ * counted in the PIR's total. Resolves to whether the file is an attachment
+ * file that was kept.
+ */
+export const enforceAttachmentPolicy = async (object: functions.storage.ObjectMetadata): Promise<boolean> => {
+  const location = object.name ? parseAttachmentPath(object.name) : null;
+  
+  if (!object.name || !location) {
+    return false;
+  }
+  
+  const bucket = admin.storage().bucket(object.bucket);
+  const file = {
+    name: location.fileName,
+    type: object.contentType || '',
+    size: Number(object.size || 0)
+  };
+  
+  const [policy, pirId] = await Promise.all([
+    getAttachmentPolicy(),
+    resolveFilePIRId(location, object)
+  ]);
+  
+  // Files that belong to no PIR would not count toward any total
+  const reason = pirId
+    ? getAttachmentPolicyViolation(
+      file,
+      location.parentType,
+      policy,
+      Math.max((await getPIRStoredBytes(pirId, bucket)) - file.size, 0)
+    )
+    : `${file.name} does not belong to a PIR`;
+  
+  if (!reason) {
+    return true;
+  }
+  
+  await bucket.file(object.name).delete({ ignoreNotFound: true });
+  
+  const violation: Omit<AttachmentViolation, 'id' | 'detectedAt'> = {
+    storagePath: object.name,
+    parentType: location.parentType,
+    parentId: location.parentId,
+    pirId,
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+    reason
+  };
+  
+  await admin.firestore().collection('attachmentViolations').add({
+    ...violation,
+    detectedAt: admin.firestore.FieldValue.serverTimestamp()
+  });
+  
+  await flagAttachmentsAtPath(object.name, reason);
+  
+  console.log(`Removed ${object.name} for breaking the attachment policy: ${reason}`);
+  
+  return false;
+};
+
+/**
+ * Flag an attachment whose file was removed by the policy check before the
+ * attachment record pointed at it
+ */
+export const flagRemovedAttachmentFile = async (
+  attachmentId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Promise<void> => {
+  if (!after?.storagePath || after.policyViolation || before?.storagePath === after.storagePath) {
+    return;
+  }
+  
+  const db = admin.firestore();
+  const violations = await db.collection('attachmentViolations')
+    .where('storagePath', '==', after.storagePath)
+    .limit(1)
+    .get();
+  
+  if (violations.empty) {
+    return;
+  }
+  
+  await db.collection('attachments').doc(attachmentId).update({
+    policyViolation: violations.docs[0].data().reason,
+    updatedBy: null
+  });
+};
\ No newline at end of file
@@ -0,0 +1,126 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import sharp from 'sharp';
+import { createCanvas } from 'canvas';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf';
+import {
+  AttachmentPreviewPaths,
+  canHavePreview,
+  getAttachmentPreviewPaths,
+  PREVIEW_WIDTH,
+  THUMBNAIL_WIDTH
+} from '../src/utils/attachmentPreviews';
+
+type DocumentData = admin.firestore.DocumentData;
+
+/**
+ * Render the first page of a PDF as a PNG about as wide as a preview
+ */
+const renderFirstPDFPage = async (data: Buffer): Promise<Buffer> => {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), disableFontFace: true }).promise;
+  
+  try {
+    const page = await pdf.getPage(1);
+    const scale = PREVIEW_WIDTH / page.getViewport({ scale: 1 }).width;
+    const viewport = page.getViewport({ scale });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    
+    await page.render({
+      canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D,
+      viewport
+    }).promise;
+    
+    return canvas.toBuffer('image/png');
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Scale an image down to a JPEG of at most the given width, turned upright and
+ * on a white background in place of transparency
+ */
+const toJPEG = (image: Buffer, width: number): Promise<Buffer> => {
+  return sharp(image)
+    .rotate()
+    .resize({ width, height: width * 2, fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+};
+
+/**
+ * Record the previews of a stored file on the attachments holding it as their
+ * current file
+ */
+const recordPreviewPaths = async (storagePath: string, paths: AttachmentPreviewPaths): Promise<void> => {
+  const db = admin.firestore();
+  const snapshot = await db.collection('attachments').where('storagePath', '==', storagePath).get();
+  
+  await Promise.all(snapshot.docs.map(doc => doc.ref.update({
+    ...paths,
+    updatedBy: null
+  })));
+};
+
+/**
+ * Generate a thumbnail and a larger preview of a newly stored image or PDF,
+ * storing them in the previews folder next to it
+ *
+ * PDFs are previewed by their first page. Attachments created after this runs
+ * pick the previews up through linkAttachmentPreviews.
+ */
+export const generateAttachmentPreviews = async (object: functions.storage.ObjectMetadata): Promise<void> => {
+  if (!object.name || !canHavePreview(object.contentType || '')) {
+    return;
+  }
+  
+  const bucket = admin.storage().bucket(object.bucket);
+  const [data] = await bucket.file(object.name).download();
+  const image = object.contentType === 'application/pdf' ? await renderFirstPDFPage(data) : data;
+  
+  const [thumbnail, preview] = await Promise.all([
+    toJPEG(image, THUMBNAIL_WIDTH),
+    toJPEG(image, PREVIEW_WIDTH)
+  ]);
+  
+  const paths = getAttachmentPreviewPaths(object.name);
+  const metadata = { contentType: 'image/jpeg', cacheControl: 'private, max-age=31536000' };
+  
+  // The preview is saved last, so its presence means both images are ready
+  await bucket.file(paths.thumbnailPath).save(thumbnail, { metadata });
+  await bucket.file(paths.previewPath).save(preview, { metadata });
+  
+  await recordPreviewPaths(object.name, paths);
+};
+
+/**
+ * Record previews that were generated before an attachment pointed at their file
+ */
+export const linkAttachmentPreviews = async (
+  attachmentId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Promise<void> => {
+  if (
+    !after?.storagePath ||
+    after.previewPath ||
+    after.policyViolation ||
+    before?.storagePath === after.storagePath ||
+    !canHavePreview(after.fileType || '')
+  ) {
+    return;
+  }
+  
+  const paths = getAttachmentPreviewPaths(after.storagePath);
+  const [isReady] = await admin.storage().bucket().file(paths.previewPath).exists();
+  
+  if (!isReady) {
+    return;
+  }
+  
+  await admin.firestore().collection('attachments').doc(attachmentId).update({
+    ...paths,
+    updatedBy: null
+  });
+};
\ No newline at end of file
@@ -0,0 +1,93 @@
+import * as admin from 'firebase-admin';
+import { PIR, PIRComment } from '../src/types'; // We're referencing the types from the client application
+import { getMentionableUserIds, getMentions, getNewMentions } from '../src/utils/mentions';
+import { sendMentionEmail } from './email-notifications';
+
+type DocumentData = admin.firestore.DocumentData;
+
+/**
+ * Describe what a comment is about for the notification email
+ */
+const getCommentContext = async (comment: PIRComment): Promise<string> => {
+  const db = admin.firestore();
+  
+  if (comment.targetType === 'pir') {
+    return 'the PIR';
+  }
+  
+  let questionId = comment.targetId;
+  
+  if (comment.targetType === 'answer') {
+    const answerSnapshot = await db.collection('answers').doc(comment.targetId).get();
+    questionId = answerSnapshot.get('questionId');
+    
+    if (!questionId) {
+      return 'an answer';
+    }
+  }
+  
+  const questionSnapshot = await db.collection('questions').doc(questionId).get();
+  const questionText = questionSnapshot.get('text') as string | undefined;
+  const subject = comment.targetType === 'answer' ? 'an answer to the question' : 'the question';
+  
+  return questionText ? `${subject} "${questionText}"` : subject;
+};
+
+/**
+ * Email the users a comment mentions for the first time, skipping the author
+ * and deleted comments
+ *
+ * Mentions are read from the comment text rather than its mentions field,
+ * which the client writes, and only people taking part in the PIR are emailed.
+ */
+export const notifyMentionedUsers = async (
+  pirId: string,
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Promise<void> => {
+  if (!after || after.deletedAt) {
+    return;
+  }
+  
+  const comment = { ...after, pirId } as PIRComment;
+  const db = admin.firestore();
+  const pirSnapshot = await db.collection('pirs').doc(pirId).get();
+  
+  if (!pirSnapshot.exists) {
+    return;
+  }
+  
+  const participantSnapshots = await Promise.all(
+    getMentionableUserIds(pirSnapshot.data() as PIR).map(userId => db.collection('users').doc(userId).get())
+  );
+  const participants = participantSnapshots
+    .filter(snapshot => snapshot.exists)
+    .map(snapshot => ({ id: snapshot.id, displayName: snapshot.get('displayName') || '' }));
+  
+  const recipientIds = getNewMentions(getMentions(before?.text || '', participants), getMentions(comment.text || '', participants))
+    .map(mention => mention.userId)
+    .filter(userId => userId !== comment.authorId);
+  
+  if (!recipientIds.length) {
+    return;
+  }
+  
+  const context = await getCommentContext(comment);
+  const author = participantSnapshots.find(snapshot => snapshot.id === comment.authorId);
+  
+  await Promise.all(
+    participantSnapshots
+      .filter(snapshot => recipientIds.includes(snapshot.id) && !!snapshot.get('email'))
+      .map(snapshot => sendMentionEmail({
+        pir: {
+          id: pirId,
+          title: pirSnapshot.get('title'),
+          productName: pirSnapshot.get('productName')
+        },
+        authorName: author?.get('displayName') || comment.authorName,
+        commentText: comment.text,
+        context,
+        toEmail: snapshot.get('email')
+      }))
+  );
+};
\ No newline at end of file
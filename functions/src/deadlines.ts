@@ -0,0 +1,224 @@
+import * as admin from 'firebase-admin';
+import { sendDeadlineReminderEmail, sendOverdueEscalationEmail } from './email-notifications';
+import { PIR, PIRParticipant, SLAConfig, WorkflowDefinition } from '../src/types'; // We're referencing the types from the client application
+import { getWorkflowState, selectWorkflow } from '../src/utils/pirWorkflow';
+import {
+  DEFAULT_SLA_CONFIG,
+  getDueReminderOffsets,
+  getOpenStatuses,
+  isEscalationDue,
+  isOpenPIR,
+  isPIROverdue
+} from '../src/utils/deadlines';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+// Most values Firestore accepts in an "in" filter
+const MAX_IN_VALUES = 30;
+
+/**
+ * Load the SLA settings, falling back to the defaults for missing fields
+ */
+const getSLAConfig = async (): Promise<SLAConfig> => {
+  const snapshot = await admin.firestore().collection('settings').doc('sla').get();
+  
+  return { ...DEFAULT_SLA_CONFIG, ...snapshot.data() } as SLAConfig;
+};
+
+/**
+ * Get the email addresses of users by ID, skipping users without a profile
+ */
+const getUserEmails = async (userIds: string[]): Promise<string[]> => {
+  const db = admin.firestore();
+  const snapshots = await Promise.all(
+    Array.from(new Set(userIds)).map(userId => db.collection('users').doc(userId).get())
+  );
+  
+  return snapshots
+    .map(snapshot => snapshot.data()?.email)
+    .filter(Boolean);
+};
+
+/**
+ * Get the users who have to act on a PIR next: the participants allowed to
+ * move it out of its current state
+ */
+const getPendingUserIds = (pir: PIR, workflow: WorkflowDefinition): string[] => {
+  const participants = new Set<PIRParticipant>();
+  
+  workflow.transitions
+    .filter(transition => transition.from === pir.status)
+    .forEach(transition => transition.allowedParticipants.forEach(participant => participants.add(participant)));
+  
+  const userIds: string[] = [];
+  
+  if (participants.has('responder') && pir.assignedResponderId) {
+    userIds.push(pir.assignedResponderId);
+  }
+  
+  if (participants.has('reviewer')) {
+    if (pir.reviewerId) userIds.push(pir.reviewerId);
+    (pir.reviewers || []).filter(reviewer => !reviewer.decision).forEach(reviewer => userIds.push(reviewer.userId));
+  }
+  
+  // The requester is reminded when nobody else is responsible
+  if (participants.has('requester') || userIds.length === 0) {
+    userIds.push(pir.requesterId);
+  }
+  
+  return userIds;
+};
+
+/**
+ * Get the admins of the requester's department, or every admin when the
+ * department has none
+ */
+const getEscalationEmails = async (requesterId: string): Promise<string[]> => {
+  const db = admin.firestore();
+  const requesterSnapshot = await db.collection('users').doc(requesterId).get();
+  const department = requesterSnapshot.data()?.department;
+  
+  if (department) {
+    const departmentAdminsSnapshot = await db.collection('users')
+      .where('role', '==', 'admin')
+      .where('department', '==', department)
+      .get();
+    
+    if (!departmentAdminsSnapshot.empty) {
+      return departmentAdminsSnapshot.docs.map(doc => doc.data().email).filter(Boolean);
+    }
+  }
+  
+  const adminsSnapshot = await db.collection('users')
+    .where('role', '==', 'admin')
+    .get();
+  
+  return adminsSnapshot.docs.map(doc => doc.data().email).filter(Boolean);
+};
+
+/**
+ * Convert the Firestore timestamps of a PIR document into dates
+ */
+const toPIR = (snapshot: admin.firestore.DocumentSnapshot): PIR => {
+  const data = snapshot.data() || {};
+  const pir: Record<string, unknown> = { ...data, id: snapshot.id };
+  
+  Object.entries(data).forEach(([key, value]) => {
+    if (value instanceof admin.firestore.Timestamp) {
+      pir[key] = value.toDate();
+    }
+  });
+  
+  return pir as unknown as PIR;
+};
+
+/**
+ * Send due deadline reminders, flag overdue PIRs and escalate PIRs that stayed
+ * overdue past the grace period
+ */
+export const checkPIRDeadlines = async (now: Date = new Date()): Promise<void> => {
+  const db = admin.firestore();
+  const config = await getSLAConfig();
+  
+  const workflowsSnapshot = await db.collection('workflows').get();
+  const workflows = workflowsSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as WorkflowDefinition);
+  
+  // Open PIRs with a deadline inside the reminder window, plus PIRs still
+  // flagged overdue whose deadline may have been moved or that were closed.
+  // Closed PIRs are left out of the deadline query so it does not grow with
+  // every PIR ever created.
+  const reminderHorizon = new Date(now.getTime() + Math.max(0, ...config.reminderOffsetsHours) * HOUR_IN_MS);
+  const openStatuses = getOpenStatuses(workflows);
+  const statusChunks: string[][] = [];
+  
+  for (let i = 0; i < openStatuses.length; i += MAX_IN_VALUES) {
+    statusChunks.push(openStatuses.slice(i, i + MAX_IN_VALUES));
+  }
+  
+  const [overdueSnapshot, ...dueSnapshots] = await Promise.all([
+    db.collection('pirs').where('isOverdue', '==', true).get(),
+    ...statusChunks.map(statuses => db.collection('pirs')
+      .where('status', 'in', statuses)
+      .where('completionDeadline', '<=', reminderHorizon)
+      .get())
+  ]);
+  
+  const snapshots = new Map<string, admin.firestore.DocumentSnapshot>();
+  [overdueSnapshot, ...dueSnapshots].forEach(querySnapshot =>
+    querySnapshot.docs.forEach(doc => snapshots.set(doc.id, doc))
+  );
+  
+  for (const snapshot of snapshots.values()) {
+    const pir = toPIR(snapshot);
+    const workflow = selectWorkflow(workflows, pir.productCategory || '');
+    const updates: Record<string, any> = {};
+    
+    try {
+      // Start tracking from scratch when the deadline was changed
+      if (pir.completionDeadline && pir.slaTrackedDeadline?.getTime() !== pir.completionDeadline.getTime()) {
+        pir.remindersSent = [];
+        pir.escalatedAt = undefined;
+        updates.slaTrackedDeadline = pir.completionDeadline;
+        updates.remindersSent = [];
+        updates.escalatedAt = admin.firestore.FieldValue.delete();
+      }
+      
+      const overdue = isPIROverdue(pir, workflow, now);
+      
+      if (!overdue && pir.isOverdue) {
+        updates.isOverdue = false;
+        updates.overdueSince = admin.firestore.FieldValue.delete();
+      }
+      
+      if (isOpenPIR(pir, workflow) && pir.completionDeadline) {
+        const statusLabel = getWorkflowState(workflow, pir.status)?.label || pir.status;
+        const dueOffsets = getDueReminderOffsets(pir, config, now);
+        
+        // A late run sends a single reminder for every offset that came due
+        if (dueOffsets.length > 0) {
+          await sendDeadlineReminderEmail({
+            pir: {
+              id: pir.id,
+              title: pir.title,
+              productName: pir.productName,
+              statusLabel
+            },
+            deadline: pir.completionDeadline,
+            hoursRemaining: Math.round((pir.completionDeadline.getTime() - now.getTime()) / HOUR_IN_MS),
+            toEmails: await getUserEmails(getPendingUserIds(pir, workflow))
+          });
+          updates.remindersSent = [...(pir.remindersSent || []), ...dueOffsets];
+        }
+        
+        if (overdue && !pir.isOverdue) {
+          updates.isOverdue = true;
+          updates.overdueSince = pir.completionDeadline;
+        }
+        
+        if (overdue && isEscalationDue(pir, config, now)) {
+          await sendOverdueEscalationEmail({
+            pir: {
+              id: pir.id,
+              title: pir.title,
+              productName: pir.productName,
+              requesterName: pir.requesterName,
+              assignedResponderName: pir.assignedResponderName,
+              statusLabel
+            },
+            deadline: pir.completionDeadline,
+            toEmails: await getEscalationEmails(pir.requesterId)
+          });
+          updates.escalatedAt = admin.firestore.FieldValue.serverTimestamp();
+        }
+      }
+      
+      if (Object.keys(updates).length > 0) {
+        // Attribute the change to the system in the activity log
+        await snapshot.ref.update({ ...updates, updatedBy: null });
+      }
+    } catch (error) {
+      // Keep going so one failing PIR does not block the others
+      console.error(`Error checking deadline of PIR ${pir.id}:`, error);
+    }
+  }
+};
\ No newline at end of file
@@ -12,11 +12,24 @@ const APP_BASE_URL = functions.config().app.baseurl || 'https://stacksio-pir-wor
 const EMAIL_SENDER = functions.config().email.sender || 'notifications@stacksio.com';
 const EMAIL_SENDER_NAME = functions.config().email.sendername || 'Stacksio PIR Workflow';
 
+/**
+ * Escape text written by users before it is placed in email HTML
+ */
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
 /**
  * Send email notification when PIR status changes
  */
 interface PIRStatusUpdateEmailParams {
-  status: PIRStatus;
+  status: string; // A PIRStatus or a custom workflow state
+  statusLabel?: string; // Label of a custom workflow state
   pir: {
     id: string;
     title: string;
@@ -28,7 +41,7 @@ interface PIRStatusUpdateEmailParams {
 }
 
 export const sendPIRStatusUpdateEmail = async (params: PIRStatusUpdateEmailParams): Promise<void> => {
-  const { status, pir, toEmails } = params;
+  const { status, statusLabel, pir, toEmails } = params;
   
   // Skip if no recipients
   if (!toEmails.length) {
@@ -75,7 +88,7 @@ export const sendPIRStatusUpdateEmail = async (params: PIRStatusUpdateEmailParam
     default:
       subject = `[Stacksio] PIR Status Update: ${pir.title}`;
       headline = 'Product Information Request Update';
-      statusText = `is now in ${status} status.`;
+      statusText = `is now in ${statusLabel || status} status.`;
       break;
   }
   
@@ -482,4 +495,759 @@ export const sendNewAnswerEmail = async (params: NewAnswerEmailParams): Promise<
     console.error('Error sending new answer email:', error);
     throw error;
   }
+};
+
+/**
+ * Send email notification when a reviewer sends a PIR back for changes
+ */
+interface ChangesRequestedEmailParams {
+  pir: {
+    id: string;
+    title: string;
+    productName: string;
+  };
+  reviewNotes: string;
+  reviewerName: string;
+  revisionRound: number;
+  reopenedQuestions?: string[]; // Texts of the questions sent back; every question is reopened when empty
+  toEmail: string;
+}
+
+export const sendChangesRequestedEmail = async (params: ChangesRequestedEmailParams): Promise<void> => {
+  const { pir, reviewNotes, reviewerName, revisionRound, reopenedQuestions = [], toEmail } = params;
+  
+  const reopenedQuestionsHtml = reopenedQuestions.length > 0
+    ? `
+        <p><strong>Questions to revise:</strong></p>
+        <ul>
+          ${reopenedQuestions.map(question => `<li>${escapeHtml(question)}</li>`).join('')}
+        </ul>
+        `
+    : '';
+  const reopenedQuestionsText = reopenedQuestions.length > 0
+    ? `
+    Questions to revise:
+    ${reopenedQuestions.map(question => `- ${question}`).join('\n    ')}
+    `
+    : '';
+  
+  const subject = `[Stacksio] Changes Requested for PIR: ${pir.title}`;
+  
+  // Everything but the PIR ID and revision round was written by users
+  const safe = {
+    subject: escapeHtml(subject),
+    reviewerName: escapeHtml(reviewerName),
+    title: escapeHtml(pir.title),
+    productName: escapeHtml(pir.productName),
+    reviewNotes: escapeHtml(reviewNotes)
+  };
+  
+  // Build the email HTML
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${safe.subject}</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background-color: #4f46e5;
+          color: white;
+          padding: 20px;
+          text-align: center;
+          border-radius: 5px 5px 0 0;
+        }
+        .content {
+          padding: 20px;
+          border: 1px solid #ddd;
+          border-top: none;
+          border-radius: 0 0 5px 5px;
+        }
+        .notes {
+          background-color: #fffbeb;
+          padding: 15px;
+          border-left: 4px solid #f59e0b;
+          margin: 15px 0;
+        }
+        .button {
+          display: inline-block;
+          background-color: #4f46e5;
+          color: white;
+          text-decoration: none;
+          padding: 12px 25px;
+          border-radius: 5px;
+          margin-top: 20px;
+        }
+        .footer {
+          margin-top: 20px;
+          text-align: center;
+          font-size: 12px;
+          color: #777;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>Changes Requested</h1>
+      </div>
+      <div class="content">
+        <p>${safe.reviewerName} has sent the following Product Information Request back to you for changes:</p>
+        
+        <h2>${safe.title}</h2>
+        <p><strong>Product:</strong> ${safe.productName}</p>
+        <p><strong>Revision round:</strong> ${revisionRound}</p>
+        
+        <div class="notes">
+          <p><strong>Review notes:</strong></p>
+          <p>${safe.reviewNotes}</p>
+        </div>
+        ${reopenedQuestionsHtml}
+        <p>Please update your answers and submit the PIR for review again.</p>
+        
+        <a href="${APP_BASE_URL}/pirs/${pir.id}" class="button">View PIR Details</a>
+      </div>
+      <div class="footer">
+        <p>This is an automated message from the Stacksio PIR Workflow system.</p>
+      </div>
+    </body>
+    </html>
+  `;
+  
+  // Plain text version
+  const text = `
+    Changes Requested
+    
+    ${reviewerName} has sent the following Product Information Request back to you for changes:
+    
+    Title: ${pir.title}
+    Product: ${pir.productName}
+    Revision round: ${revisionRound}
+    
+    Review notes:
+    ${reviewNotes}
+    ${reopenedQuestionsText}
+    Please update your answers and submit the PIR for review again.
+    
+    View PIR Details: ${APP_BASE_URL}/pirs/${pir.id}
+    
+    This is an automated message from the Stacksio PIR Workflow system.
+  `;
+  
+  // Send the email
+  const msg = {
+    to: toEmail,
+    from: {
+      email: EMAIL_SENDER,
+      name: EMAIL_SENDER_NAME
+    },
+    subject,
+    text,
+    html
+  };
+  
+  try {
+    await sgMail.send(msg);
+    console.log(`Changes requested email sent to ${toEmail}`);
+  } catch (error) {
+    console.error('Error sending changes requested email:', error);
+    throw error;
+  }
+};
+/**
+ * Send a reminder that a PIR deadline is approaching
+ */
+interface DeadlineReminderEmailParams {
+  pir: {
+    id: string;
+    title: string;
+    productName: string;
+    statusLabel: string;
+  };
+  deadline: Date;
+  hoursRemaining: number;
+  toEmails: string[];
+}
+
+export const sendDeadlineReminderEmail = async (params: DeadlineReminderEmailParams): Promise<void> => {
+  const { pir, deadline, hoursRemaining, toEmails } = params;
+  
+  // Skip if no recipients
+  if (!toEmails.length) {
+    console.log('No recipients for deadline reminder email');
+    return;
+  }
+  
+  const timeRemaining = hoursRemaining >= 48 
+    ? `${Math.floor(hoursRemaining / 24)} days` 
+    : `${Math.max(hoursRemaining, 1)} hours`;
+  const subject = `[Stacksio] PIR Due in ${timeRemaining}: ${pir.title}`;
+  
+  // Build the email HTML
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${subject}</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background-color: #4f46e5;
+          color: white;
+          padding: 20px;
+          text-align: center;
+          border-radius: 5px 5px 0 0;
+        }
+        .content {
+          padding: 20px;
+          border: 1px solid #ddd;
+          border-top: none;
+          border-radius: 0 0 5px 5px;
+        }
+        .deadline {
+          background-color: #fffbeb;
+          padding: 15px;
+          border-left: 4px solid #f59e0b;
+          margin: 15px 0;
+        }
+        .button {
+          display: inline-block;
+          background-color: #4f46e5;
+          color: white;
+          text-decoration: none;
+          padding: 12px 25px;
+          border-radius: 5px;
+          margin-top: 20px;
+        }
+        .footer {
+          margin-top: 20px;
+          text-align: center;
+          font-size: 12px;
+          color: #777;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>Deadline Approaching</h1>
+      </div>
+      <div class="content">
+        <p>The following Product Information Request is due in ${timeRemaining}:</p>
+        
+        <h2>${pir.title}</h2>
+        <p><strong>Product:</strong> ${pir.productName}</p>
+        <p><strong>Status:</strong> ${pir.statusLabel}</p>
+        
+        <div class="deadline">
+          <p><strong>Deadline:</strong> ${deadline.toLocaleString()}</p>
+        </div>
+        
+        <p>Please complete your part of the PIR before the deadline.</p>
+        
+        <a href="${APP_BASE_URL}/pirs/${pir.id}" class="button">View PIR Details</a>
+      </div>
+      <div class="footer">
+        <p>This is an automated message from the Stacksio PIR Workflow system.</p>
+      </div>
+    </body>
+    </html>
+  `;
+  
+  // Plain text version
+  const text = `
+    Deadline Approaching
+    
+    The following Product Information Request is due in ${timeRemaining}:
+    
+    Title: ${pir.title}
+    Product: ${pir.productName}
+    Status: ${pir.statusLabel}
+    Deadline: ${deadline.toLocaleString()}
+    
+    Please complete your part of the PIR before the deadline.
+    
+    View PIR Details: ${APP_BASE_URL}/pirs/${pir.id}
+    
+    This is an automated message from the Stacksio PIR Workflow system.
+  `;
+  
+  // Send the email
+  const msg = {
+    to: toEmails,
+    from: {
+      email: EMAIL_SENDER,
+      name: EMAIL_SENDER_NAME
+    },
+    subject,
+    text,
+    html
+  };
+  
+  try {
+    await sgMail.send(msg);
+    console.log(`Deadline reminder email sent to ${toEmails.join(', ')}`);
+  } catch (error) {
+    console.error('Error sending deadline reminder email:', error);
+    throw error;
+  }
+};
+
+/**
+ * Send email notification when an overdue PIR is escalated
+ */
+interface OverdueEscalationEmailParams {
+  pir: {
+    id: string;
+    title: string;
+    productName: string;
+    requesterName: string;
+    assignedResponderName?: string;
+    statusLabel: string;
+  };
+  deadline: Date;
+  toEmails: string[];
+}
+
+export const sendOverdueEscalationEmail = async (params: OverdueEscalationEmailParams): Promise<void> => {
+  const { pir, deadline, toEmails } = params;
+  
+  // Skip if no recipients
+  if (!toEmails.length) {
+    console.log('No recipients for overdue escalation email');
+    return;
+  }
+  
+  const subject = `[Stacksio] Overdue PIR Escalated: ${pir.title}`;
+  
+  // Build the email HTML
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${subject}</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background-color: #dc2626;
+          color: white;
+          padding: 20px;
+          text-align: center;
+          border-radius: 5px 5px 0 0;
+        }
+        .content {
+          padding: 20px;
+          border: 1px solid #ddd;
+          border-top: none;
+          border-radius: 0 0 5px 5px;
+        }
+        .deadline {
+          background-color: #fef2f2;
+          padding: 15px;
+          border-left: 4px solid #dc2626;
+          margin: 15px 0;
+        }
+        .button {
+          display: inline-block;
+          background-color: #4f46e5;
+          color: white;
+          text-decoration: none;
+          padding: 12px 25px;
+          border-radius: 5px;
+          margin-top: 20px;
+        }
+        .footer {
+          margin-top: 20px;
+          text-align: center;
+          font-size: 12px;
+          color: #777;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>Overdue PIR Escalation</h1>
+      </div>
+      <div class="content">
+        <p>The following Product Information Request from your department is overdue and needs your attention:</p>
+        
+        <h2>${pir.title}</h2>
+        <p><strong>Product:</strong> ${pir.productName}</p>
+        <p><strong>Requested by:</strong> ${pir.requesterName}</p>
+        <p><strong>Assigned responder:</strong> ${pir.assignedResponderName || 'Not assigned'}</p>
+        <p><strong>Status:</strong> ${pir.statusLabel}</p>
+        
+        <div class="deadline">
+          <p><strong>Deadline:</strong> ${deadline.toLocaleString()}</p>
+        </div>
+        
+        <a href="${APP_BASE_URL}/pirs/${pir.id}" class="button">View PIR Details</a>
+      </div>
+      <div class="footer">
+        <p>This is an automated message from the Stacksio PIR Workflow system.</p>
+      </div>
+    </body>
+    </html>
+  `;
+  
+  // Plain text version
+  const text = `
+    Overdue PIR Escalation
+    
+    The following Product Information Request from your department is overdue and needs your attention:
+    
+    Title: ${pir.title}
+    Product: ${pir.productName}
+    Requested by: ${pir.requesterName}
+    Assigned responder: ${pir.assignedResponderName || 'Not assigned'}
+    Status: ${pir.statusLabel}
+    Deadline: ${deadline.toLocaleString()}
+    
+    View PIR Details: ${APP_BASE_URL}/pirs/${pir.id}
+    
+    This is an automated message from the Stacksio PIR Workflow system.
+  `;
+  
+  // Send the email
+  const msg = {
+    to: toEmails,
+    from: {
+      email: EMAIL_SENDER,
+      name: EMAIL_SENDER_NAME
+    },
+    subject,
+    text,
+    html
+  };
+  
+  try {
+    await sgMail.send(msg);
+    console.log(`Overdue escalation email sent to ${toEmails.join(', ')}`);
+  } catch (error) {
+    console.error('Error sending overdue escalation email:', error);
+    throw error;
+  }
+};
+/**
+ * Send email notification when a PIR is put on hold or cancelled
+ */
+interface PIRWithdrawnEmailParams {
+  pir: {
+    id: string;
+    title: string;
+    productName: string;
+  };
+  action: 'on_hold' | 'cancelled';
+  reason: string;
+  requesterName: string;
+  toEmail: string;
+}
+
+export const sendPIRWithdrawnEmail = async (params: PIRWithdrawnEmailParams): Promise<void> => {
+  const { pir, action, reason, requesterName, toEmail } = params;
+  
+  const isOnHold = action === 'on_hold';
+  const subject = isOnHold 
+    ? `[Stacksio] PIR On Hold: ${pir.title}` 
+    : `[Stacksio] PIR Cancelled: ${pir.title}`;
+  const headline = isOnHold ? 'PIR Put On Hold' : 'PIR Cancelled';
+  const statusText = isOnHold ? 'has been put on hold' : 'has been cancelled';
+  const instructions = isOnHold 
+    ? 'Please pause your work on this PIR. You will be notified when it resumes.' 
+    : 'No further work is needed on this PIR.';
+  
+  // Everything but the PIR ID and the fixed wording was written by users
+  const safe = {
+    subject: escapeHtml(subject),
+    requesterName: escapeHtml(requesterName),
+    title: escapeHtml(pir.title),
+    productName: escapeHtml(pir.productName),
+    reason: escapeHtml(reason)
+  };
+  
+  // Build the email HTML
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${safe.subject}</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background-color: #4f46e5;
+          color: white;
+          padding: 20px;
+          text-align: center;
+          border-radius: 5px 5px 0 0;
+        }
+        .content {
+          padding: 20px;
+          border: 1px solid #ddd;
+          border-top: none;
+          border-radius: 0 0 5px 5px;
+        }
+        .notes {
+          background-color: #f9fafb;
+          padding: 15px;
+          border-left: 4px solid #6b7280;
+          margin: 15px 0;
+        }
+        .button {
+          display: inline-block;
+          background-color: #4f46e5;
+          color: white;
+          text-decoration: none;
+          padding: 12px 25px;
+          border-radius: 5px;
+          margin-top: 20px;
+        }
+        .footer {
+          margin-top: 20px;
+          text-align: center;
+          font-size: 12px;
+          color: #777;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${headline}</h1>
+      </div>
+      <div class="content">
+        <p>The following Product Information Request you are working on ${statusText} by ${safe.requesterName}:</p>
+        
+        <h2>${safe.title}</h2>
+        <p><strong>Product:</strong> ${safe.productName}</p>
+        
+        <div class="notes">
+          <p><strong>Reason:</strong></p>
+          <p>${safe.reason}</p>
+        </div>
+        
+        <p>${instructions}</p>
+        
+        <a href="${APP_BASE_URL}/pirs/${pir.id}" class="button">View PIR Details</a>
+      </div>
+      <div class="footer">
+        <p>This is an automated message from the Stacksio PIR Workflow system.</p>
+      </div>
+    </body>
+    </html>
+  `;
+  
+  // Plain text version
+  const text = `
+    ${headline}
+    
+    The following Product Information Request you are working on ${statusText} by ${requesterName}:
+    
+    Title: ${pir.title}
+    Product: ${pir.productName}
+    
+    Reason:
+    ${reason}
+    
+    ${instructions}
+    
+    View PIR Details: ${APP_BASE_URL}/pirs/${pir.id}
+    
+    This is an automated message from the Stacksio PIR Workflow system.
+  `;
+  
+  // Send the email
+  const msg = {
+    to: toEmail,
+    from: {
+      email: EMAIL_SENDER,
+      name: EMAIL_SENDER_NAME
+    },
+    subject,
+    text,
+    html
+  };
+  
+  try {
+    await sgMail.send(msg);
+    console.log(`PIR withdrawn email sent to ${toEmail}`);
+  } catch (error) {
+    console.error('Error sending PIR withdrawn email:', error);
+    throw error;
+  }
+};
+/**
+ * Send email notification to a user mentioned in a comment
+ */
+interface MentionEmailParams {
+  pir: {
+    id: string;
+    title: string;
+    productName: string;
+  };
+  authorName: string;
+  commentText: string;
+  context: string; // What the comment is about, e.g. the text of the discussed question
+  toEmail: string;
+}
+
+export const sendMentionEmail = async (params: MentionEmailParams): Promise<void> => {
+  const { pir, authorName, commentText, context, toEmail } = params;
+  
+  const subject = `[Stacksio] ${authorName} mentioned you on PIR: ${pir.title}`;
+  
+  // Everything but the PIR ID was written by users
+  const safe = {
+    subject: escapeHtml(subject),
+    authorName: escapeHtml(authorName),
+    context: escapeHtml(context),
+    title: escapeHtml(pir.title),
+    productName: escapeHtml(pir.productName),
+    commentText: escapeHtml(commentText)
+  };
+  
+  // Build the email HTML
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${safe.subject}</title>
+      <style>
+        body {
+          font-family: Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .header {
+          background-color: #4f46e5;
+          color: white;
+          padding: 20px;
+          text-align: center;
+          border-radius: 5px 5px 0 0;
+        }
+        .content {
+          padding: 20px;
+          border: 1px solid #ddd;
+          border-top: none;
+          border-radius: 0 0 5px 5px;
+        }
+        .notes {
+          background-color: #f9fafb;
+          padding: 15px;
+          border-left: 4px solid #4f46e5;
+          margin: 15px 0;
+        }
+        .button {
+          display: inline-block;
+          background-color: #4f46e5;
+          color: white;
+          text-decoration: none;
+          padding: 12px 25px;
+          border-radius: 5px;
+          margin-top: 20px;
+        }
+        .footer {
+          margin-top: 20px;
+          text-align: center;
+          font-size: 12px;
+          color: #777;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>You Were Mentioned</h1>
+      </div>
+      <div class="content">
+        <p>${safe.authorName} mentioned you in a comment on ${safe.context} of the following Product Information Request:</p>
+        
+        <h2>${safe.title}</h2>
+        <p><strong>Product:</strong> ${safe.productName}</p>
+        
+        <div class="notes">
+          <p>${safe.commentText}</p>
+        </div>
+        
+        <a href="${APP_BASE_URL}/pirs/${pir.id}" class="button">View Discussion</a>
+      </div>
+      <div class="footer">
+        <p>This is an automated message from the Stacksio PIR Workflow system.</p>
+      </div>
+    </body>
+    </html>
+  `;
+  
+  // Plain text version
+  const text = `
+    You Were Mentioned
+    
+    ${authorName} mentioned you in a comment on ${context} of the following Product Information Request:
+    
+    Title: ${pir.title}
+    Product: ${pir.productName}
+    
+    Comment:
+    ${commentText}
+    
+    View Discussion: ${APP_BASE_URL}/pirs/${pir.id}
+    
+    This is an automated message from the Stacksio PIR Workflow system.
+  `;
+  
+  // Send the email
+  const msg = {
+    to: toEmail,
+    from: {
+      email: EMAIL_SENDER,
+      name: EMAIL_SENDER_NAME
+    },
+    subject,
+    text,
+    html
+  };
+  
+  try {
+    await sgMail.send(msg);
+    console.log(`Mention email sent to ${toEmail}`);
+  } catch (error) {
+    console.error('Error sending mention email:', error);
+    throw error;
+  }
 };
\ No newline at end of file
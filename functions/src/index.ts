@@ -1,12 +1,591 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import { sendPIRStatusUpdateEmail, sendNewQuestionEmail, sendNewAnswerEmail } from './email-notifications';
-import { PIRStatus } from '../src/types'; // We're referencing the types from the client application
+import { 
+  sendPIRStatusUpdateEmail, 
+  sendNewQuestionEmail, 
+  sendNewAnswerEmail, 
+  sendChangesRequestedEmail, 
+  sendPIRWithdrawnEmail 
+} from './email-notifications';
+import { recordPIREvent, resolveAttachmentPIRId } from './activity-log';
+import { checkPIRDeadlines } from './deadlines';
+import { getPIRCompletenessById, updatePIRProgress } from './progress';
+import { notifyMentionedUsers } from './comments';
+import { enforceAttachmentPolicy, flagRemovedAttachmentFile } from './attachment-policy';
+import { generateAttachmentPreviews, linkAttachmentPreviews } from './attachment-previews';
+import { 
+  Answer, 
+  AnswerReviewStatus, 
+  PIR, 
+  PIRReviewer, 
+  PIRStatus, 
+  PIRTemplate, 
+  ReviewDecision, 
+  User, 
+  UserRole, 
+  WorkflowDefinition 
+} from '../src/types'; // We're referencing the types from the client application
+import { 
+  assertTransition, 
+  getApprovalTransition, 
+  getTransition, 
+  getTransitionSideEffects, 
+  getWorkflowState, 
+  isReviewState, 
+  PIRTransitionError, 
+  selectWorkflow 
+} from '../src/utils/pirWorkflow';
+import { 
+  applyReviewDecision, 
+  canRecordReviewDecision, 
+  getApprovalOutcome, 
+  hasRequiredReviewers, 
+  resetReviewDecisions 
+} from '../src/utils/reviewPolicy';
+import { 
+  ANSWER_REVIEW_STATUSES, 
+  canReviewAnswers, 
+  getFlaggedQuestionIds, 
+  isReviewCommentRequired 
+} from '../src/utils/answerReview';
+import { getMentionableUserIds } from '../src/utils/mentions';
 
 // Initialize the Firebase Admin SDK
 admin.initializeApp();
 const db = admin.firestore();
 
+// PIR fields a client may set alongside a status transition
+const TRANSITION_DATA_FIELDS: Array<keyof PIR> = ['reviewNotes', 'holdReason', 'cancellationReason'];
+
+/**
+ * Load the workflow definition that applies to a product category
+ */
+const getWorkflowForCategory = async (productCategory: string): Promise<WorkflowDefinition> => {
+  const workflowsSnapshot = await db.collection('workflows').get();
+  const workflows = workflowsSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as WorkflowDefinition);
+  
+  return selectWorkflow(workflows, productCategory || '');
+};
+
+/**
+ * Convert a workflow error into an error the callable can return to the client
+ */
+const toHttpsError = (error: PIRTransitionError): functions.https.HttpsError => {
+  const code = error.code === 'permission-denied' ? 'permission-denied' : 'failed-precondition';
+  
+  return new functions.https.HttpsError(code, error.message, {
+    reason: error.code,
+    missingFields: error.missingFields
+  });
+};
+
+/**
+ * Callable function: Move a PIR to a new status
+ * 
+ * This is the only supported way to change a PIR status. The caller's role and
+ * relationship to the PIR are checked against the shared workflow table, the
+ * transition preconditions are validated, and the status and timestamp fields
+ * are written in a single transaction.
+ */
+export const transitionPIR = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'You must be signed in to change a PIR status');
+  }
+  
+  const { pirId, status } = data || {};
+  
+  if (typeof pirId !== 'string' || typeof status !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'A PIR ID and a status are required');
+  }
+  
+  const userSnapshot = await db.collection('users').doc(context.auth.uid).get();
+  
+  if (!userSnapshot.exists) {
+    throw new functions.https.HttpsError('permission-denied', 'No user profile found for the caller');
+  }
+  
+  const user = { ...userSnapshot.data(), id: userSnapshot.id } as User;
+  
+  // Only accept the whitelisted fields from the client
+  const additionalData: Partial<PIR> = {};
+  TRANSITION_DATA_FIELDS.forEach(field => {
+    if (typeof data[field] === 'string') {
+      (additionalData as Record<string, unknown>)[field] = data[field];
+    }
+  });
+  
+  const pirRef = db.collection('pirs').doc(pirId);
+  
+  await db.runTransaction(async (transaction) => {
+    const pirSnapshot = await transaction.get(pirRef);
+    
+    if (!pirSnapshot.exists) {
+      throw new functions.https.HttpsError('not-found', `PIR with ID ${pirId} not found`);
+    }
+    
+    const pir = { ...pirSnapshot.data(), id: pirId } as PIR;
+    const workflow = await getWorkflowForCategory(pir.productCategory);
+    
+    let transition;
+    try {
+      transition = assertTransition(workflow, pir, status, user, additionalData);
+    } catch (error) {
+      if (error instanceof PIRTransitionError) {
+        throw toHttpsError(error);
+      }
+      throw error;
+    }
+    
+    if (transition.requiresAnsweredQuestions) {
+      const { missingQuestions } = await getPIRCompletenessById(pirId, transaction);
+      const unansweredQuestions = missingQuestions.map(question => question.text);
+      
+      if (unansweredQuestions.length > 0) {
+        throw new functions.https.HttpsError(
+          'failed-precondition',
+          `All required questions must be answered first (${unansweredQuestions.length} unanswered)`,
+          { reason: 'unanswered-questions', unansweredQuestions }
+        );
+      }
+    }
+    
+    const updates: Record<string, any> = {
+      ...additionalData,
+      ...getTransitionSideEffects(transition, user, pir),
+      status,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: user.id
+    };
+    
+    if (transition.timestampField) {
+      updates[transition.timestampField] = admin.firestore.FieldValue.serverTimestamp();
+    }
+    
+    // Decisions only count once the PIR is sent, so drop any recorded on the draft
+    if (pir.status === workflow.initialState && hasRequiredReviewers(pir)) {
+      updates.reviewers = resetReviewDecisions(pir.reviewers || []);
+    }
+    
+    // Close the current review round and start a new one for the responder
+    if (transition.startsRevision) {
+      const round = pir.revisionRound || 1;
+      const revision: Record<string, any> = {
+        round,
+        returnedAt: admin.firestore.Timestamp.now(),
+        returnedById: user.id,
+        returnedByName: user.displayName,
+        reviewNotes: additionalData.reviewNotes
+      };
+      
+      if (pir.submittedAt) revision.submittedAt = pir.submittedAt;
+      if (pir.reviewedAt) revision.reviewedAt = pir.reviewedAt;
+      if (pir.rejectedAt) revision.rejectedAt = pir.rejectedAt;
+      
+      // Keep the decisions of this round and ask every reviewer again
+      if (hasRequiredReviewers(pir)) {
+        revision.reviewerDecisions = pir.reviewers;
+        updates.reviewers = resetReviewDecisions(pir.reviewers || []);
+      }
+      
+      // Only reopen the questions whose answers were flagged, or every question when none were
+      const answersSnapshot = await transaction.get(db.collection('answers').where('pirId', '==', pirId));
+      const reopenedQuestionIds = getFlaggedQuestionIds(
+        answersSnapshot.docs.map(doc => doc.data() as Pick<Answer, 'questionId' | 'review'>)
+      );
+      
+      if (reopenedQuestionIds.length > 0) {
+        revision.reopenedQuestionIds = reopenedQuestionIds;
+        updates.reopenedQuestionIds = reopenedQuestionIds;
+      } else {
+        updates.reopenedQuestionIds = admin.firestore.FieldValue.delete();
+      }
+      
+      updates.revisionRound = round + 1;
+      updates.revisionHistory = admin.firestore.FieldValue.arrayUnion(revision);
+      updates.submittedAt = admin.firestore.FieldValue.delete();
+      updates.reviewedAt = admin.firestore.FieldValue.delete();
+      updates.rejectedAt = admin.firestore.FieldValue.delete();
+    }
+    
+    // Clear the hold and give back the time the deadline was paused for
+    if (transition.resumesHold) {
+      updates.statusBeforeHold = admin.firestore.FieldValue.delete();
+      updates.holdReason = admin.firestore.FieldValue.delete();
+      updates.heldAt = admin.firestore.FieldValue.delete();
+      
+      const heldAt = pirSnapshot.get('heldAt') as admin.firestore.Timestamp | undefined;
+      const deadline = pirSnapshot.get('completionDeadline') as admin.firestore.Timestamp | undefined;
+      
+      if (heldAt && deadline) {
+        updates.completionDeadline = admin.firestore.Timestamp.fromMillis(
+          deadline.toMillis() + Date.now() - heldAt.toMillis()
+        );
+      }
+    }
+    
+    transaction.update(pirRef, updates);
+  });
+  
+  return { pirId, status };
+});
+
+/**
+ * Callable function: Record a required reviewer's decision on a PIR
+ * 
+ * Decisions are only accepted while the PIR is in a review state of its
+ * workflow, and in sequential mode only from the next reviewer in line. Once
+ * the approval policy is satisfied, or any reviewer rejects the PIR, the PIR
+ * moves on through the workflow transition for that outcome.
+ */
+export const recordReviewDecision = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'You must be signed in to review a PIR');
+  }
+  
+  const { pirId, decision } = data || {};
+  const notes = typeof data?.notes === 'string' ? data.notes.trim() : '';
+  
+  if (typeof pirId !== 'string' || !['approved', 'rejected'].includes(decision)) {
+    throw new functions.https.HttpsError('invalid-argument', 'A PIR ID and a decision of approved or rejected are required');
+  }
+  
+  if (decision === 'rejected' && !notes) {
+    throw new functions.https.HttpsError('invalid-argument', 'Please explain why you are rejecting this PIR');
+  }
+  
+  const userId = context.auth.uid;
+  const pirRef = db.collection('pirs').doc(pirId);
+  
+  return db.runTransaction(async (transaction) => {
+    const pirSnapshot = await transaction.get(pirRef);
+    
+    if (!pirSnapshot.exists) {
+      throw new functions.https.HttpsError('not-found', `PIR with ID ${pirId} not found`);
+    }
+    
+    const pir = { ...pirSnapshot.data(), id: pirId } as PIR;
+    const workflow = await getWorkflowForCategory(pir.productCategory);
+    
+    if (!hasRequiredReviewers(pir)) {
+      throw new functions.https.HttpsError('failed-precondition', 'This PIR has no required reviewers');
+    }
+    
+    if (!isReviewState(workflow, pir.status)) {
+      throw new functions.https.HttpsError('failed-precondition', 'This PIR is not under review');
+    }
+    
+    if (!canRecordReviewDecision(pir, userId)) {
+      throw new functions.https.HttpsError(
+        'permission-denied',
+        pir.approvalPolicy?.mode === 'sequential'
+          ? 'It is not your turn to review this PIR'
+          : 'You are not a pending reviewer of this PIR'
+      );
+    }
+    
+    const reviewers: PIRReviewer[] = applyReviewDecision(
+      pir.reviewers || [],
+      userId,
+      decision as ReviewDecision,
+      notes,
+      new Date()
+    );
+    
+    const updates: Record<string, any> = {
+      reviewers,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: userId
+    };
+    
+    // Apply the workflow transition once the reviewers reached an outcome
+    const outcome = getApprovalOutcome({ ...pir, reviewers });
+    const transition = outcome ? getApprovalTransition(workflow, pir.status, outcome) : undefined;
+    
+    if (transition) {
+      updates.status = transition.to;
+      
+      if (transition.timestampField) {
+        updates[transition.timestampField] = admin.firestore.FieldValue.serverTimestamp();
+      }
+      
+      // Surface the rejecting reviewer's reasons on the PIR
+      if (outcome === 'rejected') {
+        updates.reviewNotes = notes;
+      }
+    }
+    
+    transaction.update(pirRef, updates);
+    
+    return { pirId, decision, status: updates.status || pir.status };
+  });
+});
+
+/**
+ * Callable function: Record a reviewer's decision on a single answer
+ * 
+ * Answers can be accepted, or sent back as needing clarification or rejected
+ * with a comment for the responder. Decisions are only accepted while the PIR
+ * is under review, and accepted answers can no longer be changed by the
+ * responder.
+ */
+export const reviewAnswer = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'You must be signed in to review an answer');
+  }
+  
+  const { answerId, status } = data || {};
+  const comment = typeof data?.comment === 'string' ? data.comment.trim() : '';
+  
+  if (typeof answerId !== 'string' || !ANSWER_REVIEW_STATUSES.includes(status)) {
+    throw new functions.https.HttpsError(
+      'invalid-argument',
+      'An answer ID and a status of accepted, needs_clarification or rejected are required'
+    );
+  }
+  
+  if (isReviewCommentRequired(status as AnswerReviewStatus) && !comment) {
+    throw new functions.https.HttpsError('invalid-argument', 'Please tell the responder what needs to change');
+  }
+  
+  const userSnapshot = await db.collection('users').doc(context.auth.uid).get();
+  
+  if (!userSnapshot.exists) {
+    throw new functions.https.HttpsError('permission-denied', 'No user profile found for the caller');
+  }
+  
+  const user = { ...userSnapshot.data(), id: userSnapshot.id } as User;
+  const answerRef = db.collection('answers').doc(answerId);
+  
+  return db.runTransaction(async (transaction) => {
+    const answerSnapshot = await transaction.get(answerRef);
+    
+    if (!answerSnapshot.exists) {
+      throw new functions.https.HttpsError('not-found', `Answer with ID ${answerId} not found`);
+    }
+    
+    const answer = answerSnapshot.data() as Answer;
+    const pirSnapshot = await transaction.get(db.collection('pirs').doc(answer.pirId));
+    
+    if (!pirSnapshot.exists) {
+      throw new functions.https.HttpsError('not-found', `PIR with ID ${answer.pirId} not found`);
+    }
+    
+    const pir = { ...pirSnapshot.data(), id: pirSnapshot.id } as PIR;
+    const workflow = await getWorkflowForCategory(pir.productCategory);
+    
+    if (!canReviewAnswers(workflow, pir, user)) {
+      throw new functions.https.HttpsError('permission-denied', 'You cannot review the answers of this PIR now');
+    }
+    
+    transaction.update(answerRef, {
+      review: {
+        status,
+        ...(comment && { comment }),
+        reviewerId: user.id,
+        reviewerName: user.displayName,
+        reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+        round: pir.revisionRound || 1
+      },
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: user.id
+    });
+    
+    return { answerId, status };
+  });
+});
+
+/**
+ * Check whether a user may see a PIR and its files: admins and the people
+ * taking part in it
+ */
+const canAccessPIR = (user: User, pir: PIR): boolean => {
+  return user.role === UserRole.ADMIN || getMentionableUserIds(pir).includes(user.id);
+};
+
+/**
+ * Read the storage path of a file from its Firebase download URL
+ */
+const getPathFromDownloadUrl = (downloadUrl: string): string | null => {
+  const match = /\/o\/([^?]+)/.exec(downloadUrl);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+/**
+ * The file a client asks copyStoredFile to copy and where to copy it to
+ */
+interface CopyStoredFileData {
+  source?: { attachmentId?: unknown; templateId?: unknown; storagePath?: unknown };
+  destination?: { templateId?: unknown; parentType?: unknown; parentId?: unknown };
+}
+
+/**
+ * A stored file copyStoredFile may copy, and the name it is stored under
+ */
+interface CopySource {
+  path: string;
+  fileName: string;
+}
+
+/**
+ * Find the file to copy: the current file of an attachment whose PIR the user
+ * can access, or a file of a template
+ */
+const resolveCopySource = async (source: CopyStoredFileData['source'], user: User): Promise<CopySource> => {
+  const attachmentId = source?.attachmentId;
+  const templateId = source?.templateId;
+  const storagePath = source?.storagePath;
+  
+  if (typeof attachmentId === 'string') {
+    const attachmentSnapshot = await db.collection('attachments').doc(attachmentId).get();
+    const attachment = attachmentSnapshot.data();
+    
+    if (!attachment || attachment.policyViolation) {
+      throw new functions.https.HttpsError('not-found', `Attachment ${attachmentId} not found`);
+    }
+    
+    const pirId = await resolveAttachmentPIRId(attachment);
+    const pirSnapshot = pirId ? await db.collection('pirs').doc(pirId).get() : null;
+    
+    if (!pirSnapshot?.exists || !canAccessPIR(user, { ...pirSnapshot.data(), id: pirSnapshot.id } as PIR)) {
+      throw new functions.https.HttpsError('permission-denied', 'You do not have access to this attachment');
+    }
+    
+    const path = attachment.storagePath || getPathFromDownloadUrl(attachment.downloadUrl || '');
+    
+    if (!path) {
+      throw new functions.https.HttpsError('failed-precondition', `The file of attachment ${attachmentId} cannot be found`);
+    }
+    
+    return { path, fileName: attachment.fileName };
+  }
+  
+  if (typeof templateId === 'string' && typeof storagePath === 'string') {
+    const templateSnapshot = await db.collection('templates').doc(templateId).get();
+    const templateFile = ((templateSnapshot.get('attachments') || []) as PIRTemplate['attachments'])
+      .find(attachment => attachment.storagePath === storagePath);
+    
+    if (!templateFile) {
+      throw new functions.https.HttpsError('not-found', `Template ${templateId} has no file at ${storagePath}`);
+    }
+    
+    return { path: templateFile.storagePath, fileName: templateFile.fileName };
+  }
+  
+  throw new functions.https.HttpsError('invalid-argument', 'An attachment ID, or a template ID with the path of one of its files, is required');
+};
+
+/**
+ * Build the path to copy a file to: a new file of a template the user
+ * created, or of a PIR, question or answer of a PIR the user can access
+ */
+const resolveCopyDestination = async (
+  destination: CopyStoredFileData['destination'],
+  user: User,
+  fileName: string
+): Promise<string> => {
+  const storedName = `${Date.now()}_${fileName}`;
+  
+  const templateId = destination?.templateId;
+  
+  if (typeof templateId === 'string') {
+    const templateSnapshot = await db.collection('templates').doc(templateId).get();
+    
+    if (!templateSnapshot.exists) {
+      throw new functions.https.HttpsError('not-found', `Template ${templateId} not found`);
+    }
+    
+    if (templateSnapshot.get('createdBy') !== user.id && user.role !== UserRole.ADMIN) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the creator of a template can add files to it');
+    }
+    
+    return `templates/${templateId}/${storedName}`;
+  }
+  
+  const parentType = destination?.parentType;
+  const parentId = destination?.parentId;
+  
+  if ((parentType !== 'pir' && parentType !== 'question' && parentType !== 'answer') || typeof parentId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'A template ID, or the type and ID of a PIR, question or answer, is required');
+  }
+  
+  const pirId = await resolveAttachmentPIRId({ parentType, parentId });
+  const pirSnapshot = pirId ? await db.collection('pirs').doc(pirId).get() : null;
+  
+  if (!pirSnapshot?.exists || !canAccessPIR(user, { ...pirSnapshot.data(), id: pirSnapshot.id } as PIR)) {
+    throw new functions.https.HttpsError('permission-denied', 'You do not have access to this PIR');
+  }
+  
+  return `attachments/${parentType}/${parentId}/${storedName}`;
+};
+
+/**
+ * Callable function: Copy an attachment or template file to a new attachment
+ * or template
+ * 
+ * Files are copied within the bucket, so the browser never downloads them and
+ * the bucket needs no CORS configuration. The caller names the source and
+ * destination by ID; both are checked against what the caller may access, and
+ * the destination path is built here.
+ */
+export const copyStoredFile = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'You must be signed in to copy files');
+  }
+  
+  const userSnapshot = await db.collection('users').doc(context.auth.uid).get();
+  
+  if (!userSnapshot.exists) {
+    throw new functions.https.HttpsError('permission-denied', 'No user profile found for the caller');
+  }
+  
+  const user = { ...userSnapshot.data(), id: userSnapshot.id } as User;
+  const { source: sourceData, destination: destinationData } = (data || {}) as CopyStoredFileData;
+  const source = await resolveCopySource(sourceData, user);
+  const destinationPath = await resolveCopyDestination(destinationData, user, source.fileName);
+  
+  const bucket = admin.storage().bucket();
+  const sourceFile = bucket.file(source.path);
+  const [sourceExists] = await sourceFile.exists();
+  
+  if (!sourceExists) {
+    throw new functions.https.HttpsError('not-found', `No file found for ${source.fileName}`);
+  }
+  
+  await sourceFile.copy(bucket.file(destinationPath));
+  
+  return { storagePath: destinationPath };
+});
+
+/**
+ * Firestore trigger: Start new PIRs in the initial state of their workflow
+ * 
+ * Clients create PIRs directly, so a PIR created in any other state is moved
+ * back before it can be worked on.
+ */
+export const onPIRCreate = functions.firestore
+  .document('pirs/{pirId}')
+  .onCreate(async (snapshot, context) => {
+    const pirData = snapshot.data();
+    
+    try {
+      const workflow = await getWorkflowForCategory(pirData.productCategory);
+      
+      if (pirData.status !== workflow.initialState) {
+        console.warn(`PIR ${context.params.pirId} was created as ${pirData.status}; moving it to ${workflow.initialState}`);
+        
+        await snapshot.ref.update({
+          status: workflow.initialState,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedBy: null
+        });
+      }
+    } catch (error) {
+      console.error(`Error checking the initial status of PIR ${context.params.pirId}:`, error);
+    }
+    
+    return null;
+  });
+
 /**
  * Firestore trigger: Send email notifications when a PIR status is updated
  * 
@@ -25,6 +604,16 @@ export const onPIRStatusChange = functions.firestore
       return null;
     }
     
+    const workflow = await getWorkflowForCategory(afterData.productCategory);
+    
+    // Skip notifications for status changes the workflow does not allow, such
+    // as onPIRCreate moving a new PIR back to its initial state
+    const transition = getTransition(workflow, beforeData.status, afterData.status);
+    if (!transition) {
+      console.warn(`Illegal status change for PIR ${pirId}: ${beforeData.status} -> ${afterData.status}`);
+      return null;
+    }
+    
     // Get user data for sending emails
     const requesterSnapshot = await db.collection('users').doc(afterData.requesterId).get();
     const requester = requesterSnapshot.data();
@@ -41,83 +630,94 @@ export const onPIRStatusChange = functions.firestore
       reviewer = reviewerSnapshot.data();
     }
     
-    // Get admins
-    const adminsSnapshot = await db.collection('users')
-      .where('role', '==', 'admin')
-      .get();
-    
-    const adminEmails = adminsSnapshot.docs.map(doc => doc.data().email);
-    
     try {
-      switch (afterData.status) {
-        case PIRStatus.REQUESTED:
-          // Notify responders and admins about a new request
-          await sendPIRStatusUpdateEmail({
-            status: PIRStatus.REQUESTED,
-            pir: { 
-              id: pirId,
-              title: afterData.title,
-              description: afterData.description,
-              productName: afterData.productName,
-              requesterName: afterData.requesterName
-            },
-            toEmails: responder ? [responder.email, ...adminEmails] : adminEmails
-          });
-          break;
-          
-        case PIRStatus.SUBMITTED:
-          // Notify reviewer and requester
-          if (reviewer) {
-            await sendPIRStatusUpdateEmail({
-              status: PIRStatus.SUBMITTED,
-              pir: { 
-                id: pirId,
-                title: afterData.title,
-                description: afterData.description,
-                productName: afterData.productName,
-                requesterName: afterData.requesterName
-              },
-              toEmails: [reviewer.email, requester?.email, ...adminEmails].filter(Boolean) as string[]
-            });
-          }
-          break;
+      if (transition.startsRevision) {
+        // Notify the responder that the reviewer sent the PIR back
+        if (responder) {
+          const reopenedQuestionIds: string[] = afterData.reopenedQuestionIds || [];
+          const reopenedQuestionSnapshots = await Promise.all(
+            reopenedQuestionIds.map(questionId => db.collection('questions').doc(questionId).get())
+          );
           
-        case PIRStatus.REVIEWED:
-          // Notify requester and responder
-          await sendPIRStatusUpdateEmail({
-            status: PIRStatus.REVIEWED,
-            pir: { 
+          await sendChangesRequestedEmail({
+            pir: {
               id: pirId,
               title: afterData.title,
-              description: afterData.description,
-              productName: afterData.productName,
-              requesterName: afterData.requesterName
+              productName: afterData.productName
             },
-            toEmails: [requester?.email, responder?.email].filter(Boolean) as string[]
+            reviewNotes: afterData.reviewNotes || '',
+            reviewerName: afterData.reviewerName || 'The reviewer',
+            revisionRound: afterData.revisionRound || 2,
+            reopenedQuestions: reopenedQuestionSnapshots
+              .filter(snapshot => snapshot.exists)
+              .map(snapshot => snapshot.get('text') as string),
+            toEmail: responder.email
           });
-          break;
-          
-        case PIRStatus.ACCEPTED:
-        case PIRStatus.REJECTED:
-          // Notify requester and responder about final decision
-          await sendPIRStatusUpdateEmail({
-            status: afterData.status,
-            pir: { 
+        }
+        return null;
+      }
+      
+      // Tell the responder working on the PIR that it was withdrawn
+      if (afterData.status === PIRStatus.ON_HOLD || afterData.status === PIRStatus.CANCELLED) {
+        if (responder && beforeData.status !== workflow.initialState) {
+          await sendPIRWithdrawnEmail({
+            pir: {
               id: pirId,
               title: afterData.title,
-              description: afterData.description,
-              productName: afterData.productName,
-              requesterName: afterData.requesterName
+              productName: afterData.productName
             },
-            toEmails: [requester?.email, responder?.email].filter(Boolean) as string[]
+            action: afterData.status === PIRStatus.ON_HOLD ? 'on_hold' : 'cancelled',
+            reason: (afterData.status === PIRStatus.ON_HOLD ? afterData.holdReason : afterData.cancellationReason) || '',
+            requesterName: afterData.requesterName,
+            toEmail: responder.email
           });
-          break;
-          
-        default:
-          console.log(`No notification configured for status: ${afterData.status}`);
-          break;
+        }
+        return null;
+      }
+      
+      const recipients = transition.notify || [];
+      
+      if (!recipients.length) {
+        console.log(`No notification configured for status: ${afterData.status}`);
+        return null;
+      }
+      
+      // Resolve the recipients configured on the transition
+      const toEmails: string[] = [];
+      
+      if (recipients.includes('requester') && requester?.email) toEmails.push(requester.email);
+      if (recipients.includes('responder') && responder?.email) toEmails.push(responder.email);
+      if (recipients.includes('reviewer') && reviewer?.email) toEmails.push(reviewer.email);
+      
+      if (recipients.includes('reviewer') && afterData.reviewers?.length) {
+        const reviewerSnapshots = await Promise.all(
+          (afterData.reviewers as PIRReviewer[]).map(({ userId }) => db.collection('users').doc(userId).get())
+        );
+        
+        reviewerSnapshots.forEach(snapshot => toEmails.push(snapshot.data()?.email));
       }
       
+      if (recipients.includes('admins')) {
+        const adminsSnapshot = await db.collection('users')
+          .where('role', '==', 'admin')
+          .get();
+        
+        adminsSnapshot.docs.forEach(doc => toEmails.push(doc.data().email));
+      }
+      
+      await sendPIRStatusUpdateEmail({
+        status: afterData.status,
+        statusLabel: getWorkflowState(workflow, afterData.status)?.label,
+        pir: { 
+          id: pirId,
+          title: afterData.title,
+          description: afterData.description,
+          productName: afterData.productName,
+          requesterName: afterData.requesterName
+        },
+        toEmails: Array.from(new Set(toEmails.filter(Boolean)))
+      });
+      
       return null;
     } catch (error) {
       console.error('Error sending PIR status update notification:', error);
@@ -235,4 +835,278 @@ export const onNewAnswer = functions.firestore
       console.error('Error sending new answer notification:', error);
       return null;
     }
+  });
+
+/**
+ * Firestore trigger: Record PIR changes in the PIR activity log
+ */
+export const onPIRWrite = functions.firestore
+  .document('pirs/{pirId}')
+  .onWrite(async (change, context) => {
+    const pirId = context.params.pirId;
+    
+    try {
+      await recordPIREvent({
+        pirId,
+        entityType: 'pir',
+        entityId: pirId,
+        before: change.before.data(),
+        after: change.after.data()
+      });
+    } catch (error) {
+      console.error(`Error recording activity for PIR ${pirId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Record question changes in the PIR activity log
+ */
+export const onQuestionWrite = functions.firestore
+  .document('questions/{questionId}')
+  .onWrite(async (change, context) => {
+    const questionData = change.after.data() || change.before.data();
+    
+    if (!questionData?.pirId) {
+      return null;
+    }
+    
+    try {
+      await recordPIREvent({
+        pirId: questionData.pirId,
+        entityType: 'question',
+        entityId: context.params.questionId,
+        before: change.before.data(),
+        after: change.after.data()
+      });
+    } catch (error) {
+      console.error(`Error recording activity for question ${context.params.questionId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Record answer changes in the PIR activity log
+ */
+export const onAnswerWrite = functions.firestore
+  .document('answers/{answerId}')
+  .onWrite(async (change, context) => {
+    const answerData = change.after.data() || change.before.data();
+    
+    if (!answerData?.pirId) {
+      return null;
+    }
+    
+    try {
+      await recordPIREvent({
+        pirId: answerData.pirId,
+        entityType: 'answer',
+        entityId: context.params.answerId,
+        before: change.before.data(),
+        after: change.after.data()
+      });
+    } catch (error) {
+      console.error(`Error recording activity for answer ${context.params.answerId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Record attachment changes in the PIR activity log
+ */
+export const onAttachmentWrite = functions.firestore
+  .document('attachments/{attachmentId}')
+  .onWrite(async (change, context) => {
+    const attachmentData = change.after.data() || change.before.data();
+    
+    if (!attachmentData) {
+      return null;
+    }
+    
+    try {
+      const pirId = await resolveAttachmentPIRId(attachmentData);
+      
+      if (!pirId) {
+        console.log(`PIR not found for attachment: ${context.params.attachmentId}`);
+        return null;
+      }
+      
+      await recordPIREvent({
+        pirId,
+        entityType: 'attachment',
+        entityId: context.params.attachmentId,
+        before: change.before.data(),
+        after: change.after.data()
+      });
+    } catch (error) {
+      console.error(`Error recording activity for attachment ${context.params.attachmentId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Storage trigger: Remove attachment files that break the attachment policy,
+ * and generate previews of the images and PDFs that are kept
+ * 
+ * The app checks files before uploading them; this deletes and records files
+ * that were uploaded around those checks.
+ */
+export const onAttachmentFileFinalize = functions
+  .runWith({ memory: '1GB', timeoutSeconds: 120 })
+  .storage
+  .object()
+  .onFinalize(async (object) => {
+    let isKept = false;
+    
+    try {
+      isKept = await enforceAttachmentPolicy(object);
+    } catch (error) {
+      console.error(`Error checking attachment file ${object.name} against the attachment policy:`, error);
+      // Files that could not be checked are kept, so they still get previews
+      isKept = true;
+    }
+    
+    if (!isKept) {
+      return null;
+    }
+    
+    try {
+      await generateAttachmentPreviews(object);
+    } catch (error) {
+      console.error(`Error generating previews of attachment file ${object.name}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Remove the version history of a deleted attachment,
+ * which clients may not delete
+ */
+export const onAttachmentDelete = functions.firestore
+  .document('attachments/{attachmentId}')
+  .onDelete(async (snapshot, context) => {
+    try {
+      await admin.firestore().recursiveDelete(snapshot.ref.collection('versions'));
+    } catch (error) {
+      console.error(`Error deleting the versions of attachment ${context.params.attachmentId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Flag attachments pointing at a file the policy check
+ * already removed
+ */
+export const onAttachmentPolicyCheck = functions.firestore
+  .document('attachments/{attachmentId}')
+  .onWrite(async (change, context) => {
+    try {
+      await flagRemovedAttachmentFile(context.params.attachmentId, change.before.data(), change.after.data());
+    } catch (error) {
+      console.error(`Error checking attachment ${context.params.attachmentId} for removed files:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Record previews generated before an attachment pointed
+ * at its file
+ */
+export const onAttachmentPreviewCheck = functions.firestore
+  .document('attachments/{attachmentId}')
+  .onWrite(async (change, context) => {
+    try {
+      await linkAttachmentPreviews(context.params.attachmentId, change.before.data(), change.after.data());
+    } catch (error) {
+      console.error(`Error linking previews of attachment ${context.params.attachmentId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Keep a PIR's progress up to date when its answers change
+ */
+export const onAnswerProgressChange = functions.firestore
+  .document('answers/{answerId}')
+  .onWrite(async (change, context) => {
+    const answerData = change.after.data() || change.before.data();
+    
+    if (!answerData?.pirId) {
+      return null;
+    }
+    
+    try {
+      await updatePIRProgress(answerData.pirId);
+    } catch (error) {
+      console.error(`Error updating progress for answer ${context.params.answerId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Keep a PIR's progress up to date when its questions change,
+ * since adding a question or changing whether it is required or shown changes
+ * what is left to answer
+ */
+export const onQuestionProgressChange = functions.firestore
+  .document('questions/{questionId}')
+  .onWrite(async (change, context) => {
+    const questionData = change.after.data() || change.before.data();
+    
+    if (!questionData?.pirId) {
+      return null;
+    }
+    
+    try {
+      await updatePIRProgress(questionData.pirId);
+    } catch (error) {
+      console.error(`Error updating progress for question ${context.params.questionId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Firestore trigger: Email users when they are mentioned in a comment
+ * 
+ * Runs for new and edited comments; users already mentioned before an edit
+ * are not notified again.
+ */
+export const onCommentWrite = functions.firestore
+  .document('pirs/{pirId}/comments/{commentId}')
+  .onWrite(async (change, context) => {
+    try {
+      await notifyMentionedUsers(context.params.pirId, change.before.data(), change.after.data());
+    } catch (error) {
+      console.error(`Error sending mention notifications for comment ${context.params.commentId}:`, error);
+    }
+    
+    return null;
+  });
+
+/**
+ * Scheduled function: Enforce PIR completion deadlines
+ * 
+ * Runs every hour to send reminder emails before deadlines, flag overdue PIRs
+ * and escalate PIRs that stay overdue past the grace period in settings/sla.
+ */
+export const scheduledDeadlineCheck = functions.pubsub
+  .schedule('every 1 hours')
+  .onRun(async () => {
+    try {
+      await checkPIRDeadlines();
+    } catch (error) {
+      console.error('Error checking PIR deadlines:', error);
+    }
+    
+    return null;
   });
\ No newline at end of file
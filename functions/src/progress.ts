@@ -0,0 +1,63 @@
+import * as admin from 'firebase-admin';
+import { Answer, PIRProgress, Question } from '../src/types'; // We're referencing the types from the client application
+import { getPIRCompleteness, isSameProgress, PIRCompleteness } from '../src/utils/completeness';
+
+type Query = admin.firestore.Query;
+type QuerySnapshot = admin.firestore.QuerySnapshot;
+
+/**
+ * Compute the completeness of a PIR from its questions and answers, reading
+ * them in the given transaction when there is one
+ */
+export const getPIRCompletenessById = async (
+  pirId: string,
+  transaction?: admin.firestore.Transaction
+): Promise<PIRCompleteness<Question>> => {
+  const db = admin.firestore();
+  const getQuery = (query: Query): Promise<QuerySnapshot> => transaction ? transaction.get(query) : query.get();
+  
+  const questionsSnapshot = await getQuery(db.collection('questions').where('pirId', '==', pirId));
+  const answersSnapshot = await getQuery(db.collection('answers').where('pirId', '==', pirId));
+  
+  const questions = questionsSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as Question);
+  const answers = answersSnapshot.docs.map(doc => {
+    const data = doc.data();
+    return {
+      questionId: data.questionId,
+      text: data.text || '',
+      value: data.value,
+      createdAt: data.createdAt ? data.createdAt.toDate() : new Date(0)
+    } as Pick<Answer, 'questionId' | 'text' | 'value' | 'createdAt'>;
+  });
+  
+  return getPIRCompleteness(questions, answers);
+};
+
+/**
+ * Recompute the progress stored on a PIR, skipping the write when the counts
+ * have not changed
+ */
+export const updatePIRProgress = async (pirId: string): Promise<void> => {
+  const pirRef = admin.firestore().collection('pirs').doc(pirId);
+  const pirSnapshot = await pirRef.get();
+  
+  // The PIR may have been deleted together with its questions
+  if (!pirSnapshot.exists) {
+    return;
+  }
+  
+  const { missingQuestions, ...progress } = await getPIRCompletenessById(pirId);
+  
+  if (isSameProgress(progress, pirSnapshot.get('progress') as PIRProgress | undefined)) {
+    return;
+  }
+  
+  console.log(`Updating progress of PIR ${pirId}: ${progress.percentComplete}% (${missingQuestions.length} required questions missing)`);
+  
+  await pirRef.update({
+    progress: {
+      ...progress,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    }
+  });
+};
\ No newline at end of file
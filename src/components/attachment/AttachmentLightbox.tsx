@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../store';
+import { Attachment } from '../../types';
+import { formatFileSize } from '../../utils/formatters';
+
+interface AttachmentLightboxProps {
+  attachment: Attachment;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen preview of an image attachment or the first page of a PDF
+ */
+const AttachmentLightbox: React.FC<AttachmentLightboxProps> = ({ attachment, onClose }) => {
+  const { fetchAttachmentPreviewUrls } = useStore();
+  
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  
+  const isPDF = attachment.fileType === 'application/pdf';
+  
+  useEffect(() => {
+    let isCurrent = true;
+    
+    setIsLoading(true);
+    setLoadError(null);
+    
+    fetchAttachmentPreviewUrls(attachment)
+      .then(urls => {
+        if (!isCurrent) return;
+        
+        setPreviewUrl(urls.previewUrl);
+        if (!urls.previewUrl) setLoadError('No preview is available for this file yet');
+      })
+      .catch(err => {
+        if (isCurrent) setLoadError(err instanceof Error ? err.message : 'Failed to load the preview');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attachment.id, attachment.previewPath]);
+  
+  // Close with the Escape key like other dialogs
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+  
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col" role="dialog" aria-modal="true" aria-labelledby={`attachment-preview-${attachment.id}`}>
+      <div className="absolute inset-0 bg-gray-900 bg-opacity-90" onClick={onClose}></div>
+      
+      <div className="relative flex items-center justify-between px-4 py-3 text-sm text-white">
+        <div className="w-0 flex-1">
+          <h3 id={`attachment-preview-${attachment.id}`} className="font-medium truncate">{attachment.fileName}</h3>
+          <p className="text-gray-300">
+            {formatFileSize(attachment.fileSize)}{isPDF && ' • First page'}
+          </p>
+        </div>
+        <div className="ml-4 flex-shrink-0 flex items-center space-x-4">
+          <a
+            href={attachment.downloadUrl}
+            download={attachment.fileName}
+            className="font-medium text-indigo-300 hover:text-indigo-200"
+          >
+            Download
+          </a>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-300 hover:text-white"
+          >
+            <span className="sr-only">Close</span>
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      
+      <div className="relative flex-1 flex items-center justify-center p-4 min-h-0" onClick={onClose}>
+        {isLoading ? (
+          <div className="animate-pulse h-64 w-48 bg-gray-700 rounded"></div>
+        ) : loadError || !previewUrl ? (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{loadError}</div>
+        ) : (
+          <img
+            src={previewUrl}
+            alt={isPDF ? `First page of ${attachment.fileName}` : attachment.fileName}
+            onClick={(e) => e.stopPropagation()}
+            className="max-h-full max-w-full object-contain bg-white shadow-xl"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentLightbox;
\ No newline at end of file
@@ -2,6 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { useStore } from '../../store';
 import { Attachment } from '../../types';
 import { formatFileSize } from '../../utils/formatters';
+import { getAcceptedFileTypes, getAttachmentPolicyViolation } from '../../utils/attachmentPolicy';
+import { getContentHash } from '../../utils/contentHash';
+import AttachmentUploader from './AttachmentUploader';
+import AttachmentVersionList from './AttachmentVersionList';
+import AttachmentThumbnail from './AttachmentThumbnail';
+import AttachmentLightbox from './AttachmentLightbox';
 
 interface AttachmentSectionProps {
   parentId: string;
@@ -18,18 +24,25 @@ const AttachmentSection: React.FC<AttachmentSectionProps> = ({
 }) => {
   const { 
     fetchAttachmentsByIds, 
-    uploadAttachment, 
     deleteAttachment, 
+    uploadAttachmentVersion, 
+    fetchAttachmentUsage, 
     attachments, 
     isLoadingAttachments, 
-    attachmentError,
+    attachmentError, 
+    attachmentPolicy, 
     currentUser
   } = useStore();
   
-  const [file, setFile] = useState<File | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Files uploaded here are linked to the parent before its attachmentIds are reloaded
+  const [uploadedIds, setUploadedIds] = useState<string[]>([]);
   const [displayedAttachments, setDisplayedAttachments] = useState<Attachment[]>([]);
+  const [versionsOpenId, setVersionsOpenId] = useState<string | null>(null);
+  const [versionUploadingId, setVersionUploadingId] = useState<string | null>(null);
+  const [versionErrors, setVersionErrors] = useState<Record<string, string>>({});
+  const [previewAttachmentId, setPreviewAttachmentId] = useState<string | null>(null);
+  
+  const previewAttachment = displayedAttachments.find(attachment => attachment.id === previewAttachmentId);
   
   // Fetch attachments when component mounts or attachmentIds change
   useEffect(() => {
@@ -42,49 +55,59 @@ const AttachmentSection: React.FC<AttachmentSectionProps> = ({
   // Filter attachments for this parent
   useEffect(() => {
     const filteredAttachments = attachments.filter(
-      attachment => attachmentIds.includes(attachment.id)
+      attachment => attachmentIds.includes(attachment.id) || uploadedIds.includes(attachment.id)
     );
     setDisplayedAttachments(filteredAttachments);
-  }, [attachments, attachmentIds]);
+  }, [attachments, attachmentIds, uploadedIds]);
   
-  // Handle file selection
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      setFile(e.target.files[0]);
+  // Handle attachment deletion
+  const handleDelete = async (attachmentId: string) => {
+    try {
+      await deleteAttachment(attachmentId);
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
     }
   };
   
-  // Handle file upload
-  const handleUpload = async () => {
-    if (!file || !currentUser) {
-      setUploadError('No file selected or user is not logged in');
+  // Replace the file of an attachment, keeping the earlier one as a previous version
+  const handleVersionChange = async (attachmentId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    
+    if (!file) return;
+    
+    if (!currentUser) {
+      setVersionErrors(prev => ({ ...prev, [attachmentId]: 'You must be logged in to upload files' }));
       return;
     }
     
-    setIsUploading(true);
-    setUploadError(null);
+    setVersionUploadingId(attachmentId);
+    setVersionErrors(prev => ({ ...prev, [attachmentId]: '' }));
     
     try {
-      await uploadAttachment(file, currentUser.id, parentId, parentType);
-      // Reset file input
-      setFile(null);
-      const fileInput = document.getElementById('file-upload') as HTMLInputElement;
-      if (fileInput) {
-        fileInput.value = '';
+      const current = displayedAttachments.find(attachment => attachment.id === attachmentId);
+      
+      if (current?.contentHash && current.contentHash === await getContentHash(file)) {
+        setVersionErrors(prev => ({ ...prev, [attachmentId]: `${file.name} is identical to the current version` }));
+        return;
       }
+      
+      const usedBytes = await fetchAttachmentUsage(parentId, parentType);
+      const violation = getAttachmentPolicyViolation(file, parentType, attachmentPolicy, usedBytes);
+      
+      if (violation) {
+        setVersionErrors(prev => ({ ...prev, [attachmentId]: violation }));
+        return;
+      }
+      
+      await uploadAttachmentVersion(attachmentId, file, currentUser.id);
     } catch (err) {
-      setUploadError(err instanceof Error ? err.message : 'Failed to upload file');
+      setVersionErrors(prev => ({
+        ...prev,
+        [attachmentId]: err instanceof Error ? err.message : 'Failed to upload the new version'
+      }));
     } finally {
-      setIsUploading(false);
-    }
-  };
-  
-  // Handle attachment deletion
-  const handleDelete = async (attachmentId: string) => {
-    try {
-      await deleteAttachment(attachmentId);
-    } catch (err) {
-      console.error('Error deleting attachment:', err);
+      setVersionUploadingId(null);
     }
   };
   
@@ -156,34 +179,91 @@ const AttachmentSection: React.FC<AttachmentSectionProps> = ({
       ) : displayedAttachments.length > 0 ? (
         <ul className="border border-gray-200 rounded-md divide-y divide-gray-200">
           {displayedAttachments.map((attachment) => (
-            <li key={attachment.id} className="pl-3 pr-4 py-3 flex items-center justify-between text-sm">
-              <div className="w-0 flex-1 flex items-center">
-                {getFileIcon(attachment.fileType)}
-                <span className="ml-2 flex-1 w-0 truncate">
-                  {attachment.fileName}
-                </span>
-              </div>
-              <div className="ml-4 flex-shrink-0 flex items-center space-x-4">
-                <span className="text-gray-500">
-                  {formatFileSize(attachment.fileSize)}
-                </span>
-                <a
-                  href={attachment.downloadUrl}
-                  download={attachment.fileName}
-                  className="font-medium text-indigo-600 hover:text-indigo-500"
-                >
-                  Download
-                </a>
-                {canUpload && (
-                  <button
-                    type="button"
-                    onClick={() => handleDelete(attachment.id)}
-                    className="font-medium text-red-600 hover:text-red-500"
-                  >
-                    Delete
-                  </button>
+            <li key={attachment.id} className="pl-3 pr-4 py-3 text-sm">
+              <div className="flex items-center justify-between">
+                <div className="w-0 flex-1 flex items-center">
+                  {attachment.policyViolation ? getFileIcon(attachment.fileType) : (
+                    <AttachmentThumbnail 
+                      attachment={attachment} 
+                      fallback={getFileIcon(attachment.fileType)} 
+                      onOpen={() => setPreviewAttachmentId(attachment.id)} 
+                    />
+                  )}
+                  <span className="ml-2 flex-1 w-0 truncate">
+                    {attachment.fileName}
+                  </span>
+                </div>
+                {attachment.policyViolation ? (
+                  <div className="ml-4 flex-shrink-0 flex items-center space-x-4">
+                    <span className="text-red-600">Removed: {attachment.policyViolation}</span>
+                    {canUpload && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(attachment.id)}
+                        className="font-medium text-red-600 hover:text-red-500"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="ml-4 flex-shrink-0 flex items-center space-x-4">
+                    {attachment.version && attachment.version > 1 && (
+                      <span className="text-gray-500">v{attachment.version}</span>
+                    )}
+                    <span className="text-gray-500">
+                      {formatFileSize(attachment.fileSize)}
+                    </span>
+                    <a
+                      href={attachment.downloadUrl}
+                      download={attachment.fileName}
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      Download
+                    </a>
+                    <button
+                      type="button"
+                      onClick={() => setVersionsOpenId(versionsOpenId === attachment.id ? null : attachment.id)}
+                      className="font-medium text-indigo-600 hover:text-indigo-500"
+                    >
+                      {versionsOpenId === attachment.id ? 'Hide Versions' : 'Versions'}
+                    </button>
+                    {canUpload && (
+                      <>
+                        <label
+                          htmlFor={`attachment-version-${attachment.id}`}
+                          className={`font-medium text-indigo-600 hover:text-indigo-500 ${versionUploadingId ? 'opacity-50' : 'cursor-pointer'}`}
+                        >
+                          {versionUploadingId === attachment.id ? 'Uploading...' : 'Upload New Version'}
+                        </label>
+                        <input
+                          type="file"
+                          id={`attachment-version-${attachment.id}`}
+                          accept={getAcceptedFileTypes(attachmentPolicy.fileTypes[parentType]) || undefined}
+                          onChange={(e) => handleVersionChange(attachment.id, e)}
+                          disabled={versionUploadingId !== null}
+                          className="sr-only"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(attachment.id)}
+                          className="font-medium text-red-600 hover:text-red-500"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
                 )}
               </div>
+              {versionErrors[attachment.id] && (
+                <p className="mt-1 text-xs text-red-600">{versionErrors[attachment.id]}</p>
+              )}
+              {versionsOpenId === attachment.id && (
+                <div className="mt-2 ml-7 border-t border-gray-100 pt-2">
+                  <AttachmentVersionList attachment={attachment} />
+                </div>
+              )}
             </li>
           ))}
         </ul>
@@ -196,79 +276,20 @@ const AttachmentSection: React.FC<AttachmentSectionProps> = ({
       {/* File upload section */}
       {canUpload && (
         <div className="mt-4">
-          <label htmlFor="file-upload" className="block text-sm font-medium text-gray-700">
-            Upload a file
-          </label>
-          
-          {uploadError && (
-            <div className="mt-2 rounded-md bg-red-50 p-4">
-              <div className="flex">
-                <div className="flex-shrink-0">
-                  <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <div className="ml-3">
-                  <div className="text-sm text-red-700">{uploadError}</div>
-                </div>
-              </div>
-            </div>
-          )}
-          
-          <div className="mt-2 flex items-center">
-            <div className="flex-1">
-              <input
-                id="file-upload"
-                name="file-upload"
-                type="file"
-                className="sr-only"
-                onChange={handleFileChange}
-              />
-              <label
-                htmlFor="file-upload"
-                className="relative cursor-pointer bg-white rounded-md font-medium text-indigo-600 hover:text-indigo-500 focus-within:outline-none"
-              >
-                <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md">
-                  <div className="space-y-1 text-center">
-                    <svg
-                      className="mx-auto h-12 w-12 text-gray-400"
-                      stroke="currentColor"
-                      fill="none"
-                      viewBox="0 0 48 48"
-                      aria-hidden="true"
-                    >
-                      <path
-                        d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
-                        strokeWidth={2}
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    </svg>
-                    <div className="flex text-sm text-gray-600">
-                      <span>
-                        {file ? file.name : 'Upload a file'}
-                      </span>
-                      <p className="pl-1">or drag and drop</p>
-                    </div>
-                    <p className="text-xs text-gray-500">
-                      PDF, Word, Excel, Images, etc.
-                    </p>
-                  </div>
-                </div>
-              </label>
-            </div>
-            
-            <button
-              type="button"
-              onClick={handleUpload}
-              disabled={!file || isUploading}
-              className="ml-3 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
-            >
-              {isUploading ? 'Uploading...' : 'Upload'}
-            </button>
-          </div>
+          <AttachmentUploader 
+            parentId={parentId} 
+            parentType={parentType} 
+            onUploaded={(attachment) => setUploadedIds(prev => [...prev, attachment.id])} 
+          />
         </div>
       )}
+      
+      {previewAttachment && (
+        <AttachmentLightbox 
+          attachment={previewAttachment} 
+          onClose={() => setPreviewAttachmentId(null)} 
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { useStore } from '../../store';
+import { Attachment } from '../../types';
+
+interface AttachmentThumbnailProps {
+  attachment: Attachment;
+  fallback: React.ReactNode; // Shown until the thumbnail loads, or if the file has none
+  onOpen: () => void;
+}
+
+/**
+ * Small image of an attachment that opens its preview when clicked
+ */
+const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ attachment, fallback, onOpen }) => {
+  const { fetchAttachmentPreviewUrls } = useStore();
+  
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  
+  useEffect(() => {
+    let isCurrent = true;
+    
+    setThumbnailUrl(null);
+    
+    if (!attachment.thumbnailPath) return;
+    
+    fetchAttachmentPreviewUrls(attachment)
+      .then(urls => {
+        if (isCurrent) setThumbnailUrl(urls.thumbnailUrl);
+      })
+      .catch(() => undefined);
+    
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attachment.id, attachment.thumbnailPath]);
+  
+  if (!thumbnailUrl) {
+    return <>{fallback}</>;
+  }
+  
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="flex-shrink-0 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    >
+      <span className="sr-only">Preview {attachment.fileName}</span>
+      <img
+        src={thumbnailUrl}
+        alt=""
+        className="h-10 w-10 object-cover rounded border border-gray-200"
+      />
+    </button>
+  );
+};
+
+export default AttachmentThumbnail;
\ No newline at end of file
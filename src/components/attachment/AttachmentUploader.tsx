@@ -0,0 +1,434 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { Attachment } from '../../types';
+import { formatFileSize } from '../../utils/formatters';
+import { 
+  describeAttachmentPolicy, 
+  getAcceptedFileTypes, 
+  getAttachmentPolicyViolation 
+} from '../../utils/attachmentPolicy';
+
+// Files uploaded side by side; the others wait in the queue
+const MAX_PARALLEL_UPLOADS = 3;
+
+type UploadStatus = 'queued' | 'uploading' | 'paused' | 'failed' | 'cancelled' | 'done' | 'rejected' | 'duplicate' | 'linking' | 'linked';
+
+// Files that will take up space in the PIR once their upload completes
+const PENDING_STATUSES: UploadStatus[] = ['queued', 'uploading', 'paused'];
+
+// Files that need no further attention
+const FINISHED_STATUSES: UploadStatus[] = ['done', 'cancelled', 'rejected', 'linked'];
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  done: 'Uploaded',
+  rejected: 'Not allowed',
+  duplicate: 'Already stored',
+  linking: 'Linking',
+  linked: 'Linked'
+};
+
+/**
+ * A file in the upload queue
+ */
+interface QueuedFile {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  bytesTransferred: number;
+  error?: string;
+  duplicateOnParent?: Attachment; // Identical file already attached to the parent
+  duplicateElsewhere?: Attachment; // Identical file the user uploaded to another parent
+}
+
+interface AttachmentUploaderProps {
+  parentId: string;
+  parentType: 'pir' | 'question' | 'answer';
+  onUploaded: (attachment: Attachment) => void;
+}
+
+/**
+ * Drop zone and queue uploading many files at once, each of which can be
+ * paused, cancelled or retried
+ */
+const AttachmentUploader: React.FC<AttachmentUploaderProps> = ({ parentId, parentType, onUploaded }) => {
+  const { 
+    startAttachmentUpload, 
+    findDuplicateAttachments, 
+    linkExistingAttachment, 
+    fetchAttachmentPolicy, 
+    fetchAttachmentUsage, 
+    attachmentPolicy, 
+    currentUser
+  } = useStore();
+  
+  const [queue, setQueue] = useState<QueuedFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [queueError, setQueueError] = useState<string | null>(null);
+  const uploadsRef = useRef(new Map<string, ReturnType<typeof startAttachmentUpload>>());
+  const queueRef = useRef(queue);
+  const nextIdRef = useRef(0);
+  
+  queueRef.current = queue;
+  
+  const inputId = `attachment-upload-${parentType}-${parentId}`;
+  const finishedCount = queue.filter(item => FINISHED_STATUSES.includes(item.status)).length;
+  const uploadedCount = queue.filter(item => item.status === 'done' || item.status === 'linked').length;
+  
+  // The repository checks every file again, so a stale policy only affects the hints here
+  useEffect(() => {
+    fetchAttachmentPolicy().catch(() => undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  
+  const updateQueuedFile = (id: string, changes: Partial<QueuedFile>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+  
+  // Look for identical files the user already stored, so a file goes up only once
+  const checkDuplicates = async (item: QueuedFile, uploadedBy: string): Promise<QueuedFile> => {
+    try {
+      const duplicates = await findDuplicateAttachments(item.file, uploadedBy, parentId);
+      const duplicateOnParent = duplicates.onParent[0];
+      const duplicateElsewhere = duplicates.elsewhere[0];
+      
+      if (!duplicateOnParent && !duplicateElsewhere) return item;
+      
+      return {
+        ...item,
+        status: 'duplicate',
+        ...(duplicateOnParent && { duplicateOnParent }),
+        ...(duplicateElsewhere && { duplicateElsewhere })
+      };
+    } catch (err) {
+      // Identical files only bring up a warning, so a failed check does not hold the upload back
+      console.error(`Could not check ${item.file.name} for identical files:`, err);
+      return item;
+    }
+  };
+  
+  // Add files to the end of the queue, marking those the attachment policy does not allow
+  // and those identical to a file already stored
+  const addFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    
+    if (!currentUser) {
+      setQueueError('You must be logged in to upload files');
+      return;
+    }
+    
+    // Read the files before the input is cleared
+    const chosenFiles = Array.from(files);
+    const uploadedBy = currentUser.id;
+    
+    setQueueError(null);
+    setIsChecking(true);
+    
+    let usedBytes: number;
+    
+    try {
+      usedBytes = await fetchAttachmentUsage(parentId, parentType);
+    } catch (err) {
+      setQueueError(err instanceof Error ? `Could not check the space left for attachments: ${err.message}` : 'Could not check the space left for attachments');
+      setIsChecking(false);
+      return;
+    }
+    
+    // Files waiting in the queue count toward the PIR's total as well
+    usedBytes += queueRef.current
+      .filter(item => PENDING_STATUSES.includes(item.status))
+      .reduce((total, item) => total + item.file.size, 0);
+    
+    const added = chosenFiles.map<QueuedFile>(file => {
+      const violation = getAttachmentPolicyViolation(file, parentType, attachmentPolicy, usedBytes);
+      
+      if (!violation) {
+        usedBytes += file.size;
+      }
+      
+      return {
+        id: String(nextIdRef.current++),
+        file,
+        status: violation ? 'rejected' : 'queued',
+        bytesTransferred: 0,
+        ...(violation && { error: violation })
+      };
+    });
+    
+    // Hash one file at a time to keep large batches from filling memory
+    const checked: QueuedFile[] = [];
+    
+    for (const item of added) {
+      checked.push(item.status === 'queued' ? await checkDuplicates(item, uploadedBy) : item);
+    }
+    
+    setIsChecking(false);
+    setQueue(prev => [...prev, ...checked]);
+  };
+  
+  // Upload a file of the queue, following its progress until it is linked to its parent
+  const startUpload = (item: QueuedFile) => {
+    if (!currentUser) return;
+    
+    const upload = startAttachmentUpload(
+      item.file, 
+      currentUser.id, 
+      parentId, 
+      parentType, 
+      (bytesTransferred) => updateQueuedFile(item.id, { bytesTransferred })
+    );
+    uploadsRef.current.set(item.id, upload);
+    
+    upload.result
+      .then(attachment => {
+        updateQueuedFile(item.id, { status: 'done', bytesTransferred: item.file.size });
+        onUploaded(attachment);
+      })
+      .catch(err => {
+        // Cancelled uploads reject as well, but are already marked as such
+        setQueue(prev => prev.map(queued =>
+          queued.id === item.id && queued.status !== 'cancelled'
+            ? { ...queued, status: 'failed', error: err instanceof Error ? err.message : 'Failed to upload file' }
+            : queued
+        ));
+      })
+      .finally(() => {
+        uploadsRef.current.delete(item.id);
+      });
+  };
+  
+  // Start waiting files while there is room; paused uploads keep their place
+  useEffect(() => {
+    const activeCount = queue.filter(item => item.status === 'uploading' || item.status === 'paused').length;
+    const toStart = queue
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, MAX_PARALLEL_UPLOADS - activeCount));
+    
+    if (toStart.length === 0) return;
+    
+    const startIds = toStart.map(item => item.id);
+    setQueue(prev => prev.map(item => startIds.includes(item.id) ? { ...item, status: 'uploading' } : item));
+    toStart.forEach(startUpload);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [queue]);
+  
+  const handlePause = (id: string) => {
+    uploadsRef.current.get(id)?.pause();
+    updateQueuedFile(id, { status: 'paused' });
+  };
+  
+  const handleResume = (id: string) => {
+    uploadsRef.current.get(id)?.resume();
+    updateQueuedFile(id, { status: 'uploading' });
+  };
+  
+  const handleCancel = (id: string) => {
+    updateQueuedFile(id, { status: 'cancelled' });
+    uploadsRef.current.get(id)?.cancel();
+  };
+  
+  // Attach the file already stored instead of uploading the identical one
+  const handleLink = async (item: QueuedFile) => {
+    if (!currentUser || !item.duplicateElsewhere) return;
+    
+    updateQueuedFile(item.id, { status: 'linking' });
+    
+    try {
+      const attachment = await linkExistingAttachment(item.duplicateElsewhere, currentUser.id, parentId, parentType);
+      updateQueuedFile(item.id, { status: 'linked', bytesTransferred: item.file.size });
+      onUploaded(attachment);
+    } catch (err) {
+      updateQueuedFile(item.id, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Failed to link the existing file'
+      });
+    }
+  };
+  
+  // Upload a file identical to one already stored as a copy of its own
+  const handleUploadAnyway = (id: string) => {
+    updateQueuedFile(id, { status: 'queued' });
+  };
+  
+  const handleSkip = (id: string) => {
+    setQueue(prev => prev.filter(item => item.id !== id));
+  };
+  
+  // Upload a failed or cancelled file again from the start
+  const handleRetry = (id: string) => {
+    updateQueuedFile(id, { status: 'queued', bytesTransferred: 0, error: undefined });
+  };
+  
+  const handleClearFinished = () => {
+    setQueue(prev => prev.filter(item => !FINISHED_STATUSES.includes(item.status)));
+  };
+  
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(e.dataTransfer.files);
+  };
+  
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    // Allow choosing the same files again
+    e.target.value = '';
+  };
+  
+  return (
+    <div>
+      <label htmlFor={inputId} className="block text-sm font-medium text-gray-700">
+        Upload files
+      </label>
+      
+      {queueError && (
+        <div className="mt-2 rounded-md bg-red-50 p-3 text-sm text-red-700">{queueError}</div>
+      )}
+      
+      <input
+        id={inputId}
+        type="file"
+        multiple
+        accept={getAcceptedFileTypes(attachmentPolicy.fileTypes[parentType]) || undefined}
+        disabled={isChecking}
+        className="sr-only"
+        onChange={handleFileChange}
+      />
+      <label
+        htmlFor={inputId}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`mt-2 flex justify-center px-6 pt-5 pb-6 border-2 border-dashed rounded-md cursor-pointer ${isDragging ? 'border-indigo-400 bg-indigo-50' : 'border-gray-300 bg-white'}`}
+      >
+        <div className="space-y-1 text-center">
+          <svg
+            className="mx-auto h-12 w-12 text-gray-400"
+            stroke="currentColor"
+            fill="none"
+            viewBox="0 0 48 48"
+            aria-hidden="true"
+          >
+            <path
+              d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
+              strokeWidth={2}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </svg>
+          <div className="flex text-sm text-gray-600">
+            <span className="font-medium text-indigo-600 hover:text-indigo-500">Choose files</span>
+            <p className="pl-1">or drag and drop them here</p>
+          </div>
+          <p className="text-xs text-gray-500">
+            {isChecking ? 'Checking files...' : describeAttachmentPolicy(parentType, attachmentPolicy)}
+          </p>
+        </div>
+      </label>
+      
+      {queue.length > 0 && (
+        <div className="mt-4">
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>{uploadedCount} of {queue.length} files uploaded</span>
+            {finishedCount > 0 && (
+              <button
+                type="button"
+                onClick={handleClearFinished}
+                className="text-indigo-600 hover:text-indigo-900"
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+          <ul className="mt-2 border border-gray-200 rounded-md divide-y divide-gray-200">
+            {queue.map(item => {
+              const percent = item.file.size > 0 ? Math.floor((item.bytesTransferred / item.file.size) * 100) : 100;
+              
+              return (
+                <li key={item.id} className="px-3 py-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="flex-1 w-0 truncate text-gray-900">{item.file.name}</span>
+                    <div className="ml-4 flex-shrink-0 flex items-center space-x-3">
+                      <span className="text-gray-500">{formatFileSize(item.file.size)}</span>
+                      <span className={item.status === 'failed' || item.status === 'rejected' ? 'text-red-600' : item.status === 'done' || item.status === 'linked' ? 'text-green-600' : item.status === 'duplicate' ? 'text-yellow-600' : 'text-gray-500'}>
+                        {item.status === 'uploading' ? `${percent}%` : STATUS_LABELS[item.status]}
+                      </span>
+                      {item.status === 'uploading' && (
+                        <button type="button" onClick={() => handlePause(item.id)} className="text-indigo-600 hover:text-indigo-900">
+                          Pause
+                        </button>
+                      )}
+                      {item.status === 'paused' && (
+                        <button type="button" onClick={() => handleResume(item.id)} className="text-indigo-600 hover:text-indigo-900">
+                          Resume
+                        </button>
+                      )}
+                      {item.status === 'duplicate' && item.duplicateElsewhere && !item.duplicateOnParent && (
+                        <button type="button" onClick={() => handleLink(item)} className="text-indigo-600 hover:text-indigo-900">
+                          Link Existing
+                        </button>
+                      )}
+                      {item.status === 'duplicate' && (
+                        <>
+                          <button type="button" onClick={() => handleUploadAnyway(item.id)} className="text-indigo-600 hover:text-indigo-900">
+                            Upload Anyway
+                          </button>
+                          <button type="button" onClick={() => handleSkip(item.id)} className="text-red-600 hover:text-red-500">
+                            Skip
+                          </button>
+                        </>
+                      )}
+                      {(item.status === 'failed' || item.status === 'cancelled') && (
+                        <button type="button" onClick={() => handleRetry(item.id)} className="text-indigo-600 hover:text-indigo-900">
+                          Retry
+                        </button>
+                      )}
+                      {(item.status === 'queued' || item.status === 'uploading' || item.status === 'paused') && (
+                        <button type="button" onClick={() => handleCancel(item.id)} className="text-red-600 hover:text-red-500">
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {(item.status === 'uploading' || item.status === 'paused') && (
+                    <div
+                      className="mt-2 w-full bg-gray-200 rounded-full h-1.5"
+                      role="progressbar"
+                      aria-valuenow={percent}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                    >
+                      <div className="bg-indigo-500 rounded-full h-1.5" style={{ width: `${percent}%` }}></div>
+                    </div>
+                  )}
+                  {item.status === 'duplicate' && (
+                    <p className="mt-1 text-xs text-yellow-700">
+                      {item.duplicateOnParent
+                        ? `Identical to ${item.duplicateOnParent.fileName}, which is already attached here.`
+                        : item.duplicateElsewhere &&
+                          `Identical to ${item.duplicateElsewhere.fileName}, which you uploaded on ${format(item.duplicateElsewhere.uploadedAt, 'MMM d, yyyy')}. Link it to keep a single stored copy.`}
+                    </p>
+                  )}
+                  {item.error && (item.status === 'failed' || item.status === 'rejected') && (
+                    <p className="mt-1 text-xs text-red-600">{item.error}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentUploader;
\ No newline at end of file
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { Attachment, AttachmentVersion } from '../../types';
+import { formatFileSize } from '../../utils/formatters';
+
+interface AttachmentVersionListProps {
+  attachment: Attachment;
+}
+
+/**
+ * The versions of an attachment's file, each of which can be downloaded
+ */
+const AttachmentVersionList: React.FC<AttachmentVersionListProps> = ({ attachment }) => {
+  const { fetchAttachmentVersions } = useStore();
+  
+  const [versions, setVersions] = useState<AttachmentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    let isCurrent = true;
+    
+    setIsLoading(true);
+    setLoadError(null);
+    
+    fetchAttachmentVersions(attachment.id)
+      .then(loadedVersions => {
+        if (isCurrent) setVersions(loadedVersions);
+      })
+      .catch(err => {
+        if (isCurrent) setLoadError(err instanceof Error ? err.message : 'Failed to load the versions');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attachment.id, attachment.version]);
+  
+  if (isLoading) {
+    return (
+      <div className="animate-pulse">
+        <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+      </div>
+    );
+  }
+  
+  if (loadError) {
+    return <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{loadError}</div>;
+  }
+  
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        This file was uploaded before versions were kept and has not been replaced since.
+      </p>
+    );
+  }
+  
+  return (
+    <ul className="divide-y divide-gray-200">
+      {versions.map(version => (
+        <li key={version.version} className="py-2 flex items-center justify-between text-sm">
+          <div className="w-0 flex-1">
+            <div className="flex items-center">
+              <span className="font-medium text-gray-900">v{version.version}</span>
+              {version.version === attachment.version && (
+                <span className="ml-2 text-xs text-green-600">Current</span>
+              )}
+              <span className="ml-2 truncate text-gray-700">{version.fileName}</span>
+            </div>
+            <div className="text-xs text-gray-500">
+              {version.uploadedByName || 'Unknown user'} • {format(version.uploadedAt, 'MMM d, yyyy HH:mm')} • {formatFileSize(version.fileSize)}
+            </div>
+          </div>
+          <a
+            href={version.downloadUrl}
+            download={version.fileName}
+            className="ml-4 flex-shrink-0 font-medium text-indigo-600 hover:text-indigo-500"
+          >
+            Download
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AttachmentVersionList;
\ No newline at end of file
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { useStore } from '../../store';
+import { CommentMention } from '../../types';
+import { getMentions } from '../../utils/mentions';
+import MentionTextarea from './MentionTextarea';
+
+interface CommentFormProps {
+  id: string;
+  initialText?: string;
+  submitLabel: string;
+  placeholder?: string;
+  onSubmit: (text: string, mentions: CommentMention[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+/**
+ * Form for writing, replying to or editing a comment
+ */
+const CommentForm: React.FC<CommentFormProps> = ({ 
+  id, 
+  initialText = '', 
+  submitLabel, 
+  placeholder = 'Add a comment... Type @ to mention someone', 
+  onSubmit, 
+  onCancel 
+}) => {
+  const { mentionCandidates } = useStore();
+  
+  const [text, setText] = useState(initialText);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!text.trim()) {
+      setLocalError('Please enter a comment');
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setLocalError(null);
+    
+    try {
+      const users = mentionCandidates.map(user => ({ id: user.id, displayName: user.displayName }));
+      await onSubmit(text.trim(), getMentions(text.trim(), users));
+      setText('');
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <form onSubmit={handleSubmit}>
+      {localError && (
+        <div className="mb-2 rounded-md bg-red-50 p-3 text-sm text-red-700">{localError}</div>
+      )}
+      <MentionTextarea
+        id={id}
+        value={text}
+        onChange={setText}
+        users={mentionCandidates}
+        placeholder={placeholder}
+        rows={2}
+        disabled={isSubmitting}
+      />
+      <div className="mt-2 flex justify-end space-x-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CommentForm;
\ No newline at end of file
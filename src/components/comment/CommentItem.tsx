@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { CommentMention, PIRComment } from '../../types';
+import { splitMentions } from '../../utils/mentions';
+import CommentForm from './CommentForm';
+
+interface CommentItemProps {
+  comment: PIRComment;
+  onReply?: () => void; // Only top-level comments can be replied to
+}
+
+/**
+ * A single comment with the author's edit and delete actions
+ */
+const CommentItem: React.FC<CommentItemProps> = ({ comment, onReply }) => {
+  const { currentUser, updateComment, deleteComment } = useStore();
+  
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  
+  const isAuthor = !!currentUser && currentUser.id === comment.authorId && !comment.deletedAt;
+  
+  const handleEdit = async (text: string, mentions: CommentMention[]) => {
+    await updateComment(comment.pirId, comment.id, text, mentions);
+    setIsEditing(false);
+  };
+  
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this comment?')) return;
+    
+    setIsDeleting(true);
+    setLocalError(null);
+    
+    try {
+      await deleteComment(comment.pirId, comment.id);
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+      setIsDeleting(false);
+    }
+  };
+  
+  if (comment.deletedAt) {
+    return (
+      <div className="text-sm italic text-gray-500">This comment was deleted.</div>
+    );
+  }
+  
+  // Highlight the mentions stored with the comment
+  const segments = splitMentions(
+    comment.text,
+    (comment.mentions || []).map(mention => ({ id: mention.userId, displayName: mention.displayName }))
+  );
+  
+  return (
+    <div className="text-sm">
+      <div className="flex items-center">
+        <span className="font-medium text-gray-900">{comment.authorName}</span>
+        <span className="ml-2 text-xs text-gray-500">
+          {format(comment.createdAt, 'MMM d, yyyy HH:mm')}
+          {comment.editedAt && ' (edited)'}
+        </span>
+      </div>
+      
+      {localError && (
+        <div className="mt-1 rounded-md bg-red-50 p-2 text-sm text-red-700">{localError}</div>
+      )}
+      
+      {isEditing ? (
+        <div className="mt-2">
+          <CommentForm
+            id={`comment-edit-${comment.id}`}
+            initialText={comment.text}
+            submitLabel="Save"
+            onSubmit={handleEdit}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        <>
+          <p className="mt-1 text-gray-700 whitespace-pre-wrap">
+            {segments.map((segment, index) => (
+              segment.userId 
+                ? <span key={index} className="font-medium text-indigo-600">{segment.text}</span>
+                : <React.Fragment key={index}>{segment.text}</React.Fragment>
+            ))}
+          </p>
+          <div className="mt-1 flex space-x-3 text-xs">
+            {onReply && (
+              <button type="button" onClick={onReply} className="text-indigo-600 hover:text-indigo-900">
+                Reply
+              </button>
+            )}
+            {isAuthor && (
+              <>
+                <button type="button" onClick={() => setIsEditing(true)} className="text-indigo-600 hover:text-indigo-900">
+                  Edit
+                </button>
+                <button 
+                  type="button" 
+                  onClick={handleDelete} 
+                  disabled={isDeleting} 
+                  className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                >
+                  {isDeleting ? 'Deleting...' : 'Delete'}
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CommentItem;
\ No newline at end of file
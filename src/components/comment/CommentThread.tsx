@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../../store';
+import { CommentMention, CommentTargetType, PIRComment } from '../../types';
+import CommentItem from './CommentItem';
+import CommentForm from './CommentForm';
+
+interface CommentThreadProps {
+  pirId: string;
+  targetType: CommentTargetType;
+  targetId: string;
+}
+
+/**
+ * Threaded discussion on a PIR, question or answer
+ * 
+ * Comments come from the real-time listener the PIR page keeps open, so new
+ * comments from other users appear without reloading.
+ */
+const CommentThread: React.FC<CommentThreadProps> = ({ pirId, targetType, targetId }) => {
+  const { comments, isLoadingComments, commentError, addComment, currentUser } = useStore();
+  
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  
+  // Top-level comments with their replies, oldest first
+  const threads = useMemo(() => {
+    const targetComments = comments.filter(comment => 
+      comment.pirId === pirId && comment.targetType === targetType && comment.targetId === targetId
+    );
+    
+    return targetComments
+      .filter(comment => !comment.parentId)
+      .map(comment => ({
+        comment,
+        replies: targetComments.filter(reply => reply.parentId === comment.id)
+      }))
+      // Deleted comments only stay while their replies need the context
+      .filter(thread => !thread.comment.deletedAt || thread.replies.length > 0);
+  }, [comments, pirId, targetType, targetId]);
+  
+  const handleAdd = async (text: string, mentions: CommentMention[], parentId?: string) => {
+    if (!currentUser) {
+      throw new Error('You must be signed in to comment');
+    }
+    
+    const comment: Omit<PIRComment, 'id' | 'createdAt' | 'updatedAt'> = {
+      pirId,
+      targetType,
+      targetId,
+      ...(parentId && { parentId }),
+      text,
+      mentions,
+      authorId: currentUser.id,
+      authorName: currentUser.displayName
+    };
+    
+    await addComment(comment);
+    setReplyingToId(null);
+  };
+  
+  if (isLoadingComments) {
+    return (
+      <div className="animate-pulse space-y-2">
+        <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        <div className="h-8 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+  
+  return (
+    <div className="space-y-4">
+      {commentError && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{commentError}</div>
+      )}
+      
+      {threads.length > 0 && (
+        <ul className="space-y-4">
+          {threads.map(({ comment, replies }) => (
+            <li key={comment.id}>
+              <CommentItem 
+                comment={comment} 
+                onReply={comment.deletedAt ? undefined : () => setReplyingToId(comment.id)} 
+              />
+              
+              {(replies.length > 0 || replyingToId === comment.id) && (
+                <div className="mt-3 ml-6 pl-4 border-l-2 border-gray-200 space-y-3">
+                  {replies.map(reply => (
+                    <CommentItem key={reply.id} comment={reply} />
+                  ))}
+                  
+                  {replyingToId === comment.id && (
+                    <CommentForm
+                      id={`comment-reply-${comment.id}`}
+                      submitLabel="Reply"
+                      placeholder={`Reply to ${comment.authorName}...`}
+                      onSubmit={(text, mentions) => handleAdd(text, mentions, comment.id)}
+                      onCancel={() => setReplyingToId(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      
+      {currentUser && (
+        <CommentForm
+          id={`comment-new-${targetType}-${targetId}`}
+          submitLabel="Comment"
+          onSubmit={(text, mentions) => handleAdd(text, mentions)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CommentThread;
\ No newline at end of file
@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { User } from '../../types';
+import { getMentionQuery, insertMention, MentionQuery } from '../../utils/mentions';
+
+interface MentionTextareaProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  users: User[];
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+}
+
+// Most users suggested at once while typing an @mention
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Textarea that suggests users to mention after typing @
+ */
+const MentionTextarea: React.FC<MentionTextareaProps> = ({ 
+  id, 
+  value, 
+  onChange, 
+  users, 
+  placeholder, 
+  rows = 3, 
+  disabled = false 
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  
+  const suggestions = mentionQuery
+    ? users
+      .filter(user => user.displayName.toLowerCase().includes(mentionQuery.query.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS)
+    : [];
+  
+  // Track the @mention being typed at the caret
+  const updateMentionQuery = (text: string, caret: number) => {
+    setMentionQuery(getMentionQuery(text, caret));
+    setActiveIndex(0);
+  };
+  
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+  
+  // Replace the typed @mention with the picked user's name and move the caret after it
+  const handlePick = (user: User) => {
+    if (!mentionQuery) return;
+    
+    const { text, caret } = insertMention(value, mentionQuery, user);
+    onChange(text);
+    setMentionQuery(null);
+    
+    setTimeout(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    }, 0);
+  };
+  
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+    
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handlePick(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
+    }
+  };
+  
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        id={id}
+        rows={rows}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMentionQuery(value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+        disabled={disabled}
+        placeholder={placeholder}
+        className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-64 bg-white shadow-lg rounded-md border border-gray-200 py-1 text-sm" role="listbox">
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => {
+                // Keep the textarea focused while picking
+                e.preventDefault();
+                handlePick(user);
+              }}
+              className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-indigo-50 text-indigo-900' : 'text-gray-900'}`}
+            >
+              <span className="font-medium">{user.displayName}</span>
+              {user.department && <span className="ml-2 text-xs text-gray-500">{user.department}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
\ No newline at end of file
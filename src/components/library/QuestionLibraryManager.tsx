@@ -0,0 +1,403 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { LibraryQuestion, LibraryQuestionVersion, Question, QuestionType, UserRole } from '../../types';
+import { searchLibraryQuestions } from '../../utils/questionLibrary';
+import { QUESTION_TYPE_LABELS, getQuestionType, normalizeQuestionTypeSettings, validateQuestionDefinition } from '../../utils/questionTypes';
+import QuestionTypeFields from '../pir/QuestionTypeFields';
+
+interface LibraryQuestionFormData extends Pick<Question, 'type' | 'options' | 'units'> {
+  text: string;
+  category: string;
+  required: boolean;
+  guidance: string;
+  tags: string;
+}
+
+const EMPTY_FORM: LibraryQuestionFormData = {
+  text: '',
+  category: '',
+  required: true,
+  type: QuestionType.TEXT,
+  guidance: '',
+  tags: ''
+};
+
+const QuestionLibraryManager: React.FC = () => {
+  const { 
+    libraryQuestions, 
+    fetchLibraryQuestions, 
+    createLibraryQuestion, 
+    updateLibraryQuestion, 
+    setLibraryQuestionArchived, 
+    fetchLibraryQuestionVersions, 
+    fetchLibraryQuestionUsage, 
+    isLoadingLibrary, 
+    libraryError, 
+    currentUser
+  } = useStore();
+  
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<LibraryQuestionFormData>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<LibraryQuestionVersion[]>([]);
+  const [usageCount, setUsageCount] = useState<number | null>(null);
+  
+  const canManage = currentUser?.role === UserRole.ADMIN || currentUser?.role === UserRole.REQUESTER;
+  
+  useEffect(() => {
+    // Archived entries are listed so they can be restored
+    fetchLibraryQuestions(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  
+  const filteredQuestions = searchLibraryQuestions(libraryQuestions, searchTerm);
+  
+  // Open the form for a new or an existing library question
+  const openForm = (question?: LibraryQuestion) => {
+    setEditingId(question?.id || null);
+    setFormData(question
+      ? {
+        text: question.text,
+        category: question.category,
+        required: question.required,
+        type: getQuestionType(question),
+        options: question.options,
+        units: question.units,
+        guidance: question.guidance || '',
+        tags: question.tags.join(', ')
+      }
+      : EMPTY_FORM);
+    setFormError(null);
+    setShowForm(true);
+  };
+  
+  // Handle form input changes
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    
+    if (name === 'required') {
+      setFormData(prev => ({ ...prev, required: value === 'true' }));
+    } else {
+      setFormData(prev => ({ ...prev, [name]: value }));
+    }
+  };
+  
+  // Save the library question, creating a new version when editing
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!currentUser) {
+      setFormError('You must be logged in to manage the question library');
+      return;
+    }
+    
+    if (!formData.text.trim() || !formData.category.trim()) {
+      setFormError('Please fill in all required fields');
+      return;
+    }
+    
+    const typeSettings = normalizeQuestionTypeSettings(formData);
+    const definitionError = validateQuestionDefinition(typeSettings);
+    
+    if (definitionError) {
+      setFormError(definitionError);
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setFormError(null);
+    
+    const fields = {
+      text: formData.text.trim(),
+      category: formData.category.trim(),
+      required: formData.required,
+      ...typeSettings,
+      guidance: formData.guidance.trim(),
+      tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+    };
+    
+    try {
+      if (editingId) {
+        await updateLibraryQuestion(editingId, fields);
+      } else {
+        await createLibraryQuestion({
+          ...fields,
+          createdBy: currentUser.id,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+      }
+      
+      setShowForm(false);
+      setEditingId(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  // Show or hide the version history and usage of a library question
+  const toggleHistory = async (id: string) => {
+    if (historyId === id) {
+      setHistoryId(null);
+      return;
+    }
+    
+    setHistoryId(id);
+    setVersions([]);
+    setUsageCount(null);
+    
+    try {
+      const [questionVersions, usage] = await Promise.all([
+        fetchLibraryQuestionVersions(id),
+        fetchLibraryQuestionUsage(id)
+      ]);
+      setVersions(questionVersions);
+      setUsageCount(new Set(usage.map(question => question.pirId)).size);
+    } catch (err) {
+      // The error is shown through libraryError
+    }
+  };
+  
+  return (
+    <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+      <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Question Library</h3>
+          <p className="mt-1 max-w-2xl text-sm text-gray-500">Reusable questions that can be added to any PIR</p>
+        </div>
+        {canManage && !showForm && (
+          <button
+            type="button"
+            onClick={() => openForm()}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            New Library Question
+          </button>
+        )}
+      </div>
+      
+      {libraryError && (
+        <div className="mx-4 mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{libraryError}</div>
+      )}
+      
+      {showForm && (
+        <form onSubmit={handleSubmit} className="border-t border-gray-200 px-4 py-5 sm:px-6">
+          {formError && (
+            <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{formError}</div>
+          )}
+          
+          <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+            <div className="sm:col-span-6">
+              <label htmlFor="library-text" className="block text-sm font-medium text-gray-700">
+                Question <span className="text-red-500">*</span>
+              </label>
+              <div className="mt-1">
+                <textarea
+                  id="library-text"
+                  name="text"
+                  rows={3}
+                  value={formData.text}
+                  onChange={handleChange}
+                  className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  required
+                />
+              </div>
+            </div>
+            
+            <div className="sm:col-span-6">
+              <label htmlFor="library-guidance" className="block text-sm font-medium text-gray-700">
+                Guidance
+              </label>
+              <div className="mt-1">
+                <textarea
+                  id="library-guidance"
+                  name="guidance"
+                  rows={2}
+                  value={formData.guidance}
+                  onChange={handleChange}
+                  className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  placeholder="Help responders give a complete answer..."
+                />
+              </div>
+            </div>
+            
+            <div className="sm:col-span-2">
+              <label htmlFor="library-category" className="block text-sm font-medium text-gray-700">
+                Category <span className="text-red-500">*</span>
+              </label>
+              <div className="mt-1">
+                <input
+                  type="text"
+                  id="library-category"
+                  name="category"
+                  value={formData.category}
+                  onChange={handleChange}
+                  className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  required
+                />
+              </div>
+            </div>
+            
+            <div className="sm:col-span-2">
+              <label htmlFor="library-required" className="block text-sm font-medium text-gray-700">
+                Required
+              </label>
+              <div className="mt-1">
+                <select
+                  id="library-required"
+                  name="required"
+                  value={formData.required ? 'true' : 'false'}
+                  onChange={handleChange}
+                  className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                >
+                  <option value="true">Yes</option>
+                  <option value="false">No</option>
+                </select>
+              </div>
+            </div>
+            
+            <QuestionTypeFields 
+              idPrefix="library" 
+              value={formData} 
+              onChange={(settings) => setFormData(prev => ({ ...prev, ...settings }))} 
+            />
+            
+            <div className="sm:col-span-2">
+              <label htmlFor="library-tags" className="block text-sm font-medium text-gray-700">
+                Tags
+              </label>
+              <div className="mt-1">
+                <input
+                  type="text"
+                  id="library-tags"
+                  name="tags"
+                  value={formData.tags}
+                  onChange={handleChange}
+                  className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  placeholder="Comma separated"
+                />
+              </div>
+            </div>
+          </div>
+          
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : editingId ? 'Save New Version' : 'Add to Library'}
+            </button>
+          </div>
+        </form>
+      )}
+      
+      <div className="border-t border-gray-200 px-4 py-4 sm:px-6">
+        <label htmlFor="library-manager-search" className="sr-only">Search</label>
+        <input
+          type="text"
+          id="library-manager-search"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Search questions, guidance or tags..."
+          className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+        />
+      </div>
+      
+      {isLoadingLibrary && libraryQuestions.length === 0 ? (
+        <div className="animate-pulse space-y-2 p-4">
+          <div className="h-10 bg-gray-200 rounded"></div>
+          <div className="h-10 bg-gray-200 rounded"></div>
+        </div>
+      ) : filteredQuestions.length === 0 ? (
+        <div className="p-4 text-center text-sm text-gray-500">No library questions found.</div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border-t border-gray-200">
+          {filteredQuestions.map(question => (
+            <li key={question.id} className={`px-4 py-4 sm:px-6 ${question.archived ? 'bg-gray-50' : ''}`}>
+              <div className="flex items-start justify-between">
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900">{question.text}</p>
+                  {question.guidance && <p className="mt-1 text-gray-500">{question.guidance}</p>}
+                  <p className="mt-1 text-xs text-gray-500">
+                    {question.category} • {QUESTION_TYPE_LABELS[getQuestionType(question)]} • {question.required ? 'Required' : 'Optional'} • Version {question.version}
+                    {question.tags.length > 0 && ` • ${question.tags.join(', ')}`}
+                    {question.archived && ' • Archived'}
+                  </p>
+                </div>
+                <div className="ml-4 flex flex-shrink-0 space-x-3 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => toggleHistory(question.id)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                  >
+                    {historyId === question.id ? 'Hide History' : 'History'}
+                  </button>
+                  {canManage && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => openForm(question)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setLibraryQuestionArchived(question.id, !question.archived)}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        {question.archived ? 'Restore' : 'Archive'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              
+              {historyId === question.id && (
+                <div className="mt-3 rounded-md border border-gray-200 p-3 text-sm">
+                  {usageCount !== null && (
+                    <p className="text-gray-500">Used in {usageCount} PIR{usageCount === 1 ? '' : 's'}</p>
+                  )}
+                  <ul className="mt-2 space-y-2">
+                    {versions.map(version => (
+                      <li key={version.id}>
+                        <span className="font-medium text-gray-900">Version {version.version}</span>
+                        <span className="ml-2 text-xs text-gray-500">
+                          {version.createdAt && format(version.createdAt, 'PPpp')}
+                        </span>
+                        <p className="text-gray-700">{version.text}</p>
+                        {version.guidance && <p className="text-gray-500">{version.guidance}</p>}
+                        <p className="text-xs text-gray-500">
+                          {version.category} • {QUESTION_TYPE_LABELS[getQuestionType(version)]} • {version.required ? 'Required' : 'Optional'}
+                          {version.options && version.options.length > 0 && ` • ${version.options.join(' / ')}`}
+                          {version.tags.length > 0 && ` • ${version.tags.join(', ')}`}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default QuestionLibraryManager;
\ No newline at end of file
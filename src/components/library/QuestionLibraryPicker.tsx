@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useStore } from '../../store';
+import { searchLibraryQuestions } from '../../utils/questionLibrary';
+
+interface QuestionLibraryPickerProps {
+  pirId: string;
+  onClose: () => void;
+}
+
+const QuestionLibraryPicker: React.FC<QuestionLibraryPickerProps> = ({ pirId, onClose }) => {
+  const { 
+    libraryQuestions, 
+    fetchLibraryQuestions, 
+    isLoadingLibrary, 
+    libraryError, 
+    questions, 
+    addLibraryQuestionsToPIR, 
+    currentUser
+  } = useStore();
+  
+  const [searchTerm, setSearchTerm] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    fetchLibraryQuestions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  
+  // Library entries already added to this PIR
+  const addedLibraryIds = useMemo(() => {
+    return new Set(
+      questions
+        .filter(question => question.pirId === pirId && question.libraryQuestionId)
+        .map(question => question.libraryQuestionId)
+    );
+  }, [questions, pirId]);
+  
+  const categories = useMemo(() => {
+    return Array.from(new Set(libraryQuestions.map(question => question.category))).sort();
+  }, [libraryQuestions]);
+  
+  const filteredQuestions = searchLibraryQuestions(libraryQuestions, searchTerm, { category: categoryFilter });
+  
+  // Toggle a library question in the selection
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev =>
+      prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]
+    );
+  };
+  
+  // Add the selected library questions to the PIR
+  const handleAdd = async () => {
+    if (!currentUser) {
+      setLocalError('You must be logged in to add questions');
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setLocalError(null);
+    
+    try {
+      await addLibraryQuestionsToPIR(
+        pirId,
+        libraryQuestions.filter(question => selectedIds.includes(question.id)),
+        currentUser.id
+      );
+      onClose();
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <div className="p-4">
+      <h4 className="text-lg font-medium text-gray-900 mb-3">Add Questions from Library</h4>
+      
+      {(localError || libraryError) && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{localError || libraryError}</div>
+      )}
+      
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="sm:col-span-2">
+          <label htmlFor="library-search" className="sr-only">Search</label>
+          <input
+            type="text"
+            id="library-search"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search questions, guidance or tags..."
+            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label htmlFor="library-category" className="sr-only">Category</label>
+          <select
+            id="library-category"
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          >
+            <option value="">All categories</option>
+            {categories.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      
+      {isLoadingLibrary ? (
+        <div className="mt-4 animate-pulse space-y-2">
+          <div className="h-10 bg-gray-200 rounded"></div>
+          <div className="h-10 bg-gray-200 rounded"></div>
+        </div>
+      ) : filteredQuestions.length === 0 ? (
+        <div className="mt-4 text-sm text-center text-gray-500">No library questions match your search.</div>
+      ) : (
+        <ul className="mt-4 max-h-96 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {filteredQuestions.map(question => {
+            const isAdded = addedLibraryIds.has(question.id);
+            
+            return (
+              <li key={question.id} className="px-3 py-3">
+                <label className={`flex items-start ${isAdded ? 'opacity-50' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={isAdded || selectedIds.includes(question.id)}
+                    disabled={isAdded}
+                    onChange={() => toggleSelected(question.id)}
+                    className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-3 text-sm">
+                    <span className="block font-medium text-gray-900">{question.text}</span>
+                    {question.guidance && (
+                      <span className="block mt-1 text-gray-500">{question.guidance}</span>
+                    )}
+                    <span className="mt-1 flex flex-wrap items-center gap-1">
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        {question.category}
+                      </span>
+                      {question.required && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Required
+                        </span>
+                      )}
+                      {question.tags.map(tag => (
+                        <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                          {tag}
+                        </span>
+                      ))}
+                      <span className="text-xs text-gray-500">v{question.version}</span>
+                      {isAdded && <span className="text-xs text-gray-500">• Already added</span>}
+                    </span>
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      
+      <div className="mt-6 flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={isSubmitting || selectedIds.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSubmitting
+            ? 'Adding...'
+            : `Add ${selectedIds.length} Question${selectedIds.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionLibraryPicker;
\ No newline at end of file
@@ -1,24 +1,257 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
 import { useStore } from '../../store';
-import { Answer } from '../../types';
+import { Answer, AnswerDraft, AnswerValue, Question, QuestionType } from '../../types';
+import { formatAnswerValue, getQuestionType, validateAnswer } from '../../utils/questionTypes';
+import { AnswerSuggestion } from '../../utils/answerSuggestions';
+import { ANSWER_DRAFT_SAVE_DELAY_MS, isEmptyAnswerDraft } from '../../utils/answerDrafts';
+
+// Most earlier answers offered for reuse
+const MAX_SUGGESTIONS = 3;
+
+// The parts of the form kept in a draft
+type DraftContent = Pick<AnswerDraft, 'text' | 'value' | 'sourcePIRId' | 'sourceAnswerId'>;
+
+// Where the draft was last saved: nowhere yet, in progress, Firestore or only this browser
+type DraftStatus = 'idle' | 'saving' | 'saved' | 'local';
 
 interface AnswerFormProps {
-  questionId: string;
-  pirId: string;
+  question: Question;
+  answer?: Answer; // Existing answer to edit; a new revision is saved
   onCancel: () => void;
 }
 
-const AnswerForm: React.FC<AnswerFormProps> = ({ questionId, pirId, onCancel }) => {
-  const { createAnswer, currentUser, isLoadingAnswers } = useStore();
+const AnswerForm: React.FC<AnswerFormProps> = ({ question, answer, onCancel }) => {
+  const { 
+    createAnswer, 
+    updateAnswer, 
+    fetchAnswerSuggestions, 
+    fetchAnswerDraft, 
+    saveAnswerDraft, 
+    discardAnswerDraft, 
+    currentUser, 
+    selectedPIR, 
+    isLoadingAnswers 
+  } = useStore();
+  
+  const questionType = getQuestionType(question);
+  const options = question.options || [];
+  const units = question.units || [];
+  const initialValue = answer?.value;
+  const initialNumber = initialValue && typeof initialValue === 'object' && 'amount' in initialValue 
+    ? initialValue 
+    : null;
   
-  const [text, setText] = useState('');
+  const [text, setText] = useState(answer && questionType === QuestionType.TEXT ? answer.text : '');
+  const [yesNo, setYesNo] = useState<boolean | null>(typeof initialValue === 'boolean' ? initialValue : null);
+  const [choice, setChoice] = useState(typeof initialValue === 'string' && questionType === QuestionType.SINGLE_CHOICE ? initialValue : '');
+  const [choices, setChoices] = useState<string[]>(Array.isArray(initialValue) ? initialValue : []);
+  const [amount, setAmount] = useState(initialNumber ? String(initialNumber.amount) : '');
+  const [unit, setUnit] = useState(initialNumber?.unit || units[0] || '');
+  const [date, setDate] = useState(initialValue instanceof Date ? format(initialValue, 'yyyy-MM-dd') : '');
+  const [files, setFiles] = useState<File[]>([]);
   const [formError, setFormError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<AnswerSuggestion[]>([]);
+  const [reusedSuggestion, setReusedSuggestion] = useState<AnswerSuggestion | null>(null);
+  const [answerSource, setAnswerSource] = useState<Pick<Answer, 'sourcePIRId' | 'sourceAnswerId'> | null>(null);
+  
+  // Drafts are kept for new answers only; the files of a file question cannot be kept in one
+  const isDraftEnabled = !answer && questionType !== QuestionType.FILE && !!currentUser;
+  const [isDraftLoaded, setIsDraftLoaded] = useState(!isDraftEnabled);
+  const [draftStatus, setDraftStatus] = useState<DraftStatus>('idle');
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [restoredDraft, setRestoredDraft] = useState<AnswerDraft | null>(null);
+  // Content of the draft last saved, or null when none is saved
+  const savedDraftKeyRef = useRef<string | null>(null);
+  const isSubmittingRef = useRef(false);
+  
+  // Offer the responder's earlier accepted answers when answering a new question
+  useEffect(() => {
+    if (answer || !currentUser || selectedPIR?.id !== question.pirId) return;
+    
+    let isCurrent = true;
+    
+    fetchAnswerSuggestions(question, selectedPIR, currentUser.id)
+      .then(found => {
+        if (isCurrent) setSuggestions(found.slice(0, MAX_SUGGESTIONS));
+      })
+      .catch(() => {
+        // Suggestions are optional; the form works without them
+      });
+    
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [question.id, answer?.id, currentUser?.id]);
+  
+  // Fill the form controls from the text and value of an answer
+  const fillForm = (answerText: string, value: AnswerValue | undefined) => {
+    setText(questionType === QuestionType.TEXT ? answerText : '');
+    setYesNo(typeof value === 'boolean' ? value : null);
+    setChoice(typeof value === 'string' && questionType === QuestionType.SINGLE_CHOICE ? value : '');
+    setChoices(Array.isArray(value) ? value : []);
+    
+    if (value && typeof value === 'object' && 'amount' in value) {
+      setAmount(String(value.amount));
+      setUnit(value.unit || units[0] || '');
+    } else {
+      setAmount('');
+    }
+    
+    setDate(value instanceof Date ? format(value, 'yyyy-MM-dd') : '');
+  };
+  
+  // Fill the form with an earlier answer, remembering where it came from
+  const handleReuse = (suggestion: AnswerSuggestion) => {
+    fillForm(suggestion.answer.text, suggestion.answer.value);
+    setReusedSuggestion(suggestion);
+    setAnswerSource({ sourcePIRId: suggestion.pir.id, sourceAnswerId: suggestion.answer.id });
+    setFormError(null);
+  };
   
   // Handle text change
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setText(e.target.value);
   };
   
+  // Toggle an option of a multiple choice question
+  const toggleChoice = (option: string) => {
+    setChoices(prev =>
+      prev.includes(option) ? prev.filter(selected => selected !== option) : [...prev, option]
+    );
+  };
+  
+  // Handle file selection for file-required questions
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(e.target.files ? Array.from(e.target.files) : []);
+  };
+  
+  // Build the typed answer value from the form controls
+  const getValue = (): AnswerValue => {
+    switch (questionType) {
+      case QuestionType.YES_NO:
+        return yesNo;
+      case QuestionType.SINGLE_CHOICE:
+        return choice || null;
+      case QuestionType.MULTIPLE_CHOICE:
+        return options.filter(option => choices.includes(option));
+      case QuestionType.NUMBER:
+        return amount.trim() === ''
+          ? null
+          : { amount: Number(amount), ...(unit && { unit }) };
+      case QuestionType.DATE:
+        return date ? new Date(`${date}T00:00:00`) : null;
+      case QuestionType.FILE:
+        return null;
+      default:
+        return text;
+    }
+  };
+  
+  const draftContent: DraftContent = {
+    text: questionType === QuestionType.TEXT ? text : '',
+    value: questionType === QuestionType.TEXT ? null : getValue(),
+    ...(answerSource && {
+      sourcePIRId: answerSource.sourcePIRId,
+      sourceAnswerId: answerSource.sourceAnswerId
+    })
+  };
+  const draftKey = JSON.stringify(draftContent);
+  
+  // Read by the draft loading below, which finishes after the responder may have started typing
+  const draftContentRef = useRef(draftContent);
+  draftContentRef.current = draftContent;
+  
+  // Restore the responder's unsent answer when the form opens for the same question again
+  useEffect(() => {
+    if (!isDraftEnabled || !currentUser) return;
+    
+    let isCurrent = true;
+    
+    fetchAnswerDraft(currentUser.id, question.id)
+      .then(draft => {
+        if (!isCurrent || !draft || !isEmptyAnswerDraft(draftContentRef.current)) return;
+        
+        const { text: draftText, value, sourcePIRId, sourceAnswerId } = draft;
+        
+        fillForm(draftText, value);
+        setAnswerSource(sourcePIRId && sourceAnswerId ? { sourcePIRId, sourceAnswerId } : null);
+        setRestoredDraft(draft);
+        savedDraftKeyRef.current = JSON.stringify({ text: draftText, value, sourcePIRId, sourceAnswerId });
+      })
+      .finally(() => {
+        if (isCurrent) setIsDraftLoaded(true);
+      });
+    
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [question.id, currentUser?.id]);
+  
+  // Save the draft once the responder pauses, removing it when the form is cleared
+  useEffect(() => {
+    if (!isDraftEnabled || !isDraftLoaded || !currentUser || draftKey === savedDraftKeyRef.current) return;
+    
+    const isEmpty = isEmptyAnswerDraft(draftContent);
+    
+    if (isEmpty && savedDraftKeyRef.current === null) return;
+    
+    const timer = window.setTimeout(async () => {
+      // The answer being submitted replaces the draft
+      if (isSubmittingRef.current) return;
+      
+      setDraftStatus('saving');
+      
+      if (isEmpty) {
+        await discardAnswerDraft(currentUser.id, question.id).catch(() => undefined);
+        savedDraftKeyRef.current = null;
+        setDraftStatus('idle');
+        return;
+      }
+      
+      try {
+        await saveAnswerDraft({
+          userId: currentUser.id,
+          pirId: question.pirId,
+          questionId: question.id,
+          ...draftContent
+        });
+        setDraftStatus('saved');
+      } catch (err) {
+        // The copy kept in the browser is still there
+        setDraftStatus('local');
+      }
+      
+      savedDraftKeyRef.current = draftKey;
+      setDraftSavedAt(new Date());
+    }, ANSWER_DRAFT_SAVE_DELAY_MS);
+    
+    return () => {
+      window.clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftKey, isDraftLoaded]);
+  
+  // Clear the form and forget the restored draft
+  const handleDiscardDraft = async () => {
+    if (!currentUser) return;
+    
+    fillForm('', null);
+    setReusedSuggestion(null);
+    setAnswerSource(null);
+    setRestoredDraft(null);
+    setDraftStatus('idle');
+    savedDraftKeyRef.current = null;
+    
+    try {
+      await discardAnswerDraft(currentUser.id, question.id);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'The draft could not be discarded');
+    }
+  };
+  
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,30 +261,59 @@ const AnswerForm: React.FC<AnswerFormProps> = ({ questionId, pirId, onCancel })
       return;
     }
     
-    if (!text.trim()) {
-      setFormError('Answer text cannot be empty');
+    const value = getValue();
+    const answerText = questionType === QuestionType.TEXT 
+      ? text 
+      : formatAnswerValue(question, value, files.length);
+    
+    // Files are uploaded with the answer, so count them as its attachments
+    const validationError = validateAnswer(question, {
+      text: answerText,
+      value,
+      attachmentIds: answer ? answer.attachmentIds : files.map(file => file.name)
+    });
+    
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+    
+    if (answer) {
+      try {
+        await updateAnswer(answer.id, { text: answerText, value });
+        onCancel();
+      } catch (err) {
+        setFormError(err instanceof Error ? err.message : 'An error occurred');
+      }
       return;
     }
     
     try {
       // Create the answer
       const newAnswer: Omit<Answer, 'id'> = {
-        questionId,
-        pirId,
-        text,
+        questionId: question.id,
+        pirId: question.pirId,
+        text: answerText,
+        value,
         responderId: currentUser.id,
         responderName: currentUser.displayName,
         createdAt: new Date(),
         updatedAt: new Date(),
-        attachmentIds: []
+        attachmentIds: [],
+        ...(answerSource && {
+          sourcePIRId: answerSource.sourcePIRId,
+          sourceAnswerId: answerSource.sourceAnswerId
+        })
       };
       
-      await createAnswer(newAnswer);
+      isSubmittingRef.current = true;
+      await createAnswer(newAnswer, files);
       
       // Reset form and close
       setText('');
       onCancel();
     } catch (err) {
+      isSubmittingRef.current = false;
       setFormError(err instanceof Error ? err.message : 'An error occurred');
     }
   };
@@ -59,7 +321,7 @@ const AnswerForm: React.FC<AnswerFormProps> = ({ questionId, pirId, onCancel })
   return (
     <form onSubmit={handleSubmit} className="bg-gray-50 p-4 rounded-md">
       <h4 className="text-sm font-medium text-gray-900 mb-3">
-        Your Answer
+        {answer ? 'Edit Your Answer' : 'Your Answer'}
       </h4>
       
       {formError && (
@@ -77,34 +339,171 @@ const AnswerForm: React.FC<AnswerFormProps> = ({ questionId, pirId, onCancel })
         </div>
       )}
       
+      {restoredDraft && (
+        <div className="mb-4 flex items-center justify-between rounded-md bg-blue-50 p-3 text-sm text-blue-700">
+          <span>Restored your unsent answer from {format(restoredDraft.updatedAt, 'MMM d, yyyy HH:mm')}.</span>
+          <button
+            type="button"
+            onClick={handleDiscardDraft}
+            className="ml-3 flex-shrink-0 text-blue-800 hover:text-blue-900 underline"
+          >
+            Discard draft
+          </button>
+        </div>
+      )}
+      
+      {suggestions.length > 0 && (
+        <div className="mb-4 rounded-md border border-indigo-100 bg-indigo-50 p-3">
+          <p className="text-xs font-medium text-indigo-800">Your earlier accepted answers</p>
+          <ul className="mt-2 space-y-2">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.answer.id} className="flex items-start justify-between text-sm">
+                <div className="min-w-0 mr-3">
+                  <p className="text-gray-900 truncate">{suggestion.answer.text}</p>
+                  <p className="text-xs text-gray-500">
+                    {suggestion.pir.title} • {suggestion.sameProduct ? suggestion.pir.productName : suggestion.pir.productCategory} • {format(suggestion.answer.createdAt, 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleReuse(suggestion)}
+                  className="flex-shrink-0 text-indigo-600 hover:text-indigo-900"
+                >
+                  {reusedSuggestion?.answer.id === suggestion.answer.id ? 'Used' : 'Use this answer'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
       <div className="mb-4">
-        <textarea
-          rows={4}
-          value={text}
-          onChange={handleTextChange}
-          className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
-          placeholder="Type your answer here..."
-          required
-        />
+        {questionType === QuestionType.YES_NO && (
+          <div className="flex space-x-6">
+            {[true, false].map(option => (
+              <label key={String(option)} className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name={`answer-${question.id}`}
+                  checked={yesNo === option}
+                  onChange={() => setYesNo(option)}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                />
+                <span className="ml-2">{option ? 'Yes' : 'No'}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        
+        {questionType === QuestionType.SINGLE_CHOICE && (
+          <div className="space-y-2">
+            {options.map(option => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name={`answer-${question.id}`}
+                  checked={choice === option}
+                  onChange={() => setChoice(option)}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                />
+                <span className="ml-2">{option}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        
+        {questionType === QuestionType.MULTIPLE_CHOICE && (
+          <div className="space-y-2">
+            {options.map(option => (
+              <label key={option} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={choices.includes(option)}
+                  onChange={() => toggleChoice(option)}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                <span className="ml-2">{option}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        
+        {questionType === QuestionType.NUMBER && (
+          <div className="flex space-x-3">
+            <input
+              type="number"
+              step="any"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="Enter a number"
+            />
+            {units.length > 0 && (
+              <select
+                value={unit}
+                onChange={(e) => setUnit(e.target.value)}
+                className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block sm:text-sm border-gray-300 rounded-md"
+              >
+                {units.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+        
+        {questionType === QuestionType.DATE && (
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block sm:text-sm border-gray-300 rounded-md"
+          />
+        )}
+        
+        {questionType === QuestionType.FILE && (
+          <input
+            type="file"
+            multiple
+            onChange={handleFilesChange}
+            className="block w-full text-sm text-gray-500"
+          />
+        )}
+        
+        {questionType === QuestionType.TEXT && (
+          <textarea
+            rows={4}
+            value={text}
+            onChange={handleTextChange}
+            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+            placeholder="Type your answer here..."
+            required
+          />
+        )}
       </div>
       
-      {/* Future enhancement: Add attachment upload functionality here */}
-      
-      <div className="flex justify-end space-x-3">
-        <button
-          type="button"
-          onClick={onCancel}
-          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-        >
-          Cancel
-        </button>
-        <button
-          type="submit"
-          disabled={isLoadingAnswers}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
-        >
-          {isLoadingAnswers ? 'Submitting...' : 'Submit Answer'}
-        </button>
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500" aria-live="polite">
+          {draftStatus === 'saving' && 'Saving draft...'}
+          {draftStatus === 'saved' && draftSavedAt && `Draft saved at ${format(draftSavedAt, 'HH:mm')}`}
+          {draftStatus === 'local' && 'Draft saved on this device only'}
+        </span>
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isLoadingAnswers}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {isLoadingAnswers ? 'Submitting...' : answer ? 'Save Changes' : 'Submit Answer'}
+          </button>
+        </div>
       </div>
     </form>
   );
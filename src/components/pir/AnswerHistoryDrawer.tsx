@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { Answer, AnswerVersion } from '../../types';
+import { diffWords } from '../../utils/answerHistory';
+
+interface AnswerHistoryDrawerProps {
+  answer: Answer;
+  onClose: () => void;
+}
+
+/**
+ * Slide-over listing the revisions of an answer with a word diff between any two
+ */
+const AnswerHistoryDrawer: React.FC<AnswerHistoryDrawerProps> = ({ answer, onClose }) => {
+  const { fetchAnswerVersions } = useStore();
+  
+  const [versions, setVersions] = useState<AnswerVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  
+  useEffect(() => {
+    let isCurrent = true;
+    
+    fetchAnswerVersions(answer.id)
+      .then(loadedVersions => {
+        if (!isCurrent) return;
+        
+        setVersions(loadedVersions);
+        // Compare the latest revision with the one before it
+        setToVersion(loadedVersions[0]?.version ?? null);
+        setFromVersion(loadedVersions[1]?.version ?? loadedVersions[0]?.version ?? null);
+      })
+      .catch(err => {
+        if (isCurrent) setLoadError(err instanceof Error ? err.message : 'Failed to load the answer history');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [answer.id, answer.version]);
+  
+  const diff = useMemo(() => {
+    const from = versions.find(version => version.version === fromVersion);
+    const to = versions.find(version => version.version === toVersion);
+    
+    return from && to ? diffWords(from.text, to.text) : [];
+  }, [versions, fromVersion, toVersion]);
+  
+  const renderVersionSelect = (id: string, label: string, value: number | null, onChange: (version: number) => void) => (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium text-gray-500">{label}</label>
+      <select
+        id={id}
+        value={value ?? ''}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+      >
+        {versions.map(version => (
+          <option key={version.version} value={version.version}>
+            v{version.version} • {format(version.createdAt, 'MMM d, yyyy HH:mm')}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+  
+  return (
+    <div className="fixed inset-0 z-40 overflow-hidden" role="dialog" aria-modal="true" aria-labelledby={`answer-history-${answer.id}`}>
+      <div className="absolute inset-0 bg-gray-500 bg-opacity-75" onClick={onClose}></div>
+      
+      <div className="fixed inset-y-0 right-0 flex max-w-full pl-10">
+        <div className="w-screen max-w-md flex flex-col bg-white shadow-xl overflow-y-auto">
+          <div className="px-4 py-5 sm:px-6 border-b border-gray-200 flex items-start justify-between">
+            <div>
+              <h3 id={`answer-history-${answer.id}`} className="text-lg font-medium text-gray-900">Answer History</h3>
+              <p className="mt-1 text-sm text-gray-500">{answer.responderName}'s answer</p>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          
+          <div className="flex-1 px-4 py-5 sm:px-6">
+            {isLoading ? (
+              <div className="animate-pulse space-y-3">
+                <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+                <div className="h-16 bg-gray-200 rounded"></div>
+              </div>
+            ) : loadError ? (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{loadError}</div>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                This answer was saved before revisions were kept and has not changed since.
+              </p>
+            ) : (
+              <>
+                {versions.length > 1 && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {renderVersionSelect(`answer-history-${answer.id}-from`, 'Compare', fromVersion, setFromVersion)}
+                    {renderVersionSelect(`answer-history-${answer.id}-to`, 'With', toVersion, setToVersion)}
+                  </div>
+                )}
+                
+                <div className="mt-4 rounded-md bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-wrap">
+                  {diff.map((segment, index) => (
+                    <span
+                      key={index}
+                      className={
+                        segment.type === 'added'
+                          ? 'bg-green-100 text-green-800'
+                          : segment.type === 'removed'
+                            ? 'bg-red-100 text-red-800 line-through'
+                            : ''
+                      }
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </div>
+                
+                <h4 className="mt-6 text-sm font-medium text-gray-900">Revisions</h4>
+                <ul className="mt-2 divide-y divide-gray-200">
+                  {versions.map(version => (
+                    <li key={version.version} className="py-3 text-sm">
+                      <div className="flex justify-between">
+                        <span className="font-medium text-gray-900">v{version.version}</span>
+                        <span className="text-gray-500">{format(version.createdAt, 'MMM d, yyyy HH:mm')}</span>
+                      </div>
+                      <div className="text-gray-500">by {version.createdByName || 'Unknown user'}</div>
+                      <div className="mt-1 text-gray-700 whitespace-pre-wrap">{version.text}</div>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnswerHistoryDrawer;
\ No newline at end of file
@@ -0,0 +1,27 @@
+import React from 'react';
+import { ANSWER_REVIEW_STATUS_LABELS, QuestionReviewStatus } from '../../utils/answerReview';
+
+interface AnswerReviewBadgeProps {
+  status: QuestionReviewStatus;
+  className?: string;
+}
+
+// Badge colors for each review status
+const BADGE_STYLES: Record<QuestionReviewStatus, string> = {
+  accepted: 'bg-green-100 text-green-800',
+  needs_clarification: 'bg-yellow-100 text-yellow-800',
+  rejected: 'bg-red-100 text-red-800',
+  pending: 'bg-gray-100 text-gray-800'
+};
+
+const AnswerReviewBadge: React.FC<AnswerReviewBadgeProps> = ({ status, className = '' }) => {
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${BADGE_STYLES[status]} ${className}`}
+    >
+      {ANSWER_REVIEW_STATUS_LABELS[status]}
+    </span>
+  );
+};
+
+export default AnswerReviewBadge;
\ No newline at end of file
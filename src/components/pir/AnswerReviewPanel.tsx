@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { Answer, AnswerReviewStatus } from '../../types';
+import { isReviewCommentRequired } from '../../utils/answerReview';
+import AnswerReviewBadge from './AnswerReviewBadge';
+
+interface AnswerReviewPanelProps {
+  answer: Answer;
+  canReview: boolean;
+}
+
+// Button colors for each decision a reviewer can make
+const DECISION_BUTTON_STYLES: Record<AnswerReviewStatus, string> = {
+  accepted: 'bg-green-600 hover:bg-green-700 focus:ring-green-500',
+  needs_clarification: 'bg-yellow-600 hover:bg-yellow-700 focus:ring-yellow-500',
+  rejected: 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+};
+
+const DECISION_BUTTON_LABELS: Record<AnswerReviewStatus, string> = {
+  accepted: 'Accept',
+  needs_clarification: 'Needs Clarification',
+  rejected: 'Reject'
+};
+
+/**
+ * The reviewer's decision on an answer, and the controls to record one
+ */
+const AnswerReviewPanel: React.FC<AnswerReviewPanelProps> = ({ answer, canReview }) => {
+  const { reviewAnswer } = useStore();
+  
+  const [showForm, setShowForm] = useState(false);
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  
+  const { review } = answer;
+  
+  // Record the current user's decision on the answer
+  const handleDecision = async (status: AnswerReviewStatus) => {
+    if (isReviewCommentRequired(status) && !comment.trim()) {
+      setLocalError('Please tell the responder what needs to change');
+      return;
+    }
+    
+    setIsSaving(true);
+    setLocalError(null);
+    
+    try {
+      await reviewAnswer(answer.id, status, comment.trim());
+      setComment('');
+      setShowForm(false);
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  if (!review && !canReview) {
+    return null;
+  }
+  
+  return (
+    <div className="mt-3 border-t border-gray-200 pt-3 text-sm">
+      {review && (
+        <div>
+          <div className="flex items-center">
+            <AnswerReviewBadge status={review.status} />
+            <span className="ml-2 text-xs text-gray-500">
+              {review.reviewerName} • {format(review.reviewedAt, 'MMM d, yyyy')} • Round {review.round}
+            </span>
+          </div>
+          {review.comment && (
+            <p className="mt-1 text-gray-700 whitespace-pre-wrap">{review.comment}</p>
+          )}
+        </div>
+      )}
+      
+      {canReview && !showForm && (
+        <button
+          type="button"
+          onClick={() => setShowForm(true)}
+          className={`${review ? 'mt-2 ' : ''}text-indigo-600 hover:text-indigo-900`}
+        >
+          {review ? 'Change Review' : 'Review Answer'}
+        </button>
+      )}
+      
+      {canReview && showForm && (
+        <div className={review ? 'mt-3' : ''}>
+          {localError && (
+            <div className="mb-3 rounded-md bg-red-50 p-3 text-sm text-red-700">{localError}</div>
+          )}
+          <label htmlFor={`answer-review-comment-${answer.id}`} className="block text-sm font-medium text-gray-700">
+            Comment for the Responder
+          </label>
+          <div className="mt-1">
+            <textarea
+              id={`answer-review-comment-${answer.id}`}
+              rows={2}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="Required unless you accept the answer..."
+            />
+          </div>
+          <div className="mt-3 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setLocalError(null);
+              }}
+              disabled={isSaving}
+              className="inline-flex items-center px-3 py-1.5 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            {(['rejected', 'needs_clarification', 'accepted'] as AnswerReviewStatus[]).map(status => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => handleDecision(status)}
+                disabled={isSaving}
+                className={`inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md shadow-sm text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${DECISION_BUTTON_STYLES[status]}`}
+              >
+                {isSaving ? 'Saving...' : DECISION_BUTTON_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerReviewPanel;
\ No newline at end of file
@@ -0,0 +1,125 @@
+import React, { useEffect } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { PIREvent } from '../../types';
+import { truncateString } from '../../utils/formatters';
+
+interface PIRActivityTimelineProps {
+  pirId: string;
+  lastUpdatedAt?: Date;
+}
+
+// Human-readable names for the entities in the activity log
+const ENTITY_LABELS: Record<PIREvent['entityType'], string> = {
+  pir: 'the PIR',
+  question: 'a question',
+  answer: 'an answer',
+  attachment: 'an attachment'
+};
+
+const PIRActivityTimeline: React.FC<PIRActivityTimelineProps> = ({ pirId, lastUpdatedAt }) => {
+  const { pirEvents, fetchPIREvents, isLoadingEvents, eventError } = useStore();
+  
+  useEffect(() => {
+    // Reload the log whenever the PIR itself changes
+    fetchPIREvents(pirId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pirId, lastUpdatedAt?.getTime()]);
+  
+  // Describe what an event did
+  const getEventDescription = (event: PIREvent): string => {
+    const entity = ENTITY_LABELS[event.entityType];
+    
+    switch (event.action) {
+      case 'created':
+        return `added ${entity}`;
+      case 'deleted':
+        return `removed ${entity}`;
+      case 'status_changed':
+        return `changed the status from ${event.changes.status?.before} to ${event.changes.status?.after}`;
+      default:
+        return `updated ${entity}`;
+    }
+  };
+  
+  // Render a changed value as a short string
+  const formatChangeValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    if (typeof value === 'string') return truncateString(value, 80);
+    return truncateString(JSON.stringify(value), 80);
+  };
+  
+  if (isLoadingEvents) {
+    return (
+      <div className="animate-pulse space-y-4 p-4">
+        <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+        <div className="h-10 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+  
+  if (eventError) {
+    return (
+      <div className="rounded-md bg-red-50 p-4">
+        <div className="flex">
+          <div className="flex-shrink-0">
+            <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+            </svg>
+          </div>
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-red-800">Error loading activity</h3>
+            <div className="mt-2 text-sm text-red-700">{eventError}</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+  
+  return (
+    <div className="px-4 py-4 sm:px-6">
+      <div className="flex justify-end mb-3">
+        <button
+          type="button"
+          onClick={() => fetchPIREvents(pirId)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Refresh
+        </button>
+      </div>
+      
+      {pirEvents.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity has been recorded yet.</p>
+      ) : (
+        <ul className="space-y-4">
+          {pirEvents.map((event) => (
+            <li key={event.id} className="relative pl-6">
+              <span className="absolute left-0 top-1.5 h-2.5 w-2.5 rounded-full bg-indigo-400"></span>
+              <div className="text-sm text-gray-900">
+                <span className="font-medium">{event.actorName}</span> {getEventDescription(event)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {event.createdAt && format(event.createdAt, 'PPpp')}
+              </div>
+              
+              {event.action === 'updated' && Object.keys(event.changes).length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                  {Object.entries(event.changes).map(([field, change]) => (
+                    <li key={field}>
+                      <span className="font-medium">{field}:</span>{' '}
+                      <span className="line-through text-gray-400">{formatChangeValue(change.before)}</span>
+                      {' → '}
+                      <span>{formatChangeValue(change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PIRActivityTimeline;
\ No newline at end of file
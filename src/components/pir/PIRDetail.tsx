@@ -1,11 +1,50 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { format } from 'date-fns';
 import { useStore } from '../../store';
-import { PIR, PIRStatus, UserRole } from '../../types';
+import { PIR, PIRStatus, PIRTransition, UserRole, WorkflowColor } from '../../types';
+import { getAvailableTransitions, getWorkflowState } from '../../utils/pirWorkflow';
+import { hasRequiredReviewers } from '../../utils/reviewPolicy';
+import { isPIROverdue } from '../../utils/deadlines';
+import { getPIRCompleteness } from '../../utils/completeness';
+import { canReviewAnswers } from '../../utils/answerReview';
 import PIRStatusBadge from './PIRStatusBadge';
 import QuestionAnswerList from './QuestionAnswerList';
+import PIRActivityTimeline from './PIRActivityTimeline';
+import PIRReviewPanel from './PIRReviewPanel';
+import PIRProgressBar from './PIRProgressBar';
 import AttachmentSection from '../attachment/AttachmentSection';
+import CommentThread from '../comment/CommentThread';
+
+// Button colors for the action that moves a PIR into a state of each color
+const ACTION_BUTTON_STYLES: Record<WorkflowColor, string> = {
+  gray: 'bg-gray-600 hover:bg-gray-700 focus:ring-gray-500',
+  blue: 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500',
+  yellow: 'bg-yellow-600 hover:bg-yellow-700 focus:ring-yellow-500',
+  purple: 'bg-purple-600 hover:bg-purple-700 focus:ring-purple-500',
+  green: 'bg-green-600 hover:bg-green-700 focus:ring-green-500',
+  red: 'bg-red-600 hover:bg-red-700 focus:ring-red-500',
+  orange: 'bg-orange-600 hover:bg-orange-700 focus:ring-orange-500',
+  indigo: 'bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500',
+  pink: 'bg-pink-600 hover:bg-pink-700 focus:ring-pink-500',
+  teal: 'bg-teal-600 hover:bg-teal-700 focus:ring-teal-500'
+};
+
+// Labels and prompts for the input a transition can require
+const TRANSITION_INPUT_LABELS: Partial<Record<keyof PIR, { label: string; placeholder: string }>> = {
+  reviewNotes: {
+    label: 'Review Notes',
+    placeholder: 'Describe the changes the responder needs to make...'
+  },
+  holdReason: {
+    label: 'Reason for Hold',
+    placeholder: 'Explain why work on this PIR is paused...'
+  },
+  cancellationReason: {
+    label: 'Reason for Cancellation',
+    placeholder: 'Explain why this PIR is no longer needed...'
+  }
+};
 
 const PIRDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -19,18 +58,38 @@ const PIRDetail: React.FC = () => {
     isLoading,
     error,
     resetQuestionState,
-    resetAttachmentState
+    resetAttachmentState,
+    resetEventState,
+    fetchWorkflows,
+    getWorkflowForCategory,
+    duplicatePIR,
+    saveTemplateFromPIR, 
+    questions, 
+    isLoadingQuestions, 
+    answers, 
+    subscribeToComments, 
+    resetCommentState, 
+    fetchMentionCandidates
   } = useStore();
   
   const [isUpdating, setIsUpdating] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [pendingTransition, setPendingTransition] = useState<PIRTransition | null>(null);
+  const [transitionNotes, setTransitionNotes] = useState('');
+  const [showTemplateForm, setShowTemplateForm] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [includeAttachments, setIncludeAttachments] = useState(false);
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null);
   
   useEffect(() => {
     // Reset related states when component mounts or ID changes
     resetQuestionState();
     resetAttachmentState();
+    resetEventState();
+    
+    // Fetch workflow definitions and PIR data
+    fetchWorkflows();
     
-    // Fetch PIR data
     if (id) {
       fetchPIRById(id);
     }
@@ -38,37 +97,123 @@ const PIRDetail: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id]);
   
+  // Keep the discussion on this PIR, its questions and answers live while the page is open
+  useEffect(() => {
+    if (!id) return;
+    
+    const unsubscribe = subscribeToComments(id);
+    
+    return () => {
+      unsubscribe();
+      resetCommentState();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+  
+  // Comments can mention the people taking part in this PIR
+  useEffect(() => {
+    if (selectedPIR) {
+      fetchMentionCandidates(selectedPIR);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedPIR?.id, selectedPIR?.assignedResponderId, selectedPIR?.reviewerId, selectedPIR?.reviewers]);
+  
+  // Questions and answers are loaded by the question list below
+  const completeness = useMemo(() => {
+    return getPIRCompleteness(
+      questions.filter(question => question.pirId === id),
+      answers.filter(answer => answer.pirId === id)
+    );
+  }, [questions, answers, id]);
+  
+  // Submitting needs every required question answered; the server checks this again
+  const isTransitionBlocked = (transition: PIRTransition): boolean => {
+    return !!transition.requiresAnsweredQuestions && (isLoadingQuestions || completeness.missingQuestions.length > 0);
+  };
+  
   // Handle status change
-  const handleStatusChange = async (newStatus: PIRStatus) => {
+  const handleStatusChange = async (newStatus: string, additionalData: Partial<PIR> = {}) => {
     if (!id || !selectedPIR || !currentUser) return;
     
     setIsUpdating(true);
     setLocalError(null);
     
     try {
-      const additionalData: Partial<PIR> = {};
-      
-      // Add user-specific data based on status
-      switch (newStatus) {
-        case PIRStatus.REVIEWED:
-          additionalData.reviewerId = currentUser.id;
-          additionalData.reviewerName = currentUser.displayName;
-          break;
-        case PIRStatus.ACCEPTED:
-        case PIRStatus.REJECTED:
-          // Only allow if the current user is the reviewer or an admin
-          if (
-            currentUser.role !== UserRole.ADMIN && 
-            selectedPIR.reviewerId !== currentUser.id
-          ) {
-            throw new Error('You do not have permission to accept/reject this PIR');
-          }
-          break;
-        default:
-          break;
-      }
-      
       await updatePIRStatus(id, newStatus, additionalData);
+      setPendingTransition(null);
+      setTransitionNotes('');
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  // Ask for the required input first when the transition needs it
+  const handleTransitionClick = (transition: PIRTransition) => {
+    if (isTransitionBlocked(transition)) {
+      setLocalError('Please answer every required question before submitting');
+      return;
+    }
+    
+    if (transition.requiredInput?.length) {
+      setPendingTransition(transition);
+      setTransitionNotes('');
+    } else {
+      handleStatusChange(transition.to);
+    }
+  };
+  
+  // Confirm a transition that needed input
+  const handleTransitionConfirm = () => {
+    if (!pendingTransition?.requiredInput?.length) return;
+    
+    const inputField = pendingTransition.requiredInput[0];
+    
+    if (!transitionNotes.trim()) {
+      setLocalError(`Please enter the ${(TRANSITION_INPUT_LABELS[inputField]?.label || inputField).toLowerCase()}`);
+      return;
+    }
+    
+    handleStatusChange(pendingTransition.to, { [inputField]: transitionNotes } as Partial<PIR>);
+  };
+  
+  // Copy this PIR and its questions into a new draft
+  const handleDuplicate = async () => {
+    if (!id || !selectedPIR || !currentUser) return;
+    
+    setIsUpdating(true);
+    setLocalError(null);
+    
+    try {
+      const workflow = getWorkflowForCategory(selectedPIR.productCategory);
+      const newPIR = await duplicatePIR(id, currentUser, workflow.initialState);
+      navigate(`/pirs/${newPIR.id}`);
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  // Save this PIR as a reusable template
+  const handleSaveTemplate = async () => {
+    if (!selectedPIR || !currentUser) return;
+    
+    if (!templateName.trim()) {
+      setLocalError('Please enter a name for the template');
+      return;
+    }
+    
+    setIsUpdating(true);
+    setLocalError(null);
+    
+    try {
+      await saveTemplateFromPIR(selectedPIR, templateName.trim(), includeAttachments, currentUser.id);
+      setTemplateMessage(`Saved as template "${templateName.trim()}"`);
+      setShowTemplateForm(false);
+      setTemplateName('');
+      setIncludeAttachments(false);
     } catch (err) {
       setLocalError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -129,27 +274,41 @@ const PIRDetail: React.FC = () => {
     );
   }
   
+  const workflow = getWorkflowForCategory(selectedPIR.productCategory);
+  
   // Determine available actions based on current status and user role
   const canEdit = currentUser && (
     currentUser.role === UserRole.ADMIN ||
-    (currentUser.id === selectedPIR.requesterId && selectedPIR.status === PIRStatus.DRAFT)
+    (currentUser.id === selectedPIR.requesterId && selectedPIR.status === workflow.initialState)
   );
   
-  const canRequest = currentUser && 
-    selectedPIR.status === PIRStatus.DRAFT &&
-    (currentUser.role === UserRole.ADMIN || currentUser.id === selectedPIR.requesterId);
+  const availableTransitions = getAvailableTransitions(workflow, selectedPIR, currentUser);
   
-  const canSubmit = currentUser && 
-    selectedPIR.status === PIRStatus.REQUESTED &&
-    (currentUser.role === UserRole.ADMIN || currentUser.id === selectedPIR.assignedResponderId);
-    
-  const canReview = currentUser && 
-    selectedPIR.status === PIRStatus.SUBMITTED &&
-    (currentUser.role === UserRole.ADMIN || currentUser.role === UserRole.REVIEWER);
-    
-  const canAcceptReject = currentUser && 
-    selectedPIR.status === PIRStatus.REVIEWED &&
-    (currentUser.role === UserRole.ADMIN || currentUser.id === selectedPIR.reviewerId);
+  // Anyone who can request PIRs can copy this one
+  const canDuplicate = currentUser && (
+    currentUser.role === UserRole.ADMIN ||
+    currentUser.role === UserRole.REQUESTER
+  );
+  
+  const canSaveTemplate = currentUser && (
+    currentUser.role === UserRole.ADMIN ||
+    currentUser.id === selectedPIR.requesterId
+  );
+  
+  // Responders answer questions while they can hand the PIR in for review
+  const canSubmit = availableTransitions.some(transition => transition.requiresAnsweredQuestions);
+  
+  const canReview = canReviewAnswers(workflow, selectedPIR, currentUser);
+  
+  const pendingTransitionInput = pendingTransition?.requiredInput?.length
+    ? TRANSITION_INPUT_LABELS[pendingTransition.requiredInput[0]]
+    : undefined;
+  
+  // Get the button style for a transition from the color of its target state
+  const getActionButtonStyle = (transition: PIRTransition): string => {
+    const targetState = getWorkflowState(workflow, transition.to);
+    return ACTION_BUTTON_STYLES[targetState?.color || 'gray'] || ACTION_BUTTON_STYLES.gray;
+  };
   
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg">
@@ -161,7 +320,7 @@ const PIRDetail: React.FC = () => {
             {selectedPIR.productCategory} • {selectedPIR.productName}
           </p>
         </div>
-        <PIRStatusBadge status={selectedPIR.status} className="ml-2" />
+        <PIRStatusBadge status={selectedPIR.status} workflow={workflow} className="ml-2" />
       </div>
       
       {/* Error message if there was a local error */}
@@ -222,6 +381,25 @@ const PIRDetail: React.FC = () => {
             </dd>
           </div>
           
+          {selectedPIR.completionDeadline && (
+            <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+              <dt className="text-sm font-medium text-gray-500">Deadline</dt>
+              <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
+                {format(selectedPIR.completionDeadline, 'PPpp')}
+                {isPIROverdue(selectedPIR, workflow) && (
+                  <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                    Overdue
+                  </span>
+                )}
+                {selectedPIR.escalatedAt && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    Escalated {format(selectedPIR.escalatedAt, 'PPpp')}
+                  </span>
+                )}
+              </dd>
+            </div>
+          )}
+          
           {selectedPIR.submittedAt && (
             <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
               <dt className="text-sm font-medium text-gray-500">Submitted</dt>
@@ -293,9 +471,86 @@ const PIRDetail: React.FC = () => {
               </dd>
             </div>
           )}
+          
+          {selectedPIR.status === PIRStatus.ON_HOLD && selectedPIR.holdReason && (
+            <div className="bg-orange-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+              <dt className="text-sm font-medium text-gray-500">On Hold</dt>
+              <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
+                {selectedPIR.holdReason}
+                <span className="block text-xs text-gray-500">
+                  {selectedPIR.heldAt && `Since ${format(selectedPIR.heldAt, 'PPpp')} • `}
+                  Resumes to {getWorkflowState(workflow, selectedPIR.statusBeforeHold || '')?.label || selectedPIR.statusBeforeHold}
+                </span>
+              </dd>
+            </div>
+          )}
+          
+          {selectedPIR.status === PIRStatus.CANCELLED && selectedPIR.cancellationReason && (
+            <div className="bg-gray-50 px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+              <dt className="text-sm font-medium text-gray-500">Cancelled</dt>
+              <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
+                {selectedPIR.cancellationReason}
+                {selectedPIR.cancelledAt && (
+                  <span className="block text-xs text-gray-500">{format(selectedPIR.cancelledAt, 'PPpp')}</span>
+                )}
+              </dd>
+            </div>
+          )}
+          
+          {selectedPIR.revisionHistory && selectedPIR.revisionHistory.length > 0 && (
+            <div className="bg-white px-4 py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+              <dt className="text-sm font-medium text-gray-500">
+                Revision History
+                <span className="block text-xs font-normal">
+                  Current round: {selectedPIR.revisionRound || 1}
+                </span>
+              </dt>
+              <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0">
+                <ul className="space-y-3">
+                  {selectedPIR.revisionHistory.map((revision) => (
+                    <li key={revision.round} className="border-l-4 border-yellow-400 pl-3">
+                      <p className="font-medium">Round {revision.round}</p>
+                      <p className="text-xs text-gray-500">
+                        {revision.submittedAt && `Submitted ${format(revision.submittedAt, 'PPpp')} • `}
+                        {revision.reviewedAt && `Reviewed ${format(revision.reviewedAt, 'PPpp')} • `}
+                        {revision.rejectedAt && `Rejected ${format(revision.rejectedAt, 'PPpp')} • `}
+                        Returned {format(revision.returnedAt, 'PPpp')} by {revision.returnedByName}
+                      </p>
+                      <p className="mt-1 text-gray-700">{revision.reviewNotes}</p>
+                      {revision.reopenedQuestionIds && revision.reopenedQuestionIds.length > 0 && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {revision.reopenedQuestionIds.length} question{revision.reopenedQuestionIds.length === 1 ? '' : 's'} reopened
+                        </p>
+                      )}
+                      {revision.reviewerDecisions && revision.reviewerDecisions.length > 0 && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {revision.reviewerDecisions
+                            .map(reviewer => `${reviewer.displayName}: ${reviewer.decision || 'no decision'}`)
+                            .join(' • ')}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </dd>
+            </div>
+          )}
         </dl>
       </div>
       
+      {/* Required Reviewers */}
+      {hasRequiredReviewers(selectedPIR) && (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md mt-6">
+          <div className="px-4 py-5 sm:px-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Reviewers</h3>
+            <p className="mt-1 max-w-2xl text-sm text-gray-500">
+              Decisions of the reviewers who must sign off on this PIR
+            </p>
+          </div>
+          <PIRReviewPanel pir={selectedPIR} workflow={workflow} />
+        </div>
+      )}
+      
       {/* PIR Attachments */}
       <div className="bg-white shadow overflow-hidden sm:rounded-md mt-6">
         <div className="px-4 py-5 sm:px-6">
@@ -316,14 +571,65 @@ const PIRDetail: React.FC = () => {
       <div className="bg-white shadow overflow-hidden sm:rounded-md mt-6">
         <div className="px-4 py-5 sm:px-6">
           <h3 className="text-lg font-medium leading-6 text-gray-900">Questions & Answers</h3>
+          {!isLoadingQuestions && (
+            <PIRProgressBar progress={completeness} className="mt-3 max-w-xl" />
+          )}
+          {canSubmit && selectedPIR.reopenedQuestionIds && (
+            <p className="mt-3 text-sm text-yellow-700">
+              The reviewer reopened {selectedPIR.reopenedQuestionIds.length} question{selectedPIR.reopenedQuestionIds.length === 1 ? '' : 's'}.
+              Other answered questions cannot be changed in this round.
+            </p>
+          )}
         </div>
         <QuestionAnswerList 
           pirId={selectedPIR.id} 
           canAddQuestions={canEdit}
           canAnswerQuestions={canSubmit || selectedPIR.status === PIRStatus.SUBMITTED}
+          canReviewAnswers={canReview}
+        />
+      </div>
+      
+      {/* Discussion */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md mt-6">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Discussion</h3>
+          <p className="mt-1 max-w-2xl text-sm text-gray-500">
+            Comments on this PIR; questions and answers have their own threads
+          </p>
+        </div>
+        <div className="border-t border-gray-200 px-4 py-4 sm:px-6">
+          <CommentThread pirId={selectedPIR.id} targetType="pir" targetId={selectedPIR.id} />
+        </div>
+      </div>
+      
+      {/* Activity Log */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-md mt-6">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Activity</h3>
+          <p className="mt-1 max-w-2xl text-sm text-gray-500">
+            Every change made to this PIR, its questions, answers and attachments
+          </p>
+        </div>
+        <PIRActivityTimeline 
+          pirId={selectedPIR.id} 
+          lastUpdatedAt={selectedPIR.updatedAt}
         />
       </div>
       
+      {/* Required questions still to answer before the PIR can be submitted */}
+      {canSubmit && !isLoadingQuestions && completeness.missingQuestions.length > 0 && (
+        <div className="mx-4 mt-6 rounded-md bg-yellow-50 p-4 sm:mx-6">
+          <h4 className="text-sm font-medium text-yellow-800">
+            Answer {completeness.missingQuestions.length} more required question{completeness.missingQuestions.length === 1 ? '' : 's'} before submitting
+          </h4>
+          <ul className="mt-2 list-disc pl-5 space-y-1 text-sm text-yellow-700">
+            {completeness.missingQuestions.map(question => (
+              <li key={question.id}>{question.text}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
       {/* Action Buttons */}
       <div className="mt-6 flex justify-end space-x-3 px-4 py-4 sm:px-6">
         <button
@@ -333,65 +639,141 @@ const PIRDetail: React.FC = () => {
           Back
         </button>
         
-        {canEdit && (
+        {canSaveTemplate && (
           <button
-            onClick={handleEdit}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            onClick={() => setShowTemplateForm(!showTemplateForm)}
+            disabled={isUpdating}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
           >
-            Edit
+            Save as Template
           </button>
         )}
         
-        {canRequest && (
+        {canDuplicate && (
           <button
-            onClick={() => handleStatusChange(PIRStatus.REQUESTED)}
+            onClick={handleDuplicate}
             disabled={isUpdating}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
           >
-            {isUpdating ? 'Processing...' : 'Request Information'}
+            Duplicate
           </button>
         )}
         
-        {canSubmit && (
+        {canEdit && (
           <button
-            onClick={() => handleStatusChange(PIRStatus.SUBMITTED)}
-            disabled={isUpdating}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-yellow-600 hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500 disabled:opacity-50"
+            onClick={handleEdit}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
           >
-            {isUpdating ? 'Processing...' : 'Submit for Review'}
+            Edit
           </button>
         )}
         
-        {canReview && (
+        {availableTransitions.map(transition => (
           <button
-            onClick={() => handleStatusChange(PIRStatus.REVIEWED)}
-            disabled={isUpdating}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50"
+            key={transition.to}
+            onClick={() => handleTransitionClick(transition)}
+            disabled={isUpdating || !!pendingTransition || isTransitionBlocked(transition)}
+            className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${getActionButtonStyle(transition)}`}
           >
-            {isUpdating ? 'Processing...' : 'Mark as Reviewed'}
+            {isUpdating ? 'Processing...' : transition.actionLabel}
           </button>
-        )}
-        
-        {canAcceptReject && (
-          <>
+        ))}
+      </div>
+      
+      {templateMessage && (
+        <div className="mx-4 mb-4 rounded-md bg-green-50 p-4 text-sm text-green-700 sm:mx-6">
+          {templateMessage}
+        </div>
+      )}
+      
+      {/* Save as template */}
+      {showTemplateForm && (
+        <div className="px-4 pb-4 sm:px-6">
+          <label htmlFor="template-name" className="block text-sm font-medium text-gray-700">
+            Template Name <span className="text-red-500">*</span>
+          </label>
+          <div className="mt-1">
+            <input
+              type="text"
+              id="template-name"
+              name="template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="e.g. New supplier onboarding"
+            />
+          </div>
+          <div className="mt-2 flex items-center">
+            <input
+              type="checkbox"
+              id="template-attachments"
+              checked={includeAttachments}
+              onChange={(e) => setIncludeAttachments(e.target.checked)}
+              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+            />
+            <label htmlFor="template-attachments" className="ml-2 block text-sm text-gray-700">
+              Include the PIR's attachments
+            </label>
+          </div>
+          <div className="mt-3 flex justify-end space-x-3">
             <button
-              onClick={() => handleStatusChange(PIRStatus.REJECTED)}
+              type="button"
+              onClick={() => setShowTemplateForm(false)}
               disabled={isUpdating}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
             >
-              {isUpdating ? 'Processing...' : 'Reject'}
+              Cancel
             </button>
-            
             <button
-              onClick={() => handleStatusChange(PIRStatus.ACCEPTED)}
+              type="button"
+              onClick={handleSaveTemplate}
               disabled={isUpdating}
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
             >
-              {isUpdating ? 'Processing...' : 'Accept'}
+              {isUpdating ? 'Saving...' : 'Save Template'}
             </button>
-          </>
-        )}
-      </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Input required by the chosen transition */}
+      {pendingTransition && (
+        <div className="px-4 pb-4 sm:px-6">
+          <label htmlFor="transition-notes" className="block text-sm font-medium text-gray-700">
+            {pendingTransitionInput?.label} <span className="text-red-500">*</span>
+          </label>
+          <div className="mt-1">
+            <textarea
+              id="transition-notes"
+              name="transition-notes"
+              rows={4}
+              value={transitionNotes}
+              onChange={(e) => setTransitionNotes(e.target.value)}
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder={pendingTransitionInput?.placeholder}
+              required
+            />
+          </div>
+          <div className="mt-3 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setPendingTransition(null)}
+              disabled={isUpdating}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleTransitionConfirm}
+              disabled={isUpdating}
+              className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 ${getActionButtonStyle(pendingTransition)}`}
+            >
+              {isUpdating ? 'Processing...' : pendingTransition.actionLabel}
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import { useStore } from '../../store';
 import { PIR, PIRStatus, UserRole } from '../../types';
 
@@ -20,7 +21,14 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
     isLoading, 
     error,
     fetchTags,
-    tags
+    tags,
+    fetchWorkflows,
+    getWorkflowForCategory,
+    reviewerCandidates,
+    fetchReviewerCandidates,
+    templates,
+    fetchTemplates,
+    createPIRFromTemplate
   } = useStore();
   
   // Local form state
@@ -32,12 +40,17 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
     status: PIRStatus.DRAFT,
     tags: [],
     questionIds: [],
-    attachmentIds: []
+    attachmentIds: [],
+    reviewers: [],
+    approvalPolicy: { mode: 'parallel' }
   });
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const [selectedTag, setSelectedTag] = useState<string>('');
+  const [selectedReviewerId, setSelectedReviewerId] = useState<string>('');
+  const [reviewRole, setReviewRole] = useState<string>('');
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
   
   // Load PIR data when editing
   useEffect(() => {
@@ -46,6 +59,12 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
     }
     
     fetchTags(); // Load available tags
+    fetchWorkflows(); // Load workflows to pick the initial status
+    fetchReviewerCandidates(); // Load users who can be required reviewers
+    
+    if (mode === 'create') {
+      fetchTemplates(); // Load templates to start the PIR from
+    }
     
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [mode, id]);
@@ -62,7 +81,10 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
         tags: [...selectedPIR.tags],
         questionIds: [...selectedPIR.questionIds],
         attachmentIds: [...selectedPIR.attachmentIds],
-        comments: selectedPIR.comments
+        comments: selectedPIR.comments,
+        completionDeadline: selectedPIR.completionDeadline,
+        reviewers: [...(selectedPIR.reviewers || [])],
+        approvalPolicy: selectedPIR.approvalPolicy || { mode: 'parallel' }
       });
     }
   }, [selectedPIR, mode]);
@@ -73,6 +95,34 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
   
+  // Fill the form from a template; its questions are copied when the PIR is created
+  const handleTemplateSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const template = templates.find(t => t.id === e.target.value);
+    setSelectedTemplateId(e.target.value);
+    
+    if (template) {
+      setFormData(prev => ({
+        ...prev,
+        description: template.description,
+        productName: template.productName,
+        productCategory: template.productCategory,
+        tags: [...template.tags],
+        comments: template.comments
+      }));
+    }
+  };
+  
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
+  
+  // Deadlines fall due at the end of the chosen day
+  const handleDeadlineChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      completionDeadline: value ? new Date(`${value}T23:59:59`) : undefined
+    }));
+  };
+  
   // Handle tag selection
   const handleTagSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedTag(e.target.value);
@@ -97,6 +147,66 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
     }));
   };
   
+  // Add selected user as a required reviewer
+  const addReviewer = () => {
+    const user = reviewerCandidates.find(candidate => candidate.id === selectedReviewerId);
+    
+    if (user && !formData.reviewers?.some(reviewer => reviewer.userId === user.id)) {
+      setFormData(prev => ({
+        ...prev,
+        reviewers: [
+          ...(prev.reviewers || []),
+          {
+            userId: user.id,
+            displayName: user.displayName,
+            ...(reviewRole.trim() && { reviewRole: reviewRole.trim() })
+          }
+        ]
+      }));
+      setSelectedReviewerId('');
+      setReviewRole('');
+    }
+  };
+  
+  // Remove required reviewer
+  const removeReviewer = (userId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      reviewers: prev.reviewers?.filter(reviewer => reviewer.userId !== userId) || []
+    }));
+  };
+  
+  // Move a reviewer one place earlier in the sign-off order
+  const moveReviewerUp = (index: number) => {
+    if (index === 0) return;
+    
+    setFormData(prev => {
+      const reviewers = [...(prev.reviewers || [])];
+      [reviewers[index - 1], reviewers[index]] = [reviewers[index], reviewers[index - 1]];
+      return { ...prev, reviewers };
+    });
+  };
+  
+  // Handle approval policy changes
+  const handleApprovalModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const mode = e.target.value as 'parallel' | 'sequential';
+    setFormData(prev => ({
+      ...prev,
+      approvalPolicy: { ...prev.approvalPolicy, mode }
+    }));
+  };
+  
+  const handleQuorumChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const quorum = parseInt(e.target.value, 10);
+    setFormData(prev => ({
+      ...prev,
+      approvalPolicy: { 
+        mode: prev.approvalPolicy?.mode || 'parallel', 
+        ...(!isNaN(quorum) && { quorum }) 
+      }
+    }));
+  };
+  
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -112,6 +222,15 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
       return;
     }
     
+    const reviewerCount = formData.reviewers?.length || 0;
+    const quorum = formData.approvalPolicy?.quorum;
+    
+    if (formData.approvalPolicy?.mode === 'parallel' && quorum !== undefined && 
+        reviewerCount > 0 && (quorum < 1 || quorum > reviewerCount)) {
+      setFormError(`The number of required approvals must be between 1 and ${reviewerCount}`);
+      return;
+    }
+    
     setIsSubmitting(true);
     setFormError(null);
     
@@ -122,7 +241,7 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
           ...formData as Required<Omit<PIR, 'id'>>,
           requesterName: currentUser.displayName,
           requesterId: currentUser.id,
-          status: PIRStatus.DRAFT,
+          status: getWorkflowForCategory(formData.productCategory).initialState,
           createdAt: new Date(),
           updatedAt: new Date(),
           questionIds: formData.questionIds || [],
@@ -130,7 +249,9 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
           tags: formData.tags || []
         };
         
-        const createdPIR = await createPIR(newPIR);
+        const createdPIR = selectedTemplate 
+          ? await createPIRFromTemplate(newPIR, selectedTemplate) 
+          : await createPIR(newPIR);
         navigate(`/pirs/${createdPIR.id}`);
       } else if (mode === 'edit' && id) {
         // Update existing PIR
@@ -151,7 +272,8 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
   const canEdit = (mode === 'create') || 
     (mode === 'edit' && selectedPIR && currentUser && (
       currentUser.role === UserRole.ADMIN ||
-      (currentUser.id === selectedPIR.requesterId && selectedPIR.status === PIRStatus.DRAFT)
+      (currentUser.id === selectedPIR.requesterId && 
+        selectedPIR.status === getWorkflowForCategory(selectedPIR.productCategory).initialState)
     ));
   
   if (mode === 'edit' && isLoading) {
@@ -216,6 +338,34 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
             <div className="shadow overflow-hidden sm:rounded-md">
               <div className="px-4 py-5 bg-white sm:p-6">
                 <div className="grid grid-cols-6 gap-6">
+                  {mode === 'create' && templates.length > 0 && (
+                    <div className="col-span-6">
+                      <label htmlFor="template" className="block text-sm font-medium text-gray-700">
+                        Start from Template
+                      </label>
+                      <select
+                        id="template"
+                        name="template"
+                        value={selectedTemplateId}
+                        onChange={handleTemplateSelect}
+                        className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                      >
+                        <option value="">Blank PIR</option>
+                        {templates.map(template => (
+                          <option key={template.id} value={template.id}>
+                            {template.name}
+                          </option>
+                        ))}
+                      </select>
+                      {selectedTemplate && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {selectedTemplate.questions.length} questions
+                          {selectedTemplate.attachments.length > 0 && ` and ${selectedTemplate.attachments.length} attachments`} will be copied into the new PIR.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  
                   <div className="col-span-6">
                     <label htmlFor="title" className="block text-sm font-medium text-gray-700">
                       Title <span className="text-red-500">*</span>
@@ -276,6 +426,20 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
                     />
                   </div>
                   
+                  <div className="col-span-6 sm:col-span-3">
+                    <label htmlFor="completionDeadline" className="block text-sm font-medium text-gray-700">
+                      Completion Deadline
+                    </label>
+                    <input
+                      type="date"
+                      name="completionDeadline"
+                      id="completionDeadline"
+                      value={formData.completionDeadline ? format(formData.completionDeadline, 'yyyy-MM-dd') : ''}
+                      onChange={handleDeadlineChange}
+                      className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                    />
+                  </div>
+                  
                   <div className="col-span-6">
                     <label htmlFor="comments" className="block text-sm font-medium text-gray-700">
                       Comments
@@ -345,6 +509,123 @@ const PIRForm: React.FC<PIRFormProps> = ({ mode }) => {
                       ))}
                     </div>
                   </div>
+                  
+                  {/* Required Reviewers Section */}
+                  <div className="col-span-6">
+                    <label htmlFor="reviewer-select" className="block text-sm font-medium text-gray-700 mb-2">
+                      Required Reviewers
+                    </label>
+                    
+                    <div className="flex mb-2">
+                      <select
+                        id="reviewer-select"
+                        value={selectedReviewerId}
+                        onChange={(e) => setSelectedReviewerId(e.target.value)}
+                        className="focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                      >
+                        <option value="">Select a reviewer to add</option>
+                        {reviewerCandidates.map(user => (
+                          <option
+                            key={user.id}
+                            value={user.id}
+                            disabled={formData.reviewers?.some(reviewer => reviewer.userId === user.id)}
+                          >
+                            {user.displayName}{user.department ? ` (${user.department})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        id="review-role"
+                        value={reviewRole}
+                        onChange={(e) => setReviewRole(e.target.value)}
+                        placeholder="Review role, e.g. Quality"
+                        className="ml-2 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                      />
+                      <button
+                        type="button"
+                        onClick={addReviewer}
+                        disabled={!selectedReviewerId}
+                        className="ml-2 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    
+                    {formData.reviewers && formData.reviewers.length > 0 && (
+                      <>
+                        <ol className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+                          {formData.reviewers.map((reviewer, index) => (
+                            <li key={reviewer.userId} className="flex items-center justify-between px-3 py-2 text-sm">
+                              <span>
+                                <span className="text-gray-500 mr-2">{index + 1}.</span>
+                                {reviewer.displayName}
+                                {reviewer.reviewRole && (
+                                  <span className="ml-2 text-xs text-gray-500">{reviewer.reviewRole}</span>
+                                )}
+                              </span>
+                              <span className="space-x-3">
+                                {formData.approvalPolicy?.mode === 'sequential' && index > 0 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => moveReviewerUp(index)}
+                                    className="text-indigo-600 hover:text-indigo-900"
+                                  >
+                                    Move up
+                                  </button>
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() => removeReviewer(reviewer.userId)}
+                                  className="text-red-600 hover:text-red-900"
+                                >
+                                  Remove
+                                </button>
+                              </span>
+                            </li>
+                          ))}
+                        </ol>
+                        
+                        <div className="mt-3 grid grid-cols-6 gap-4">
+                          <div className="col-span-6 sm:col-span-3">
+                            <label htmlFor="approval-mode" className="block text-sm font-medium text-gray-700">
+                              Sign-off
+                            </label>
+                            <select
+                              id="approval-mode"
+                              value={formData.approvalPolicy?.mode || 'parallel'}
+                              onChange={handleApprovalModeChange}
+                              className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                            >
+                              <option value="parallel">Parallel (any order)</option>
+                              <option value="sequential">Sequential (in the order above)</option>
+                            </select>
+                          </div>
+                          
+                          {formData.approvalPolicy?.mode === 'parallel' && (
+                            <div className="col-span-6 sm:col-span-3">
+                              <label htmlFor="approval-quorum" className="block text-sm font-medium text-gray-700">
+                                Approvals required
+                              </label>
+                              <input
+                                type="number"
+                                id="approval-quorum"
+                                min={1}
+                                max={formData.reviewers.length}
+                                value={formData.approvalPolicy.quorum ?? formData.reviewers.length}
+                                onChange={handleQuorumChange}
+                                className="mt-1 focus:ring-indigo-500 focus:border-indigo-500 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md"
+                              />
+                            </div>
+                          )}
+                        </div>
+                        
+                        <p className="mt-2 text-xs text-gray-500">
+                          A rejection by any required reviewer rejects the PIR.
+                        </p>
+                      </>
+                    )}
+                  </div>
                 </div>
               </div>
               
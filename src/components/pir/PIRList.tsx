@@ -2,7 +2,10 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useStore } from '../../store';
 import { PIR, PIRStatus, UserRole } from '../../types';
+import { isPIROverdue } from '../../utils/deadlines';
+import { isSuspendedStatus } from '../../utils/pirWorkflow';
 import PIRStatusBadge from './PIRStatusBadge';
+import PIRProgressBar from './PIRProgressBar';
 import { format } from 'date-fns';
 
 interface PIRListProps {
@@ -19,9 +22,24 @@ const PIRList: React.FC<PIRListProps> = ({
   maxItems
 }) => {
   const navigate = useNavigate();
-  const { pirs, fetchPIRs, fetchPIRsByStatus, isLoading, error, currentUser } = useStore();
+  const { 
+    pirs, 
+    fetchPIRs, 
+    fetchPIRsByStatus, 
+    isLoading, 
+    error, 
+    currentUser, 
+    fetchWorkflows, 
+    getWorkflowForCategory 
+  } = useStore();
   const [filteredPIRs, setFilteredPIRs] = useState<PIR[]>([]);
   
+  useEffect(() => {
+    // Load workflow definitions for status labels and colors
+    fetchWorkflows();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  
   useEffect(() => {
     // Load PIRs based on filter
     if (filterStatus) {
@@ -44,8 +62,11 @@ const PIRList: React.FC<PIRListProps> = ({
           result = result.filter(pir => pir.requesterId === currentUser.id);
           break;
         case UserRole.RESPONDER:
-          // Responders can see PIRs assigned to them
-          result = result.filter(pir => pir.assignedResponderId === currentUser.id);
+          // Responders can see PIRs assigned to them that are not on hold or cancelled
+          result = result.filter(pir => 
+            pir.assignedResponderId === currentUser.id && 
+            !isSuspendedStatus(pir.status)
+          );
           break;
         case UserRole.REVIEWER:
           // Reviewers can see submitted PIRs or those assigned to them
@@ -70,6 +91,11 @@ const PIRList: React.FC<PIRListProps> = ({
     setFilteredPIRs(result);
   }, [pirs, currentUser, maxItems]);
   
+  // Check the deadline of a PIR against its workflow
+  const isOverdue = (pir: PIR): boolean => {
+    return isPIROverdue(pir, getWorkflowForCategory(pir.productCategory));
+  };
+  
   // Handler for clicking on a PIR
   const handlePIRClick = (pirId: string) => {
     navigate(`/pirs/${pirId}`);
@@ -149,7 +175,15 @@ const PIRList: React.FC<PIRListProps> = ({
                       </div>
                     </div>
                     <div className="ml-2 flex-shrink-0 flex">
-                      <PIRStatusBadge status={pir.status} />
+                      {isOverdue(pir) && (
+                        <span className="mr-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Overdue
+                        </span>
+                      )}
+                      <PIRStatusBadge 
+                        status={pir.status} 
+                        workflow={getWorkflowForCategory(pir.productCategory)} 
+                      />
                     </div>
                   </div>
                   <div className="mt-2 sm:flex sm:justify-between">
@@ -169,6 +203,24 @@ const PIRList: React.FC<PIRListProps> = ({
                       )}
                     </div>
                     <div className="mt-2 flex items-center text-xs text-gray-500 sm:mt-0">
+                      <div className="mr-4 w-32">
+                        {pir.progress ? (
+                          <PIRProgressBar progress={pir.progress} compact />
+                        ) : (
+                          <span>Progress pending</span>
+                        )}
+                      </div>
+                      <p className="mr-4 w-32">
+                        {pir.completionDeadline ? (
+                          <span className={isOverdue(pir) ? 'font-medium text-red-600' : ''}>
+                            Due <time dateTime={pir.completionDeadline.toISOString()}>
+                              {format(pir.completionDeadline, 'MMM d, yyyy')}
+                            </time>
+                          </span>
+                        ) : (
+                          'No deadline'
+                        )}
+                      </p>
                       <svg className="flex-shrink-0 mr-1.5 h-4 w-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                       </svg>
@@ -0,0 +1,49 @@
+import React from 'react';
+import { PIRProgress } from '../../types';
+
+interface PIRProgressBarProps {
+  progress: Omit<PIRProgress, 'updatedAt'>;
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Progress bar for how far a PIR's questions have been answered
+ */
+const PIRProgressBar: React.FC<PIRProgressBarProps> = ({ progress, compact = false, className = '' }) => {
+  const { percentComplete, requiredQuestions, answeredRequiredQuestions, totalQuestions, answeredQuestions } = progress;
+  const barColor = percentComplete === 100 ? 'bg-green-500' : 'bg-indigo-500';
+  
+  if (totalQuestions === 0) {
+    return <span className={`text-gray-500 ${className}`}>No questions</span>;
+  }
+  
+  return (
+    <div className={className}>
+      {!compact && (
+        <div className="mb-1 flex justify-between text-sm text-gray-600">
+          <span>
+            {requiredQuestions > 0
+              ? `${answeredRequiredQuestions} of ${requiredQuestions} required questions answered`
+              : `${answeredQuestions} of ${totalQuestions} questions answered`}
+          </span>
+          <span className="font-medium">{percentComplete}%</span>
+        </div>
+      )}
+      <div className="flex items-center">
+        <div
+          className={`w-full bg-gray-200 rounded-full ${compact ? 'h-1.5' : 'h-2'}`}
+          role="progressbar"
+          aria-valuenow={percentComplete}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
+          <div className={`${barColor} rounded-full ${compact ? 'h-1.5' : 'h-2'}`} style={{ width: `${percentComplete}%` }}></div>
+        </div>
+        {compact && <span className="ml-2 flex-shrink-0">{percentComplete}%</span>}
+      </div>
+    </div>
+  );
+};
+
+export default PIRProgressBar;
\ No newline at end of file
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useStore } from '../../store';
+import { PIR, ReviewDecision, WorkflowDefinition } from '../../types';
+import { isReviewState } from '../../utils/pirWorkflow';
+import {
+  canRecordReviewDecision,
+  getActiveReviewers,
+  getApprovalOutcome,
+  getRequiredApprovalCount
+} from '../../utils/reviewPolicy';
+
+interface PIRReviewPanelProps {
+  pir: PIR;
+  workflow: WorkflowDefinition;
+}
+
+// Badge colors for each reviewer decision
+const DECISION_STYLES: Record<ReviewDecision | 'pending' | 'waiting' | 'skipped', { className: string; label: string }> = {
+  approved: { className: 'bg-green-100 text-green-800', label: 'Approved' },
+  rejected: { className: 'bg-red-100 text-red-800', label: 'Rejected' },
+  pending: { className: 'bg-yellow-100 text-yellow-800', label: 'Awaiting decision' },
+  waiting: { className: 'bg-gray-100 text-gray-800', label: 'Waiting for earlier reviewers' },
+  skipped: { className: 'bg-gray-100 text-gray-800', label: 'Not needed' }
+};
+
+const PIRReviewPanel: React.FC<PIRReviewPanelProps> = ({ pir, workflow }) => {
+  const { currentUser, recordReviewDecision } = useStore();
+  
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  
+  const reviewers = pir.reviewers || [];
+  const activeReviewerIds = getActiveReviewers(pir).map(reviewer => reviewer.userId);
+  const outcome = getApprovalOutcome(pir);
+  const isSequential = pir.approvalPolicy?.mode === 'sequential';
+  
+  const canDecide = !!currentUser &&
+    isReviewState(workflow, pir.status) &&
+    canRecordReviewDecision(pir, currentUser.id);
+  
+  // Describe how the reviewer decisions combine
+  const getPolicySummary = (): string => {
+    if (isSequential) {
+      return `Sequential sign-off by all ${reviewers.length} reviewers in order`;
+    }
+    
+    return `${getRequiredApprovalCount(pir)} of ${reviewers.length} approvals required`;
+  };
+  
+  // Record the current user's decision
+  const handleDecision = async (decision: ReviewDecision) => {
+    if (decision === 'rejected' && !notes.trim()) {
+      setLocalError('Please explain why you are rejecting this PIR');
+      return;
+    }
+    
+    setIsSaving(true);
+    setLocalError(null);
+    
+    try {
+      await recordReviewDecision(pir.id, decision, notes.trim());
+      setNotes('');
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  return (
+    <div className="px-4 py-4 sm:px-6">
+      <p className="text-sm text-gray-500">
+        {getPolicySummary()}
+        {outcome && ` • ${outcome === 'approved' ? 'Approved' : 'Rejected'}`}
+      </p>
+      
+      <ul className="mt-3 divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {reviewers.map((reviewer, index) => {
+          const decisionKey = reviewer.decision || (
+            outcome ? 'skipped' : activeReviewerIds.includes(reviewer.userId) ? 'pending' : 'waiting'
+          );
+          const decisionStyle = DECISION_STYLES[decisionKey];
+          
+          return (
+            <li key={reviewer.userId} className="px-3 py-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-900">
+                  {isSequential && <span className="text-gray-500 mr-2">{index + 1}.</span>}
+                  <span className="font-medium">{reviewer.displayName}</span>
+                  {reviewer.reviewRole && (
+                    <span className="ml-2 text-xs text-gray-500">{reviewer.reviewRole}</span>
+                  )}
+                </span>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${decisionStyle.className}`}>
+                  {decisionStyle.label}
+                </span>
+              </div>
+              {reviewer.decidedAt && (
+                <p className="mt-1 text-xs text-gray-500">{format(reviewer.decidedAt, 'PPpp')}</p>
+              )}
+              {reviewer.notes && (
+                <p className="mt-1 text-gray-700">{reviewer.notes}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      
+      {canDecide && (
+        <div className="mt-4">
+          {localError && (
+            <div className="mb-3 rounded-md bg-red-50 p-3 text-sm text-red-700">{localError}</div>
+          )}
+          <label htmlFor="review-decision-notes" className="block text-sm font-medium text-gray-700">
+            Your Review Notes
+          </label>
+          <div className="mt-1">
+            <textarea
+              id="review-decision-notes"
+              name="review-decision-notes"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="Notes are required when rejecting..."
+            />
+          </div>
+          <div className="mt-3 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => handleDecision('rejected')}
+              disabled={isSaving}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Reject'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDecision('approved')}
+              disabled={isSaving}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Approve'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PIRReviewPanel;
\ No newline at end of file
@@ -1,62 +1,51 @@
 import React from 'react';
-import { PIRStatus } from '../../types';
+import { WorkflowColor, WorkflowDefinition } from '../../types';
+import { DEFAULT_WORKFLOW, getWorkflowState } from '../../utils/pirWorkflow';
 
 interface PIRStatusBadgeProps {
-  status: PIRStatus;
+  status: string;
+  workflow?: WorkflowDefinition;
   className?: string;
 }
 
-const PIRStatusBadge: React.FC<PIRStatusBadgeProps> = ({ status, className = '' }) => {
-  // Define colors and styles for each status
+// Badge colors for each workflow state color
+const BADGE_STYLES: Record<WorkflowColor, { bgColor: string; textColor: string }> = {
+  gray: { bgColor: 'bg-gray-200', textColor: 'text-gray-800' },
+  blue: { bgColor: 'bg-blue-100', textColor: 'text-blue-800' },
+  yellow: { bgColor: 'bg-yellow-100', textColor: 'text-yellow-800' },
+  purple: { bgColor: 'bg-purple-100', textColor: 'text-purple-800' },
+  green: { bgColor: 'bg-green-100', textColor: 'text-green-800' },
+  red: { bgColor: 'bg-red-100', textColor: 'text-red-800' },
+  orange: { bgColor: 'bg-orange-100', textColor: 'text-orange-800' },
+  indigo: { bgColor: 'bg-indigo-100', textColor: 'text-indigo-800' },
+  pink: { bgColor: 'bg-pink-100', textColor: 'text-pink-800' },
+  teal: { bgColor: 'bg-teal-100', textColor: 'text-teal-800' }
+};
+
+const PIRStatusBadge: React.FC<PIRStatusBadgeProps> = ({
+  status,
+  workflow = DEFAULT_WORKFLOW,
+  className = ''
+}) => {
+  // Look up the label and color of the status in the PIR's workflow
   const getStatusStyles = (): { bgColor: string; textColor: string; label: string } => {
-    switch (status) {
-      case PIRStatus.DRAFT:
-        return {
-          bgColor: 'bg-gray-200',
-          textColor: 'text-gray-800',
-          label: 'Draft'
-        };
-      case PIRStatus.REQUESTED:
-        return {
-          bgColor: 'bg-blue-100',
-          textColor: 'text-blue-800',
-          label: 'Requested'
-        };
-      case PIRStatus.SUBMITTED:
-        return {
-          bgColor: 'bg-yellow-100',
-          textColor: 'text-yellow-800',
-          label: 'Submitted'
-        };
-      case PIRStatus.REVIEWED:
-        return {
-          bgColor: 'bg-purple-100',
-          textColor: 'text-purple-800',
-          label: 'Reviewed'
-        };
-      case PIRStatus.ACCEPTED:
-        return {
-          bgColor: 'bg-green-100',
-          textColor: 'text-green-800',
-          label: 'Accepted'
-        };
-      case PIRStatus.REJECTED:
-        return {
-          bgColor: 'bg-red-100',
-          textColor: 'text-red-800',
-          label: 'Rejected'
-        };
-      default:
-        return {
-          bgColor: 'bg-gray-200',
-          textColor: 'text-gray-800',
-          label: 'Unknown'
-        };
+    const state = getWorkflowState(workflow, status);
+    
+    if (!state) {
+      return {
+        ...BADGE_STYLES.gray,
+        label: 'Unknown'
+      };
     }
+    
+    return {
+      ...(BADGE_STYLES[state.color] || BADGE_STYLES.gray),
+      label: state.label
+    };
   };
-
+  
   const { bgColor, textColor, label } = getStatusStyles();
-
+  
   return (
     <span
       className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${bgColor} ${textColor} ${className}`}
@@ -1,26 +1,70 @@
 import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useStore } from '../../store';
-import { Answer, Question } from '../../types';
+import { Answer, Question, QuestionType, UserRole } from '../../types';
 import AnswerForm from './AnswerForm';
+import AnswerHistoryDrawer from './AnswerHistoryDrawer';
+import AnswerReviewPanel from './AnswerReviewPanel';
+import AnswerReviewBadge from './AnswerReviewBadge';
 import AttachmentSection from '../attachment/AttachmentSection';
+import CommentThread from '../comment/CommentThread';
 import { format } from 'date-fns';
+import { QUESTION_TYPE_LABELS } from '../../utils/questionTypes';
+import { getChangeSinceReview } from '../../utils/answerHistory';
+import { getQuestionReviewStatus, isAnswerLocked } from '../../utils/answerReview';
 
 interface QuestionAnswerItemProps {
   question: Question;
   canAnswer: boolean;
+  canReview?: boolean;
+  lastReviewedAt?: Date | null; // Answers changed after this are marked for reviewers
 }
 
-const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAnswer }) => {
+const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ 
+  question, 
+  canAnswer, 
+  canReview = false, 
+  lastReviewedAt = null 
+}) => {
+  const navigate = useNavigate();
   const { 
     fetchAnswersByQuestionId, 
     answers, 
     isLoadingAnswers, 
     answerError,
-    fetchAttachmentsByIds
+    fetchAttachmentsByIds, 
+    currentUser, 
+    comments
   } = useStore();
   
   const [showAnswerForm, setShowAnswerForm] = useState(false);
   const [questionAnswers, setQuestionAnswers] = useState<Answer[]>([]);
+  const [editingAnswerId, setEditingAnswerId] = useState<string | null>(null);
+  const [historyAnswer, setHistoryAnswer] = useState<Answer | null>(null);
+  const [showQuestionComments, setShowQuestionComments] = useState(false);
+  const [openCommentAnswerIds, setOpenCommentAnswerIds] = useState<string[]>([]);
+  
+  // Count the comments on the question or one of its answers, without deleted placeholders
+  const getCommentCount = (targetType: 'question' | 'answer', targetId: string): number => {
+    return comments.filter(comment => 
+      comment.targetType === targetType && comment.targetId === targetId && !comment.deletedAt
+    ).length;
+  };
+  
+  const toggleAnswerComments = (answerId: string) => {
+    setOpenCommentAnswerIds(openCommentAnswerIds.includes(answerId)
+      ? openCommentAnswerIds.filter(id => id !== answerId)
+      : [...openCommentAnswerIds, answerId]);
+  };
+  
+  // Responders edit their own answers until they are accepted; files are changed through the attachments instead
+  const canEditAnswer = (answer: Answer): boolean => {
+    return canAnswer && 
+      question.type !== QuestionType.FILE && 
+      !isAnswerLocked(answer) && 
+      !!currentUser && 
+      (answer.responderId === currentUser.id || currentUser.role === UserRole.ADMIN);
+  };
   
   useEffect(() => {
     // Load answers for this question
@@ -40,6 +84,11 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
     setQuestionAnswers(filteredAnswers);
   }, [answers, question.id]);
   
+  // Only shown once a reviewer looked at the answers, or to the reviewers themselves
+  const reviewStatus = canReview || questionAnswers.some(answer => !!answer.review)
+    ? getQuestionReviewStatus(questionAnswers)
+    : null;
+  
   // Handle answer button click
   const handleAnswerClick = () => {
     setShowAnswerForm(!showAnswerForm);
@@ -60,11 +109,24 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
                   Required
                 </span>
               )}
+              {question.type && question.type !== QuestionType.TEXT && (
+                <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                  {QUESTION_TYPE_LABELS[question.type]}
+                </span>
+              )}
+              {question.libraryQuestionId && (
+                <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  Library v{question.libraryVersion}
+                </span>
+              )}
             </div>
             <div className="ml-4 text-xs text-gray-500">
               Asked on {format(question.createdAt, 'MMM d, yyyy')}
             </div>
           </div>
+          {reviewStatus && (
+            <AnswerReviewBadge status={reviewStatus} />
+          )}
         </div>
         
         {/* Question text */}
@@ -72,6 +134,27 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
           {question.text}
         </div>
         
+        {/* Guidance for responders */}
+        {question.guidance && (
+          <div className="mt-1 text-sm text-gray-500">
+            {question.guidance}
+          </div>
+        )}
+        
+        <button
+          type="button"
+          onClick={() => setShowQuestionComments(!showQuestionComments)}
+          className="mt-2 text-sm text-indigo-600 hover:text-indigo-900"
+        >
+          {showQuestionComments ? 'Hide discussion' : `Discuss this question (${getCommentCount('question', question.id)})`}
+        </button>
+        
+        {showQuestionComments && (
+          <div className="mt-3 rounded-md border border-gray-200 p-4">
+            <CommentThread pirId={question.pirId} targetType="question" targetId={question.id} />
+          </div>
+        )}
+        
         {/* Question attachments */}
         {question.attachmentIds.length > 0 && (
           <div className="mt-4">
@@ -112,7 +195,17 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
             </div>
           ) : questionAnswers.length > 0 ? (
             <div className="space-y-4">
-              {questionAnswers.map((answer) => (
+              {questionAnswers.map((answer) => {
+                const changeSinceReview = getChangeSinceReview(answer, lastReviewedAt);
+                
+                return editingAnswerId === answer.id ? (
+                  <AnswerForm 
+                    key={answer.id} 
+                    question={question} 
+                    answer={answer} 
+                    onCancel={() => setEditingAnswerId(null)} 
+                  />
+                ) : (
                 <div key={answer.id} className="bg-gray-50 p-4 rounded-md">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center">
@@ -122,6 +215,50 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
                       <div className="ml-2 text-xs text-gray-500">
                         {format(answer.createdAt, 'MMM d, yyyy')}
                       </div>
+                      {(answer.version || 1) > 1 && (
+                        <div className="ml-2 text-xs text-gray-500">
+                          • Edited {format(answer.revisedAt || answer.updatedAt, 'MMM d, yyyy')} (v{answer.version})
+                        </div>
+                      )}
+                      {answer.sourcePIRId && (
+                        <button 
+                          type="button" 
+                          onClick={() => navigate(`/pirs/${answer.sourcePIRId}`)} 
+                          className="ml-2 text-xs text-indigo-600 hover:text-indigo-900"
+                        >
+                          Reused from an earlier PIR
+                        </button>
+                      )}
+                      {changeSinceReview && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          {changeSinceReview === 'new' ? 'New since last review' : 'Changed since last review'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => toggleAnswerComments(answer.id)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Comments ({getCommentCount('answer', answer.id)})
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setHistoryAnswer(answer)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        History
+                      </button>
+                      {canEditAnswer(answer) && (
+                        <button
+                          type="button"
+                          onClick={() => setEditingAnswerId(answer.id)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Edit
+                        </button>
+                      )}
                     </div>
                   </div>
                   
@@ -140,8 +277,17 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
                       />
                     </div>
                   )}
+                  
+                  <AnswerReviewPanel answer={answer} canReview={canReview} />
+                  
+                  {openCommentAnswerIds.includes(answer.id) && (
+                    <div className="mt-3 border-t border-gray-200 pt-3">
+                      <CommentThread pirId={answer.pirId} targetType="answer" targetId={answer.id} />
+                    </div>
+                  )}
                 </div>
-              ))}
+                );
+              })}
             </div>
           ) : (
             <div className="text-sm text-gray-500">
@@ -154,8 +300,7 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
             <div className="mt-4">
               {showAnswerForm ? (
                 <AnswerForm 
-                  questionId={question.id} 
-                  pirId={question.pirId} 
+                  question={question} 
                   onCancel={() => setShowAnswerForm(false)} 
                 />
               ) : (
@@ -171,6 +316,13 @@ const QuestionAnswerItem: React.FC<QuestionAnswerItemProps> = ({ question, canAn
           )}
         </div>
       </div>
+      
+      {historyAnswer && (
+        <AnswerHistoryDrawer 
+          answer={historyAnswer} 
+          onClose={() => setHistoryAnswer(null)} 
+        />
+      )}
     </div>
   );
 };
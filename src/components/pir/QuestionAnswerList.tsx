@@ -1,44 +1,170 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useStore } from '../../store';
-import { Question } from '../../types';
+import { PIRSection, Question, QuestionType } from '../../types';
 import QuestionAnswerItem from './QuestionAnswerItem';
+import QuestionTypeFields from './QuestionTypeFields';
+import QuestionVisibilityFields from './QuestionVisibilityFields';
+import QuestionSectionForm from './QuestionSectionForm';
+import QuestionImporter from './QuestionImporter';
+import QuestionLibraryPicker from '../library/QuestionLibraryPicker';
+import { normalizeQuestionTypeSettings, validateQuestionDefinition } from '../../utils/questionTypes';
+import { 
+  describeVisibility, 
+  getVisibleQuestions, 
+  normalizeVisibility, 
+  validateVisibility 
+} from '../../utils/questionVisibility';
+import { 
+  getNextQuestionOrder, 
+  groupQuestionsBySection, 
+  moveQuestion, 
+  moveQuestionsOutOfSection, 
+  moveSection 
+} from '../../utils/questionOrder';
+import { getLastReviewedAt } from '../../utils/answerHistory';
+import { isQuestionReopened } from '../../utils/answerReview';
 
 interface QuestionAnswerListProps {
   pirId: string;
   canAddQuestions: boolean;
   canAnswerQuestions: boolean;
+  canReviewAnswers?: boolean;
 }
 
 const QuestionAnswerList: React.FC<QuestionAnswerListProps> = ({ 
   pirId, 
   canAddQuestions, 
-  canAnswerQuestions 
+  canAnswerQuestions, 
+  canReviewAnswers = false
 }) => {
   const { 
     questions, 
     fetchQuestionsByPIRId, 
     createQuestion, 
+    reorderQuestions, 
     isLoadingQuestions, 
     questionError,
+    answers, 
+    fetchAnswersByPIRId, 
+    selectedPIR, 
+    addPIRSection, 
+    updatePIRSections, 
     currentUser
   } = useStore();
   
   const [newQuestion, setNewQuestion] = useState<Partial<Omit<Question, 'id'>>>({
     text: '',
     category: '',
-    required: true
+    required: true,
+    type: QuestionType.TEXT
   });
   
   const [showQuestionForm, setShowQuestionForm] = useState(false);
+  const [showLibraryPicker, setShowLibraryPicker] = useState(false);
+  const [showImporter, setShowImporter] = useState(false);
+  const [showHiddenQuestions, setShowHiddenQuestions] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [showSectionForm, setShowSectionForm] = useState(false);
+  const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
+  const [collapsedSectionIds, setCollapsedSectionIds] = useState<string[]>([]);
+  const [draggedQuestionId, setDraggedQuestionId] = useState<string | null>(null);
+  const [layoutError, setLayoutError] = useState<string | null>(null);
   
   useEffect(() => {
     // Load questions when component mounts or pirId changes
     fetchQuestionsByPIRId(pirId);
+    // Conditional questions depend on the answers to every question of the PIR
+    fetchAnswersByPIRId(pirId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [pirId]);
   
+  // Re-evaluated whenever an answer is added, so conditional questions show and hide live
+  const visibleQuestionIds = useMemo(() => {
+    return new Set(getVisibleQuestions(questions, answers).map(question => question.id));
+  }, [questions, answers]);
+  
+  const answeredQuestionIds = useMemo(() => {
+    return new Set(answers.map(answer => answer.questionId));
+  }, [answers]);
+  
+  const sections = useMemo(() => {
+    return selectedPIR?.id === pirId ? selectedPIR.sections || [] : [];
+  }, [selectedPIR, pirId]);
+  
+  const lastReviewedAt = useMemo(() => {
+    return selectedPIR?.id === pirId ? getLastReviewedAt(selectedPIR) : null;
+  }, [selectedPIR, pirId]);
+  
+  const questionGroups = useMemo(() => {
+    return groupQuestionsBySection(questions, sections);
+  }, [questions, sections]);
+  
+  // PIRs sent back for specific answers only reopen those questions to the responder
+  const isReopened = (questionId: string): boolean => {
+    return selectedPIR?.id !== pirId || isQuestionReopened(selectedPIR, questionId, answeredQuestionIds.has(questionId));
+  };
+  
+  const hiddenQuestionCount = questions.length - visibleQuestionIds.size;
+  const canReorder = canAddQuestions;
+  
+  // Collapse or expand a section; the group without a section uses an empty key
+  const toggleSection = (sectionKey: string) => {
+    setCollapsedSectionIds(prev =>
+      prev.includes(sectionKey) ? prev.filter(key => key !== sectionKey) : [...prev, sectionKey]
+    );
+  };
+  
+  // Run a change to the sections or question order, showing any error above the list
+  const saveLayout = async (change: () => Promise<unknown>) => {
+    setLayoutError(null);
+    
+    try {
+      await change();
+    } catch (err) {
+      setLayoutError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+  
+  // Move the dragged question into a section, before the question it was dropped on or last
+  const handleDrop = (e: React.DragEvent, sectionId: string | null, beforeQuestionId?: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    
+    if (!draggedQuestionId) return;
+    
+    const placements = moveQuestion(questions, draggedQuestionId, sectionId, beforeQuestionId);
+    setDraggedQuestionId(null);
+    
+    if (placements.length > 0) {
+      saveLayout(() => reorderQuestions(placements));
+    }
+  };
+  
+  const handleDragOver = (e: React.DragEvent) => {
+    if (draggedQuestionId) e.preventDefault();
+  };
+  
+  const handleAddSection = async (values: Pick<PIRSection, 'title' | 'description'>) => {
+    await addPIRSection(pirId, values);
+    setShowSectionForm(false);
+  };
+  
+  const handleEditSection = async (sectionId: string, values: Pick<PIRSection, 'title' | 'description'>) => {
+    await updatePIRSections(pirId, sections.map(section => section.id === sectionId ? { ...section, ...values } : section));
+    setEditingSectionId(null);
+  };
+  
+  // Questions of a removed section move to the end of the questions outside any section
+  const handleDeleteSection = (section: PIRSection) => {
+    if (!window.confirm(`Delete the section "${section.title}"? Its questions are kept outside any section.`)) return;
+    
+    saveLayout(async () => {
+      await reorderQuestions(moveQuestionsOutOfSection(questions, section.id));
+      await updatePIRSections(pirId, sections.filter(s => s.id !== section.id));
+    });
+  };
+  
   // Handle form input changes
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -65,16 +191,30 @@ const QuestionAnswerList: React.FC<QuestionAnswerListProps> = ({
       return;
     }
     
+    const typeSettings = normalizeQuestionTypeSettings(newQuestion);
+    const definitionError = validateQuestionDefinition(typeSettings) || validateVisibility(newQuestion.visibility);
+    
+    if (definitionError) {
+      setFormError(definitionError);
+      return;
+    }
+    
     setIsSubmitting(true);
     setFormError(null);
     
     try {
       // Create the new question
+      const sectionId = newQuestion.sectionId || null;
+      
       await createQuestion({
         pirId,
         text: newQuestion.text,
         category: newQuestion.category,
         required: newQuestion.required ?? true,
+        ...typeSettings,
+        ...(newQuestion.visibility && { visibility: normalizeVisibility(newQuestion.visibility) }),
+        ...(sectionId && { sectionId }),
+        order: getNextQuestionOrder(questions, sectionId),
         createdAt: new Date(),
         updatedAt: new Date(),
         createdBy: currentUser.id,
@@ -85,7 +225,8 @@ const QuestionAnswerList: React.FC<QuestionAnswerListProps> = ({
       setNewQuestion({
         text: '',
         category: '',
-        required: true
+        required: true,
+        type: QuestionType.TEXT
       });
       
       // Hide the form
@@ -131,27 +272,188 @@ const QuestionAnswerList: React.FC<QuestionAnswerListProps> = ({
   
   return (
     <div className="divide-y divide-gray-200">
+      {layoutError && (
+        <div className="p-4">
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{layoutError}</div>
+        </div>
+      )}
+      
       {/* Questions and Answers List */}
-      {questions.length === 0 ? (
+      {questions.length === 0 && sections.length === 0 ? (
         <div className="p-4 text-center text-gray-500">
           No questions have been added to this PIR yet.
         </div>
       ) : (
-        <ul className="divide-y divide-gray-200">
-          {questions.map((question) => (
-            <li key={question.id} className="p-4">
-              <QuestionAnswerItem 
-                question={question} 
-                canAnswer={canAnswerQuestions} 
-              />
-            </li>
-          ))}
-        </ul>
+        questionGroups.map(({ section, questions: groupQuestions }) => {
+          const sectionKey = section?.id || '';
+          const isCollapsed = collapsedSectionIds.includes(sectionKey);
+          const applicableQuestions = groupQuestions.filter(question => visibleQuestionIds.has(question.id));
+          const answeredCount = applicableQuestions.filter(question => answeredQuestionIds.has(question.id)).length;
+          const listedQuestions = showHiddenQuestions ? groupQuestions : applicableQuestions;
+          const sectionIndex = section ? sections.findIndex(s => s.id === section.id) : -1;
+          
+          return (
+            <div 
+              key={sectionKey || 'unsectioned'} 
+              onDragOver={handleDragOver} 
+              onDrop={(e) => handleDrop(e, section?.id || null)}
+            >
+              {/* Section headers are only shown once the PIR has sections */}
+              {sections.length > 0 && (
+                <div className="px-4 py-3 bg-gray-50">
+                  {section && editingSectionId === section.id ? (
+                    <QuestionSectionForm 
+                      section={section} 
+                      onSave={(values) => handleEditSection(section.id, values)} 
+                      onCancel={() => setEditingSectionId(null)} 
+                    />
+                  ) : (
+                    <div className="flex items-start justify-between">
+                      <button
+                        type="button"
+                        onClick={() => toggleSection(sectionKey)}
+                        className="flex items-start text-left"
+                        aria-expanded={!isCollapsed}
+                      >
+                        <svg 
+                          className={`mt-0.5 h-5 w-5 text-gray-400 transform ${isCollapsed ? '' : 'rotate-90'}`} 
+                          viewBox="0 0 20 20" 
+                          fill="currentColor"
+                        >
+                          <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                        </svg>
+                        <span className="ml-2">
+                          <span className="block text-sm font-medium text-gray-900">
+                            {section ? section.title : 'General'}
+                          </span>
+                          {section?.description && (
+                            <span className="block text-sm text-gray-500">{section.description}</span>
+                          )}
+                        </span>
+                      </button>
+                      <div className="ml-4 flex flex-shrink-0 items-center space-x-3 text-sm">
+                        <span className={answeredCount === applicableQuestions.length ? 'text-green-600' : 'text-gray-500'}>
+                          {answeredCount} of {applicableQuestions.length} answered
+                        </span>
+                        {canAddQuestions && section && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => saveLayout(() => updatePIRSections(pirId, moveSection(sections, section.id, -1)))}
+                              disabled={sectionIndex === 0}
+                              className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                              title="Move section up"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => saveLayout(() => updatePIRSections(pirId, moveSection(sections, section.id, 1)))}
+                              disabled={sectionIndex === sections.length - 1}
+                              className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                              title="Move section down"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setEditingSectionId(section.id)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteSection(section)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              {!isCollapsed && (
+                listedQuestions.length === 0 ? (
+                  <div className="p-4 text-center text-sm text-gray-500">
+                    {canReorder ? 'Drag questions here to add them to this section.' : 'No questions in this section.'}
+                  </div>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {listedQuestions.map((question) => {
+                      const isHidden = !visibleQuestionIds.has(question.id);
+                      
+                      return (
+                        <li 
+                          key={question.id} 
+                          className={`p-4 ${isHidden || draggedQuestionId === question.id ? 'opacity-60' : ''}`}
+                          onDragOver={handleDragOver}
+                          onDrop={(e) => handleDrop(e, section?.id || null, question.id)}
+                        >
+                          <div className="flex">
+                            {canReorder && (
+                              <span
+                                draggable
+                                onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = 'move';
+                                  e.dataTransfer.setData('text/plain', question.id);
+                                  setDraggedQuestionId(question.id);
+                                }}
+                                onDragEnd={() => setDraggedQuestionId(null)}
+                                className="mr-3 cursor-move select-none text-gray-400 hover:text-gray-600"
+                                title="Drag to reorder"
+                              >
+                                ⋮⋮
+                              </span>
+                            )}
+                            <div className="flex-1 min-w-0">
+                              {question.visibility && (
+                                <p className="mb-2 text-xs text-gray-500">
+                                  {isHidden ? 'Hidden until ' : 'Shown because '}
+                                  {describeVisibility(question.visibility, questions)}
+                                </p>
+                              )}
+                              <QuestionAnswerItem 
+                                question={question} 
+                                canAnswer={canAnswerQuestions && !isHidden && isReopened(question.id)} 
+                                canReview={canReviewAnswers} 
+                                lastReviewedAt={lastReviewedAt} 
+                              />
+                            </div>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )
+              )}
+            </div>
+          );
+        })
+      )}
+      
+      {/* Hidden conditional questions are only listed for the people who set them up */}
+      {canAddQuestions && hiddenQuestionCount > 0 && (
+        <div className="p-4 text-center">
+          <button
+            type="button"
+            onClick={() => setShowHiddenQuestions(!showHiddenQuestions)}
+            className="text-sm text-indigo-600 hover:text-indigo-900"
+          >
+            {showHiddenQuestions 
+              ? 'Hide conditional questions that do not apply' 
+              : `Show ${hiddenQuestionCount} hidden conditional question${hiddenQuestionCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
       )}
       
-      {/* Add Question Button */}
-      {canAddQuestions && !showQuestionForm && (
-        <div className="p-4 flex justify-center">
+      {/* Add Question Buttons */}
+      {canAddQuestions && !showQuestionForm && !showLibraryPicker && !showImporter && !showSectionForm && (
+        <div className="p-4 flex justify-center space-x-3">
           <button
             type="button"
             onClick={() => setShowQuestionForm(true)}
@@ -159,9 +461,58 @@ const QuestionAnswerList: React.FC<QuestionAnswerListProps> = ({
           >
             Add Question
           </button>
+          <button
+            type="button"
+            onClick={() => setShowLibraryPicker(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Add from Library
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowImporter(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Import from File
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowSectionForm(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Add Section
+          </button>
+        </div>
+      )}
+      
+      {/* Add Section Form */}
+      {canAddQuestions && showSectionForm && (
+        <div className="p-4">
+          <h4 className="text-lg font-medium text-gray-900 mb-3">Add New Section</h4>
+          <QuestionSectionForm 
+            onSave={handleAddSection} 
+            onCancel={() => setShowSectionForm(false)} 
+          />
         </div>
       )}
       
+      {/* Question Library Picker */}
+      {canAddQuestions && showLibraryPicker && (
+        <QuestionLibraryPicker 
+          pirId={pirId} 
+          onClose={() => setShowLibraryPicker(false)} 
+        />
+      )}
+      
+      {/* Question Import */}
+      {canAddQuestions && showImporter && (
+        <QuestionImporter 
+          pirId={pirId} 
+          sections={sections} 
+          onClose={() => setShowImporter(false)} 
+        />
+      )}
+      
       {/* Add Question Form */}
       {canAddQuestions && showQuestionForm && (
         <div className="p-4">
@@ -235,6 +586,41 @@ const QuestionAnswerList: React.FC<QuestionAnswerListProps> = ({
                   </select>
                 </div>
               </div>
+              
+              {sections.length > 0 && (
+                <div className="sm:col-span-6">
+                  <label htmlFor="sectionId" className="block text-sm font-medium text-gray-700">
+                    Section
+                  </label>
+                  <div className="mt-1">
+                    <select
+                      id="sectionId"
+                      name="sectionId"
+                      value={newQuestion.sectionId || ''}
+                      onChange={handleChange}
+                      className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                    >
+                      <option value="">General</option>
+                      {sections.map(section => (
+                        <option key={section.id} value={section.id}>{section.title}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+              
+              <QuestionTypeFields 
+                idPrefix="question" 
+                value={newQuestion} 
+                onChange={(settings) => setNewQuestion(prev => ({ ...prev, ...settings }))} 
+              />
+              
+              <QuestionVisibilityFields 
+                idPrefix="question" 
+                questions={questions} 
+                value={newQuestion.visibility} 
+                onChange={(visibility) => setNewQuestion(prev => ({ ...prev, visibility }))} 
+              />
             </div>
             
             <div className="mt-6 flex justify-end space-x-3">
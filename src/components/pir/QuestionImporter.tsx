@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../../store';
+import { PIRSection } from '../../types';
+import { QUESTION_TYPE_LABELS } from '../../utils/questionTypes';
+import { 
+  getNewSectionTitles, 
+  parseQuestionImport, 
+  QUESTION_IMPORT_ACCEPT, 
+  QUESTION_IMPORT_COLUMNS, 
+  QuestionImportResult, 
+  readSpreadsheetRows
+} from '../../utils/questionImport';
+
+interface QuestionImporterProps {
+  pirId: string;
+  sections: PIRSection[];
+  onClose: () => void;
+}
+
+/**
+ * Add questions to a PIR from a CSV or Excel file, previewing every row and
+ * the problems that keep it out of the import
+ */
+const QuestionImporter: React.FC<QuestionImporterProps> = ({ pirId, sections, onClose }) => {
+  const { 
+    questions, 
+    importQuestions, 
+    addPIRSection, 
+    currentUser
+  } = useStore();
+  
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<QuestionImportResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  
+  const validRows = useMemo(() => {
+    return (result?.rows || []).filter(row => row.errors.length === 0);
+  }, [result]);
+  
+  const newSectionTitles = useMemo(() => {
+    return getNewSectionTitles(validRows, sections);
+  }, [validRows, sections]);
+  
+  // Read the chosen file and check its rows against the questions already in the PIR
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    
+    if (!file) return;
+    
+    setFileName(file.name);
+    setResult(null);
+    setLocalError(null);
+    setIsReading(true);
+    
+    try {
+      const cells = await readSpreadsheetRows(file);
+      setResult(parseQuestionImport(cells, questions.filter(question => question.pirId === pirId)));
+    } catch (err) {
+      setLocalError(err instanceof Error ? `Could not read ${file.name}: ${err.message}` : `Could not read ${file.name}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+  
+  // Add the sections the file names, then write all valid rows at once
+  const handleImport = async () => {
+    if (!currentUser) {
+      setLocalError('You must be logged in to import questions');
+      return;
+    }
+    
+    if (!result || validRows.length === 0) return;
+    
+    setIsSubmitting(true);
+    setLocalError(null);
+    
+    try {
+      let importSections = sections;
+      
+      for (const title of newSectionTitles) {
+        const updatedPIR = await addPIRSection(pirId, { title });
+        importSections = updatedPIR.sections || [];
+      }
+      
+      await importQuestions(pirId, result.rows, importSections, currentUser.id);
+      onClose();
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <div className="p-4">
+      <h4 className="text-lg font-medium text-gray-900 mb-1">Import Questions</h4>
+      <p className="text-sm text-gray-500 mb-3">
+        Upload a CSV or Excel file whose first row names the columns: {QUESTION_IMPORT_COLUMNS.join(', ')}.
+        Separate the options of choice questions with semicolons.
+      </p>
+      
+      {(localError || result?.error) && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">{localError || result?.error}</div>
+      )}
+      
+      <div className="flex items-center">
+        <label
+          htmlFor="question-import-file"
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
+        >
+          {fileName ? 'Choose Another File' : 'Choose File'}
+        </label>
+        <input
+          type="file"
+          id="question-import-file"
+          accept={QUESTION_IMPORT_ACCEPT}
+          onChange={handleFileChange}
+          disabled={isReading || isSubmitting}
+          className="sr-only"
+        />
+        {fileName && (
+          <span className="ml-3 text-sm text-gray-500 truncate">{isReading ? `Reading ${fileName}...` : fileName}</span>
+        )}
+      </div>
+      
+      {result && result.rows.length > 0 && (
+        <>
+          <p className="mt-4 text-sm text-gray-700">
+            {validRows.length} of {result.rows.length} rows can be imported.
+            {validRows.length < result.rows.length && ' Rows with problems are skipped; fix them in the file and choose it again to include them.'}
+          </p>
+          {newSectionTitles.length > 0 && (
+            <p className="mt-1 text-sm text-gray-500">
+              New sections will be added: {newSectionTitles.join(', ')}
+            </p>
+          )}
+          
+          <div className="mt-3 max-h-96 overflow-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500">Question</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500">Category</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500">Type</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500">Section</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {result.rows.map(row => (
+                  <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                    <td className="px-3 py-2 text-gray-900">
+                      {row.question.text}
+                      {!row.question.required && <span className="ml-1 text-xs text-gray-500">(optional)</span>}
+                      {row.question.options && (
+                        <span className="block text-xs text-gray-500">{row.question.options.join(' • ')}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">{row.question.category}</td>
+                    <td className="px-3 py-2 text-gray-700">{row.question.type && QUESTION_TYPE_LABELS[row.question.type]}</td>
+                    <td className="px-3 py-2 text-gray-700">{row.sectionTitle || 'General'}</td>
+                    <td className="px-3 py-2">
+                      {row.errors.length === 0 ? (
+                        <span className="text-green-600">Ready</span>
+                      ) : (
+                        <ul className="text-red-700">
+                          {row.errors.map(error => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+      
+      <div className="mt-4 flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSubmitting}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={isSubmitting || isReading || validRows.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSubmitting
+            ? 'Importing...'
+            : `Import ${validRows.length} Question${validRows.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionImporter;
\ No newline at end of file
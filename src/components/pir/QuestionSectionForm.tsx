@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { PIRSection } from '../../types';
+
+interface QuestionSectionFormProps {
+  section?: PIRSection;
+  onSave: (values: Pick<PIRSection, 'title' | 'description'>) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Form for the title and description of a question section
+ */
+const QuestionSectionForm: React.FC<QuestionSectionFormProps> = ({ section, onSave, onCancel }) => {
+  const [title, setTitle] = useState(section?.title || '');
+  const [description, setDescription] = useState(section?.description || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  
+  const idPrefix = section ? `section-${section.id}` : 'new-section';
+  
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!title.trim()) {
+      setFormError('Please enter a section title');
+      return;
+    }
+    
+    setIsSubmitting(true);
+    setFormError(null);
+    
+    try {
+      await onSave({ title: title.trim(), description: description.trim() });
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'An error occurred');
+      setIsSubmitting(false);
+    }
+  };
+  
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {formError && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{formError}</div>
+      )}
+      
+      <div>
+        <label htmlFor={`${idPrefix}-title`} className="block text-sm font-medium text-gray-700">
+          Section Title <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="text"
+          id={`${idPrefix}-title`}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          required
+        />
+      </div>
+      
+      <div>
+        <label htmlFor={`${idPrefix}-description`} className="block text-sm font-medium text-gray-700">
+          Description
+        </label>
+        <textarea
+          id={`${idPrefix}-description`}
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="mt-1 shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+        />
+      </div>
+      
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Saving...' : section ? 'Save Section' : 'Add Section'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default QuestionSectionForm;
\ No newline at end of file
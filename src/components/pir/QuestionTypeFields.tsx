@@ -0,0 +1,89 @@
+import React from 'react';
+import { Question, QuestionType } from '../../types';
+import { QUESTION_TYPE_LABELS, isChoiceType } from '../../utils/questionTypes';
+
+type QuestionTypeSettings = Pick<Question, 'type' | 'options' | 'units'>;
+
+interface QuestionTypeFieldsProps {
+  idPrefix: string;
+  value: QuestionTypeSettings;
+  onChange: (settings: QuestionTypeSettings) => void;
+}
+
+/**
+ * Form fields for a question's type and its options or units
+ */
+const QuestionTypeFields: React.FC<QuestionTypeFieldsProps> = ({ idPrefix, value, onChange }) => {
+  const type = value.type || QuestionType.TEXT;
+  
+  // Keep only the settings that apply to the new type
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newType = e.target.value as QuestionType;
+    
+    onChange({
+      type: newType,
+      ...(isChoiceType(newType) && { options: value.options || [] }),
+      ...(newType === QuestionType.NUMBER && { units: value.units || [] })
+    });
+  };
+  
+  return (
+    <>
+      <div className="sm:col-span-3">
+        <label htmlFor={`${idPrefix}-type`} className="block text-sm font-medium text-gray-700">
+          Answer Type
+        </label>
+        <div className="mt-1">
+          <select
+            id={`${idPrefix}-type`}
+            value={type}
+            onChange={handleTypeChange}
+            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+          >
+            {Object.values(QuestionType).map(questionType => (
+              <option key={questionType} value={questionType}>{QUESTION_TYPE_LABELS[questionType]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      
+      {isChoiceType(type) && (
+        <div className="sm:col-span-3">
+          <label htmlFor={`${idPrefix}-options`} className="block text-sm font-medium text-gray-700">
+            Options <span className="text-red-500">*</span>
+          </label>
+          <div className="mt-1">
+            <textarea
+              id={`${idPrefix}-options`}
+              rows={3}
+              value={(value.options || []).join('\n')}
+              onChange={(e) => onChange({ ...value, options: e.target.value.split('\n') })}
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="One option per line"
+            />
+          </div>
+        </div>
+      )}
+      
+      {type === QuestionType.NUMBER && (
+        <div className="sm:col-span-3">
+          <label htmlFor={`${idPrefix}-units`} className="block text-sm font-medium text-gray-700">
+            Units
+          </label>
+          <div className="mt-1">
+            <input
+              type="text"
+              id={`${idPrefix}-units`}
+              value={(value.units || []).join(',')}
+              onChange={(e) => onChange({ ...value, units: e.target.value.split(',') })}
+              className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+              placeholder="e.g. kg, g"
+            />
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default QuestionTypeFields;
\ No newline at end of file
@@ -0,0 +1,169 @@
+import React from 'react';
+import { Question, QuestionCondition, QuestionType, QuestionVisibility } from '../../types';
+import { getQuestionType } from '../../utils/questionTypes';
+import { CONDITION_OPERATOR_LABELS, getConditionOperators } from '../../utils/questionVisibility';
+
+interface QuestionVisibilityFieldsProps {
+  idPrefix: string;
+  questions: Question[];
+  value?: QuestionVisibility;
+  onChange: (visibility?: QuestionVisibility) => void;
+}
+
+/**
+ * Form fields for the conditions under which a question is shown
+ */
+const QuestionVisibilityFields: React.FC<QuestionVisibilityFieldsProps> = ({
+  idPrefix,
+  questions,
+  value,
+  onChange
+}) => {
+  const conditions = value?.conditions || [];
+  const match = value?.match || 'all';
+  
+  // Remove the visibility entirely when the last condition is removed
+  const setConditions = (newConditions: QuestionCondition[]) => {
+    onChange(newConditions.length > 0 ? { match, conditions: newConditions } : undefined);
+  };
+  
+  const updateCondition = (index: number, updates: Partial<QuestionCondition>) => {
+    setConditions(conditions.map((condition, i) => i === index ? { ...condition, ...updates } : condition));
+  };
+  
+  const addCondition = () => {
+    if (questions.length === 0) return;
+    setConditions([...conditions, { questionId: questions[0].id, operator: 'answered' }]);
+  };
+  
+  // Render the value control that fits the type of the question the condition is on
+  const renderValueInput = (condition: QuestionCondition, index: number) => {
+    const dependency = questions.find(question => question.id === condition.questionId);
+    
+    if (!dependency || condition.operator === 'answered') return null;
+    
+    const className = 'shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md';
+    const type = getQuestionType(dependency);
+    
+    if (type === QuestionType.YES_NO) {
+      return (
+        <select
+          value={condition.value === undefined ? '' : String(condition.value)}
+          onChange={(e) => updateCondition(index, { value: e.target.value === '' ? undefined : e.target.value === 'true' })}
+          className={className}
+        >
+          <option value="">Select an answer</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+    
+    if (type === QuestionType.SINGLE_CHOICE || type === QuestionType.MULTIPLE_CHOICE) {
+      return (
+        <select
+          value={String(condition.value ?? '')}
+          onChange={(e) => updateCondition(index, { value: e.target.value })}
+          className={className}
+        >
+          <option value="">Select an option</option>
+          {(dependency.options || []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+    
+    return (
+      <input
+        type={type === QuestionType.NUMBER ? 'number' : 'text'}
+        value={String(condition.value ?? '')}
+        onChange={(e) => updateCondition(index, {
+          value: type === QuestionType.NUMBER && e.target.value !== '' ? Number(e.target.value) : e.target.value
+        })}
+        className={className}
+      />
+    );
+  };
+  
+  return (
+    <div className="sm:col-span-6">
+      <div className="flex items-center justify-between">
+        <span className="block text-sm font-medium text-gray-700">Show this question</span>
+        {conditions.length > 1 && (
+          <select
+            id={`${idPrefix}-visibility-match`}
+            value={match}
+            onChange={(e) => onChange({ match: e.target.value as QuestionVisibility['match'], conditions })}
+            className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block sm:text-sm border-gray-300 rounded-md"
+          >
+            <option value="all">When all conditions are met</option>
+            <option value="any">When any condition is met</option>
+          </select>
+        )}
+      </div>
+      
+      {conditions.length === 0 ? (
+        <p className="mt-1 text-sm text-gray-500">Always</p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {conditions.map((condition, index) => {
+            const dependency = questions.find(question => question.id === condition.questionId);
+            const operators = dependency ? getConditionOperators(dependency) : ['answered' as const];
+            
+            return (
+              <li key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-12 items-center">
+                <div className="sm:col-span-5">
+                  <select
+                    value={condition.questionId}
+                    onChange={(e) => updateCondition(index, { questionId: e.target.value, operator: 'answered', value: undefined })}
+                    className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  >
+                    {questions.map(question => (
+                      <option key={question.id} value={question.id}>{question.text}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="sm:col-span-3">
+                  <select
+                    value={condition.operator}
+                    onChange={(e) => updateCondition(index, { operator: e.target.value as QuestionCondition['operator'] })}
+                    className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  >
+                    {operators.map(operator => (
+                      <option key={operator} value={operator}>{CONDITION_OPERATOR_LABELS[operator]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="sm:col-span-3">
+                  {renderValueInput(condition, index)}
+                </div>
+                <div className="sm:col-span-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => setConditions(conditions.filter((_, i) => i !== index))}
+                    className="text-sm text-red-600 hover:text-red-900"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      
+      {questions.length > 0 && (
+        <button
+          type="button"
+          onClick={addCondition}
+          className="mt-2 text-sm text-indigo-600 hover:text-indigo-900"
+        >
+          Add condition
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default QuestionVisibilityFields;
\ No newline at end of file
@@ -0,0 +1,68 @@
+// Answer Draft Repository for Firebase integration
+import { 
+  doc, 
+  getDoc, 
+  setDoc, 
+  deleteDoc
+} from 'firebase/firestore';
+import { db } from '../client';
+import { AnswerDraft } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId } from '../utils';
+import { getAnswerDraftId } from '../../../utils/answerDrafts';
+
+const COLLECTION_NAME = 'answerDrafts';
+
+/**
+ * Get a user's draft answer to a question, or null when there is none
+ */
+export const getAnswerDraft = async (userId: string, questionId: string): Promise<AnswerDraft | null> => {
+  try {
+    const draftDoc = await getDoc(doc(db, COLLECTION_NAME, getAnswerDraftId(userId, questionId)));
+    
+    if (!draftDoc.exists()) {
+      return null;
+    }
+    
+    return {
+      id: draftDoc.id,
+      ...convertTimestampsToDates(draftDoc.data())
+    } as AnswerDraft;
+  } catch (error) {
+    console.error(`Error getting draft answer to question ${questionId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Save a user's draft answer to a question, replacing any earlier draft
+ * 
+ * The draft keeps the time it was written on the device, so it can be compared
+ * with the copy kept in the browser.
+ */
+export const saveAnswerDraft = async (draft: Omit<AnswerDraft, 'id'>): Promise<AnswerDraft> => {
+  try {
+    const id = getAnswerDraftId(draft.userId, draft.questionId);
+    
+    await setDoc(doc(db, COLLECTION_NAME, id), {
+      ...convertDatesToTimestamps(draft),
+      updatedBy: getCurrentUserId()
+    });
+    
+    return { id, ...draft };
+  } catch (error) {
+    console.error(`Error saving draft answer to question ${draft.questionId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a user's draft answer to a question
+ */
+export const deleteAnswerDraft = async (userId: string, questionId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, COLLECTION_NAME, getAnswerDraftId(userId, questionId)));
+  } catch (error) {
+    console.error(`Error deleting draft answer to question ${questionId}:`, error);
+    throw error;
+  }
+};
\ No newline at end of file
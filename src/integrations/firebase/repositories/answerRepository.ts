@@ -6,17 +6,51 @@ import {
   getDocs, 
   query, 
   where, 
-  addDoc, 
-  updateDoc, 
   orderBy, 
   serverTimestamp, 
-  arrayUnion
+  deleteField, 
+  runTransaction, 
+  writeBatch, 
+  Timestamp
 } from 'firebase/firestore';
-import { db } from '../client';
-import { Answer } from '../../../types';
-import { convertDatesToTimestamps, convertTimestampsToDates } from '../utils';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../client';
+import { Answer, AnswerReviewStatus, AnswerVersion } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId, getCurrentUserName } from '../utils';
+import { AnswerValidationError, validateAnswer } from '../../../utils/questionTypes';
+import { isAnswerLocked, isQuestionReopened } from '../../../utils/answerReview';
+import * as questionRepository from './questionRepository';
+import * as pirRepository from './pirRepository';
 
 const COLLECTION_NAME = 'answers';
+const VERSIONS_COLLECTION_NAME = 'versions';
+
+// Fields whose changes create a new revision of an answer
+type VersionedFields = Pick<Answer, 'text' | 'value' | 'attachmentIds'>;
+
+/**
+ * Get the content fields of an answer in a fixed order, so revisions can be compared
+ */
+const getVersionedFields = (answer: VersionedFields): VersionedFields => {
+  return {
+    text: answer.text,
+    ...(answer.value !== undefined && { value: answer.value }),
+    attachmentIds: answer.attachmentIds || []
+  };
+};
+
+/**
+ * Build the revision snapshot of an answer, authored by the signed-in user
+ */
+const toVersionSnapshot = (answer: VersionedFields, version: number) => {
+  return {
+    ...convertDatesToTimestamps(getVersionedFields(answer)),
+    version,
+    createdBy: getCurrentUserId(),
+    createdByName: getCurrentUserName(),
+    createdAt: serverTimestamp()
+  };
+};
 
 /**
  * Get all answers for a specific question
@@ -111,6 +145,38 @@ export const getAnswersByResponderId = async (responderId: string): Promise<Answ
   }
 };
 
+/**
+ * Get a responder's answers to the given questions
+ */
+export const getResponderAnswersToQuestions = async (responderId: string, questionIds: string[]): Promise<Answer[]> => {
+  try {
+    const answers: Answer[] = [];
+    
+    // "in" queries take at most 10 values
+    for (let i = 0; i < questionIds.length; i += 10) {
+      const q = query(
+        collection(db, COLLECTION_NAME),
+        where('questionId', 'in', questionIds.slice(i, i + 10)),
+        where('responderId', '==', responderId)
+      );
+      
+      const querySnapshot = await getDocs(q);
+      
+      querySnapshot.forEach((doc) => {
+        answers.push({
+          id: doc.id,
+          ...convertTimestampsToDates(doc.data())
+        } as Answer);
+      });
+    }
+    
+    return answers;
+  } catch (error) {
+    console.error(`Error getting answers of responder ${responderId} to questions:`, error);
+    throw error;
+  }
+};
+
 /**
  * Get a single answer by ID
  */
@@ -136,29 +202,117 @@ export const getAnswerById = async (id: string): Promise<Answer | null> => {
 };
 
 /**
- * Create a new answer
+ * Get the revisions of an answer, newest first
  */
-export const createAnswer = async (answer: Omit<Answer, 'id'>): Promise<Answer> => {
+export const getAnswerVersions = async (id: string): Promise<AnswerVersion[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME),
+      orderBy('version', 'desc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...convertTimestampsToDates(doc.data())
+    }) as AnswerVersion);
+  } catch (error) {
+    console.error(`Error getting versions of answer ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Check an answer against its question's type before it is saved
+ */
+const assertValidAnswer = async (answer: Pick<Answer, 'questionId' | 'text' | 'value' | 'attachmentIds'>): Promise<void> => {
+  const question = await questionRepository.getQuestionById(answer.questionId);
+  
+  if (!question) {
+    throw new Error(`Question with ID ${answer.questionId} not found`);
+  }
+  
+  const validationError = validateAnswer(question, answer);
+  
+  if (validationError) {
+    throw new AnswerValidationError(validationError, answer.questionId);
+  }
+};
+
+/**
+ * Check that the responder may still work on a question, which the reviewer
+ * closes by sending the PIR back without flagging its answer
+ */
+const assertQuestionReopened = async (answer: Pick<Answer, 'pirId' | 'questionId'>, isAnswered: boolean): Promise<void> => {
+  const pir = await pirRepository.getPIRById(answer.pirId);
+  
+  if (pir && !isQuestionReopened(pir, answer.questionId, isAnswered)) {
+    throw new AnswerValidationError('The reviewer did not reopen this question, so its answer can no longer be changed', answer.questionId);
+  }
+};
+
+/**
+ * Ensure an answer may take new content: it must not be accepted, and its
+ * question must be open in the current review round
+ */
+const assertAnswerEditable = async (answer: Answer): Promise<void> => {
+  if (isAnswerLocked(answer)) {
+    throw new AnswerValidationError('This answer was accepted by the reviewer and can no longer be changed', answer.questionId);
+  }
+  
+  await assertQuestionReopened(answer, true);
+};
+
+/**
+ * Reserve an ID for a new answer, so files can be uploaded under it before
+ * the answer is saved
+ */
+export const createAnswerId = (): string => {
+  return doc(collection(db, COLLECTION_NAME)).id;
+};
+
+/**
+ * Create a new answer along with its first revision, optionally under an ID
+ * reserved with createAnswerId
+ */
+export const createAnswer = async (answer: Omit<Answer, 'id'>, id?: string): Promise<Answer> => {
   try {
     const now = new Date();
     const newAnswer = {
       ...answer,
       createdAt: now,
       updatedAt: now,
-      attachmentIds: answer.attachmentIds || []
+      attachmentIds: answer.attachmentIds || [],
+      version: 1,
+      revisedAt: now
     };
     
+    await assertValidAnswer(newAnswer);
+    
+    const existingAnswers = await getAnswersByQuestionId(newAnswer.questionId);
+    await assertQuestionReopened(newAnswer, existingAnswers.length > 0);
+    
     const answerWithTimestamps = convertDatesToTimestamps(newAnswer);
+    const answerId = id || createAnswerId();
     
-    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
+    const batch = writeBatch(db);
+    batch.set(doc(db, COLLECTION_NAME, answerId), {
       ...answerWithTimestamps,
       createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      revisedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     });
+    batch.set(
+      doc(db, COLLECTION_NAME, answerId, VERSIONS_COLLECTION_NAME, '1'),
+      toVersionSnapshot(newAnswer, 1)
+    );
+    await batch.commit();
     
     // Return the created answer with its ID
     return {
-      id: docRef.id,
+      id: answerId,
       ...newAnswer
     };
   } catch (error) {
@@ -168,7 +322,59 @@ export const createAnswer = async (answer: Omit<Answer, 'id'>): Promise<Answer>
 };
 
 /**
- * Update an existing answer
+ * Apply updates computed from the latest state of an answer in a transaction,
+ * recording a new revision when its content changes
+ */
+const reviseAnswer = async (id: string, getUpdates: (current: Answer) => Partial<Answer>): Promise<void> => {
+  const answerRef = doc(db, COLLECTION_NAME, id);
+  
+  await runTransaction(db, async (transaction) => {
+    const latestDoc = await transaction.get(answerRef);
+    
+    if (!latestDoc.exists()) {
+      throw new Error(`Answer with ID ${id} not found`);
+    }
+    
+    const current = convertTimestampsToDates(latestDoc.data()) as Answer;
+    const updates = getUpdates(current);
+    const updated = { ...current, ...updates };
+    
+    const contentChanged = JSON.stringify(getVersionedFields(updated)) !== JSON.stringify(getVersionedFields(current));
+    const currentVersion = current.version || 1;
+    const nextVersion = contentChanged ? currentVersion + 1 : currentVersion;
+    
+    // Answers saved before revisions were kept get their original content recorded first
+    if (contentChanged && !current.version) {
+      transaction.set(doc(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME, '1'), {
+        ...convertDatesToTimestamps(getVersionedFields(current)),
+        version: 1,
+        createdBy: current.responderId,
+        createdByName: current.responderName,
+        createdAt: Timestamp.fromDate(current.updatedAt || current.createdAt)
+      });
+    }
+    
+    // A revised answer awaits a new decision, so its flag does not reopen the question again
+    transaction.update(answerRef, {
+      ...convertDatesToTimestamps(updates),
+      version: nextVersion,
+      ...(contentChanged && { revisedAt: serverTimestamp() }),
+      ...(contentChanged && current.review && { review: deleteField() }),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    });
+    
+    if (contentChanged) {
+      transaction.set(
+        doc(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME, String(nextVersion)),
+        toVersionSnapshot(updated, nextVersion)
+      );
+    }
+  });
+};
+
+/**
+ * Update an existing answer, recording a new revision when its content changes
  */
 export const updateAnswer = async (id: string, updates: Partial<Answer>): Promise<Answer> => {
   try {
@@ -179,12 +385,14 @@ export const updateAnswer = async (id: string, updates: Partial<Answer>): Promis
       throw new Error(`Answer with ID ${id} not found`);
     }
     
-    const updatesWithTimestamp = {
-      ...convertDatesToTimestamps(updates),
-      updatedAt: serverTimestamp()
-    };
+    if ('value' in updates || 'text' in updates || 'attachmentIds' in updates) {
+      const currentAnswer = convertTimestampsToDates(currentDoc.data()) as Answer;
+      
+      await assertAnswerEditable(currentAnswer);
+      await assertValidAnswer({ ...currentAnswer, ...updates });
+    }
     
-    await updateDoc(answerRef, updatesWithTimestamp);
+    await reviseAnswer(id, () => updates);
     
     // Get the updated document
     const updatedDoc = await getDoc(answerRef);
@@ -201,15 +409,51 @@ export const updateAnswer = async (id: string, updates: Partial<Answer>): Promis
 };
 
 /**
- * Add an attachment ID to an answer
+ * Record the signed-in reviewer's decision on an answer
+ * 
+ * Decisions go through the reviewAnswer Cloud Function, which checks that the
+ * caller may review the PIR in its current status.
+ */
+export const reviewAnswer = async (
+  id: string, 
+  status: AnswerReviewStatus, 
+  comment: string
+): Promise<Answer> => {
+  try {
+    const recordReview = httpsCallable(functions, 'reviewAnswer');
+    await recordReview({ answerId: id, status, comment });
+    
+    // Get the updated document
+    const updatedAnswer = await getAnswerById(id);
+    
+    if (!updatedAnswer) {
+      throw new Error(`Answer with ID ${id} not found`);
+    }
+    
+    return updatedAnswer;
+  } catch (error) {
+    console.error(`Error reviewing answer ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Add an attachment ID to an answer as a new revision of it
  */
 export const addAttachmentToAnswer = async (answerId: string, attachmentId: string): Promise<void> => {
   try {
-    const answerRef = doc(db, COLLECTION_NAME, answerId);
+    const answer = await getAnswerById(answerId);
+    
+    if (!answer) {
+      throw new Error(`Answer with ID ${answerId} not found`);
+    }
+    
+    await assertAnswerEditable(answer);
     
-    await updateDoc(answerRef, {
-      attachmentIds: arrayUnion(attachmentId),
-      updatedAt: serverTimestamp()
+    // Read inside the transaction, so files added at the same time are all kept
+    await reviseAnswer(answerId, current => {
+      const attachmentIds = current.attachmentIds || [];
+      return { attachmentIds: attachmentIds.includes(attachmentId) ? attachmentIds : [...attachmentIds, attachmentId] };
     });
   } catch (error) {
     console.error(`Error adding attachment ${attachmentId} to answer ${answerId}:`, error);
@@ -6,25 +6,238 @@ import {
   getDocs, 
   query, 
   where, 
-  addDoc, 
   updateDoc, 
   deleteDoc,
   orderBy, 
-  serverTimestamp
+  serverTimestamp, 
+  collectionGroup, 
+  limit, 
+  runTransaction, 
+  writeBatch, 
+  Timestamp, 
+  deleteField
 } from 'firebase/firestore';
 import { 
   ref, 
-  uploadBytes, 
+  uploadBytesResumable, 
   getDownloadURL, 
-  deleteObject
+  deleteObject, 
+  UploadTask
 } from 'firebase/storage';
-import { db, storage } from '../client';
-import { Attachment } from '../../../types';
-import { convertDatesToTimestamps, convertTimestampsToDates } from '../utils';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions, storage } from '../client';
+import { Attachment, AttachmentVersion, PIRTemplateAttachment } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId, getCurrentUserName } from '../utils';
+import { 
+  AttachmentFileInfo, 
+  AttachmentPolicyError, 
+  getAttachmentPolicyViolation 
+} from '../../../utils/attachmentPolicy';
+import { getAttachmentPreviewPaths } from '../../../utils/attachmentPreviews';
+import { getContentHash } from '../../../utils/contentHash';
+import * as questionRepository from './questionRepository';
+import * as answerRepository from './answerRepository';
+import * as settingsRepository from './settingsRepository';
 
 const COLLECTION_NAME = 'attachments';
+const VERSIONS_COLLECTION_NAME = 'versions';
 const STORAGE_PATH = 'attachments';
 
+// Fields describing the file an attachment currently holds
+type VersionedFields = Pick<Attachment, 'fileName' | 'fileType' | 'fileSize' | 'downloadUrl' | 'uploadedBy' | 'storagePath' | 'contentHash'>;
+
+/**
+ * Get the file fields of an attachment, leaving out everything else
+ */
+const getVersionedFields = (attachment: VersionedFields): VersionedFields => {
+  return {
+    fileName: attachment.fileName,
+    fileType: attachment.fileType,
+    fileSize: attachment.fileSize,
+    downloadUrl: attachment.downloadUrl,
+    uploadedBy: attachment.uploadedBy,
+    ...(attachment.storagePath && { storagePath: attachment.storagePath }),
+    ...(attachment.contentHash && { contentHash: attachment.contentHash })
+  };
+};
+
+/**
+ * Build the version snapshot of a file uploaded by the signed-in user
+ */
+const toVersionSnapshot = (attachment: VersionedFields, version: number) => {
+  return {
+    ...getVersionedFields(attachment),
+    version,
+    uploadedByName: getCurrentUserName(),
+    uploadedAt: serverTimestamp()
+  };
+};
+
+/**
+ * Get a new path to store a file under its parent at
+ */
+const getStoragePath = (fileName: string, parentId: string, parentType: 'pir' | 'question' | 'answer'): string => {
+  return `${STORAGE_PATH}/${parentType}/${parentId}/${Date.now()}_${fileName}`;
+};
+
+/**
+ * Start storing a file under its parent in resumable chunks
+ * 
+ * The PIR is stored with the file so Cloud Functions can find it before the
+ * answer the file belongs to is saved.
+ */
+const uploadFile = (
+  file: File, 
+  parentId: string, 
+  parentType: 'pir' | 'question' | 'answer', 
+  pirId: string | null
+): UploadTask => {
+  const filePath = getStoragePath(file.name, parentId, parentType);
+  
+  return uploadBytesResumable(ref(storage, filePath), file, {
+    contentType: file.type,
+    ...(pirId && { customMetadata: { pirId } })
+  });
+};
+
+/**
+ * A file to copy: the current file of an attachment, or a file of a template
+ */
+export type StoredFileSource = 
+  | { attachmentId: string } 
+  | { templateId: string; storagePath: string };
+
+/**
+ * Where to copy a file to: a template, or a PIR, question or answer
+ */
+export type StoredFileDestination = 
+  | { templateId: string } 
+  | { parentType: 'pir' | 'question' | 'answer'; parentId: string };
+
+/**
+ * Copy a stored file through the copyStoredFile Cloud Function, which checks
+ * the caller's access to both ends, picks the new path and copies the file
+ * within the bucket instead of through the browser
+ */
+export const copyStoredFile = async (
+  source: StoredFileSource, 
+  destination: StoredFileDestination
+): Promise<{ storagePath: string; downloadUrl: string }> => {
+  const copyFile = httpsCallable<
+    { source: StoredFileSource; destination: StoredFileDestination }, 
+    { storagePath: string }
+  >(functions, 'copyStoredFile');
+  const { data: { storagePath } } = await copyFile({ source, destination });
+  
+  return { storagePath, downloadUrl: await getDownloadURL(ref(storage, storagePath)) };
+};
+
+/**
+ * Delete the previews generated for a stored file, if there are any
+ */
+const deletePreviews = async (storagePath: string): Promise<void> => {
+  const { thumbnailPath, previewPath } = getAttachmentPreviewPaths(storagePath);
+  
+  await Promise.all([thumbnailPath, previewPath].map(path =>
+    deleteObject(ref(storage, path)).catch(() => undefined)
+  ));
+};
+
+/**
+ * Find the PIR a PIR, question or answer belongs to, or null for an answer
+ * that is not saved yet
+ */
+const getParentPIRId = async (parentId: string, parentType: 'pir' | 'question' | 'answer'): Promise<string | null> => {
+  switch (parentType) {
+    case 'pir':
+      return parentId;
+    case 'question':
+      return (await questionRepository.getQuestionById(parentId))?.pirId || null;
+    default:
+      return (await answerRepository.getAnswerById(parentId))?.pirId || null;
+  }
+};
+
+/**
+ * Get the bytes stored for the attachments of a PIR and of its questions and
+ * answers, counting every version of each file
+ * 
+ * Takes any parent of the PIR, so callers need not look the PIR up first. The
+ * PIR of an answer that is not saved yet must be given, and the files already
+ * uploaded for such answers are counted through the PIR recorded with them.
+ */
+export const getPIRAttachmentUsage = async (
+  parentId: string, 
+  parentType: 'pir' | 'question' | 'answer', 
+  pirId?: string
+): Promise<number> => {
+  try {
+    const parentPIRId = pirId || await getParentPIRId(parentId, parentType);
+    
+    if (!parentPIRId) {
+      throw new Error(`No PIR found for ${parentType} ${parentId}`);
+    }
+    
+    const [questions, answers] = await Promise.all([
+      questionRepository.getQuestionsByPIRId(parentPIRId),
+      answerRepository.getAnswersByPIRId(parentPIRId)
+    ]);
+    const parentIds = [parentPIRId, ...questions.map(question => question.id), ...answers.map(answer => answer.id)];
+    const queries = [where('pirId', '==', parentPIRId)];
+    
+    // Firebase doesn't support "in" queries with more than 10 items
+    for (let i = 0; i < parentIds.length; i += 10) {
+      queries.push(where('parentId', 'in', parentIds.slice(i, i + 10)));
+    }
+    
+    // Attachments recorded with their PIR are also found through their parent
+    const countedIds = new Set<string>();
+    let usedBytes = 0;
+    
+    for (const condition of queries) {
+      const querySnapshot = await getDocs(query(collection(db, COLLECTION_NAME), condition));
+      
+      querySnapshot.forEach((doc) => {
+        const attachment = doc.data() as Attachment;
+        
+        // Files removed by the policy check no longer take up space
+        if (!countedIds.has(doc.id) && !attachment.policyViolation) {
+          usedBytes += attachment.storedSize ?? attachment.fileSize;
+        }
+        
+        countedIds.add(doc.id);
+      });
+    }
+    
+    return usedBytes;
+  } catch (error) {
+    console.error(`Error getting attachment usage for ${parentType} ${parentId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Check a file against the attachment policy before it is uploaded, or before
+ * an existing stored file is linked, which adds nothing to the PIR's total
+ */
+const assertAttachmentAllowed = async (
+  file: AttachmentFileInfo, 
+  parentId: string, 
+  parentType: 'pir' | 'question' | 'answer', 
+  addedBytes: number = file.size, 
+  pirId?: string
+): Promise<void> => {
+  const [policy, usedBytes] = await Promise.all([
+    settingsRepository.getAttachmentPolicy(),
+    getPIRAttachmentUsage(parentId, parentType, pirId)
+  ]);
+  const violation = getAttachmentPolicyViolation(file, parentType, policy, usedBytes, addedBytes);
+  
+  if (violation) {
+    throw new AttachmentPolicyError(violation);
+  }
+};
+
 /**
  * Get all attachments for a parent (PIR, Question, or Answer)
  */
@@ -129,57 +342,473 @@ export const getAttachmentsByIds = async (ids: string[]): Promise<Attachment[]>
   }
 };
 
+/**
+ * A file being uploaded as an attachment, which can be paused, resumed or
+ * cancelled until it completes
+ */
+export interface AttachmentUpload {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  result: Promise<Attachment>; // Settles once the file is stored and its record created
+}
+
+/**
+ * Create the attachment record of a stored file along with its first version
+ */
+const createAttachmentRecord = async (
+  record: Omit<Attachment, 'id' | 'uploadedAt' | 'version'>
+): Promise<Attachment> => {
+  const now = new Date();
+  const attachmentData: Omit<Attachment, 'id'> = {
+    ...record,
+    uploadedAt: now,
+    version: 1
+  };
+  
+  const attachmentWithTimestamps = convertDatesToTimestamps(attachmentData);
+  const attachmentRef = doc(collection(db, COLLECTION_NAME));
+  
+  const batch = writeBatch(db);
+  batch.set(attachmentRef, {
+    ...attachmentWithTimestamps,
+    uploadedAt: serverTimestamp(),
+    updatedBy: getCurrentUserId()
+  });
+  batch.set(
+    doc(db, COLLECTION_NAME, attachmentRef.id, VERSIONS_COLLECTION_NAME, '1'),
+    toVersionSnapshot(attachmentData, 1)
+  );
+  await batch.commit();
+  
+  return {
+    id: attachmentRef.id,
+    ...attachmentData
+  };
+};
+
+/**
+ * Start uploading a file in resumable chunks, creating its attachment record
+ * once the whole file is stored
+ * 
+ * The file is checked against the attachment policy first, and rejects with
+ * an AttachmentPolicyError if it breaks it. Progress is reported as the chunks
+ * arrive. A cancelled upload rejects with the storage/canceled error. Files of
+ * an answer that is not saved yet need the PIR the answer belongs to.
+ */
+export const startAttachmentUpload = (
+  file: File, 
+  uploadedBy: string, 
+  parentId: string, 
+  parentType: 'pir' | 'question' | 'answer', 
+  onProgress?: (bytesTransferred: number, totalBytes: number) => void, 
+  pirId?: string
+): AttachmentUpload => {
+  // The upload only starts once the policy check passes, so remember what was asked before then
+  let uploadTask: UploadTask | null = null;
+  let isPaused = false;
+  let isCancelled = false;
+  let parentPIRId: string | null = null;
+  
+  const checkFile = async (): Promise<void> => {
+    parentPIRId = pirId || await getParentPIRId(parentId, parentType);
+    await assertAttachmentAllowed(file, parentId, parentType, file.size, parentPIRId || undefined);
+  };
+  
+  const result = checkFile()
+    .then(async () => {
+      if (isCancelled) {
+        throw new Error(`Upload of ${file.name} was cancelled`);
+      }
+      
+      const task = uploadFile(file, parentId, parentType, parentPIRId);
+      uploadTask = task;
+      
+      if (isPaused) {
+        task.pause();
+      }
+      
+      if (onProgress) {
+        task.on('state_changed', snapshot => onProgress(snapshot.bytesTransferred, snapshot.totalBytes));
+      }
+      
+      // Resolve to the finished snapshot rather than the task, which is only thenable
+      await task;
+      return task.snapshot;
+    })
+    .then(async snapshot => {
+      const [downloadUrl, contentHash] = await Promise.all([
+        getDownloadURL(snapshot.ref),
+        getContentHash(file)
+      ]);
+      
+      return createAttachmentRecord({
+        fileName: file.name,
+        fileType: file.type,
+        fileSize: file.size,
+        uploadedBy,
+        parentId,
+        parentType,
+        ...(parentPIRId && { pirId: parentPIRId }),
+        downloadUrl,
+        storagePath: snapshot.ref.fullPath,
+        storedSize: file.size,
+        contentHash
+      });
+    })
+    .catch(error => {
+      console.error(`Error uploading attachment ${file.name}:`, error);
+      throw error;
+    });
+  
+  return {
+    pause: () => {
+      isPaused = true;
+      uploadTask?.pause();
+    },
+    resume: () => {
+      isPaused = false;
+      uploadTask?.resume();
+    },
+    cancel: () => {
+      isCancelled = true;
+      uploadTask?.cancel();
+    },
+    result
+  };
+};
+
 /**
  * Upload a file and create an attachment record
+ * 
+ * Files of an answer that is not saved yet need the PIR the answer belongs to.
  */
 export const uploadAttachment = async (
   file: File, 
   uploadedBy: string, 
   parentId: string, 
-  parentType: 'pir' | 'question' | 'answer'
+  parentType: 'pir' | 'question' | 'answer', 
+  pirId?: string
 ): Promise<Attachment> => {
   try {
-    // 1. Upload the file to Firebase Storage
-    const timestamp = Date.now();
-    const filePath = `${STORAGE_PATH}/${parentType}/${parentId}/${timestamp}_${file.name}`;
-    const storageRef = ref(storage, filePath);
+    return await startAttachmentUpload(file, uploadedBy, parentId, parentType, undefined, pirId).result;
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the versions of an attachment's file, newest first
+ */
+export const getAttachmentVersions = async (id: string): Promise<AttachmentVersion[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME),
+      orderBy('version', 'desc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...convertTimestampsToDates(doc.data())
+    }) as AttachmentVersion);
+  } catch (error) {
+    console.error(`Error getting versions of attachment ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Replace the file of an attachment with a new version, keeping the earlier
+ * versions and their files
+ * 
+ * The new file is checked against the attachment policy first, and counts
+ * toward the PIR's total on top of the earlier versions.
+ */
+export const uploadAttachmentVersion = async (id: string, file: File, uploadedBy: string): Promise<Attachment> => {
+  try {
+    const attachmentRef = doc(db, COLLECTION_NAME, id);
+    const currentDoc = await getDoc(attachmentRef);
+    
+    if (!currentDoc.exists()) {
+      throw new Error(`Attachment with ID ${id} not found`);
+    }
     
-    const uploadResult = await uploadBytes(storageRef, file);
-    const downloadUrl = await getDownloadURL(uploadResult.ref);
+    const { parentId, parentType, pirId } = currentDoc.data() as Attachment;
+    await assertAttachmentAllowed(file, parentId, parentType, file.size, pirId);
     
-    // 2. Create a document in Firestore with the file metadata
-    const now = new Date();
-    const attachmentData: Omit<Attachment, 'id'> = {
+    const uploadSnapshot = await uploadFile(file, parentId, parentType, pirId || await getParentPIRId(parentId, parentType));
+    const [downloadUrl, contentHash] = await Promise.all([
+      getDownloadURL(uploadSnapshot.ref),
+      getContentHash(file)
+    ]);
+    const newFile: VersionedFields = {
       fileName: file.name,
       fileType: file.type,
       fileSize: file.size,
+      downloadUrl,
       uploadedBy,
-      uploadedAt: now,
-      parentId,
-      parentType,
-      downloadUrl
+      storagePath: uploadSnapshot.ref.fullPath,
+      contentHash
     };
     
-    const attachmentWithTimestamps = convertDatesToTimestamps(attachmentData);
+    try {
+      await runTransaction(db, async (transaction) => {
+        const latestDoc = await transaction.get(attachmentRef);
+        
+        if (!latestDoc.exists()) {
+          throw new Error(`Attachment with ID ${id} not found`);
+        }
+        
+        const current = convertTimestampsToDates(latestDoc.data()) as Attachment;
+        const nextVersion = (current.version || 1) + 1;
+        
+        // Attachments uploaded before versions were kept get their original file recorded first
+        if (!current.version) {
+          transaction.set(doc(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME, '1'), {
+            ...getVersionedFields(current),
+            version: 1,
+            uploadedByName: null,
+            uploadedAt: Timestamp.fromDate(current.uploadedAt)
+          });
+        }
+        
+        transaction.update(attachmentRef, {
+          ...newFile,
+          version: nextVersion,
+          // The previews of the earlier file no longer apply; the new file gets its own
+          thumbnailPath: deleteField(),
+          previewPath: deleteField(),
+          linkedFromId: deleteField(),
+          storedSize: (current.storedSize ?? current.fileSize) + file.size,
+          uploadedAt: serverTimestamp(),
+          updatedBy: getCurrentUserId()
+        });
+        transaction.set(
+          doc(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME, String(nextVersion)),
+          toVersionSnapshot(newFile, nextVersion)
+        );
+      });
+    } catch (transactionError) {
+      // Remove the file of a version that could not be recorded
+      await deleteObject(uploadSnapshot.ref).catch(() => undefined);
+      throw transactionError;
+    }
     
-    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
-      ...attachmentWithTimestamps,
-      uploadedAt: serverTimestamp()
-    });
+    const updatedDoc = await getDoc(attachmentRef);
+    
+    return {
+      id,
+      ...convertTimestampsToDates(updatedDoc.data() || {})
+    } as Attachment;
+  } catch (error) {
+    console.error(`Error uploading a new version of attachment ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Attachments holding the same file as one about to be uploaded
+ */
+export interface AttachmentDuplicates {
+  onParent: Attachment[]; // Already attached to the parent the file is uploaded to
+  elsewhere: Attachment[]; // Uploaded by the same user to other parents, so the stored file can be linked
+}
+
+/**
+ * Find attachments whose file is identical to the given one, by SHA-256 hash
+ * 
+ * Only the user's own uploads are offered elsewhere, so files other suppliers
+ * sent are not revealed. Files removed by the policy check are left out.
+ */
+export const findDuplicateAttachments = async (
+  file: File, 
+  uploadedBy: string, 
+  parentId: string
+): Promise<AttachmentDuplicates> => {
+  try {
+    const contentHash = await getContentHash(file);
+    const [parentSnapshot, userSnapshot] = await Promise.all([
+      getDocs(query(
+        collection(db, COLLECTION_NAME),
+        where('contentHash', '==', contentHash),
+        where('parentId', '==', parentId)
+      )),
+      getDocs(query(
+        collection(db, COLLECTION_NAME),
+        where('contentHash', '==', contentHash),
+        where('uploadedBy', '==', uploadedBy),
+        orderBy('uploadedAt', 'desc'),
+        limit(10)
+      ))
+    ]);
+    
+    const toAttachments = (docs: typeof parentSnapshot.docs): Attachment[] => docs
+      .map(doc => ({
+        id: doc.id,
+        ...convertTimestampsToDates(doc.data())
+      }) as Attachment)
+      .filter(attachment => !attachment.policyViolation);
     
-    // 3. Return the created attachment with its ID
     return {
-      id: docRef.id,
-      ...attachmentData
+      onParent: toAttachments(parentSnapshot.docs),
+      elsewhere: toAttachments(userSnapshot.docs).filter(attachment => attachment.parentId !== parentId)
     };
   } catch (error) {
-    console.error('Error uploading attachment:', error);
+    console.error(`Error finding attachments identical to ${file.name}:`, error);
     throw error;
   }
 };
 
 /**
- * Delete an attachment and its file
+ * Attach the stored file of an existing attachment to another parent without
+ * storing another copy
+ * 
+ * The new attachment shares the file and its previews, so it adds nothing to
+ * the PIR's total. Uploading a new version later gives it a file of its own.
+ */
+export const linkExistingAttachment = async (
+  source: Attachment, 
+  uploadedBy: string, 
+  parentId: string, 
+  parentType: 'pir' | 'question' | 'answer'
+): Promise<Attachment> => {
+  try {
+    if (!source.storagePath || source.policyViolation) {
+      throw new Error(`The file of ${source.fileName} cannot be linked`);
+    }
+    
+    await assertAttachmentAllowed(
+      { name: source.fileName, type: source.fileType, size: source.fileSize }, 
+      parentId, 
+      parentType, 
+      0
+    );
+    
+    const pirId = await getParentPIRId(parentId, parentType);
+    
+    return await createAttachmentRecord({
+      fileName: source.fileName,
+      fileType: source.fileType,
+      fileSize: source.fileSize,
+      uploadedBy,
+      parentId,
+      parentType,
+      ...(pirId && { pirId }),
+      downloadUrl: source.downloadUrl,
+      storagePath: source.storagePath,
+      storedSize: 0,
+      linkedFromId: source.id,
+      ...(source.contentHash && { contentHash: source.contentHash }),
+      ...(source.thumbnailPath && { thumbnailPath: source.thumbnailPath }),
+      ...(source.previewPath && { previewPath: source.previewPath })
+    });
+  } catch (error) {
+    console.error(`Error linking attachment ${source.id} to ${parentType} ${parentId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Check whether a stored file is also held by another attachment, currently
+ * or as an earlier version, so deleting one attachment must keep it
+ */
+const isFileSharedWith = async (storagePath: string, attachmentId: string): Promise<boolean> => {
+  const [currentSnapshot, versionsSnapshot] = await Promise.all([
+    getDocs(query(collection(db, COLLECTION_NAME), where('storagePath', '==', storagePath))),
+    getDocs(query(collectionGroup(db, VERSIONS_COLLECTION_NAME), where('storagePath', '==', storagePath)))
+  ]);
+  
+  return currentSnapshot.docs.some(doc => doc.id !== attachmentId) ||
+    versionsSnapshot.docs.some(doc => doc.ref.parent.parent?.id !== attachmentId);
+};
+
+/**
+ * Delete a stored file and its previews
+ */
+const deleteStoredFile = async (file: Pick<Attachment, 'downloadUrl' | 'storagePath'>): Promise<void> => {
+  await deleteObject(ref(storage, file.downloadUrl));
+  
+  if (file.storagePath) {
+    await deletePreviews(file.storagePath);
+  }
+};
+
+/**
+ * Links to the previews of an attachment, or null for those not generated
+ */
+export interface AttachmentPreviewUrls {
+  thumbnailUrl: string | null;
+  previewUrl: string | null;
+}
+
+/**
+ * Get links to the previews of an attachment generated by the preview function
+ */
+export const getAttachmentPreviewUrls = async (
+  attachment: Pick<Attachment, 'id' | 'thumbnailPath' | 'previewPath'>
+): Promise<AttachmentPreviewUrls> => {
+  try {
+    const [thumbnailUrl, previewUrl] = await Promise.all([
+      attachment.thumbnailPath ? getDownloadURL(ref(storage, attachment.thumbnailPath)) : null,
+      attachment.previewPath ? getDownloadURL(ref(storage, attachment.previewPath)) : null
+    ]);
+    
+    return { thumbnailUrl, previewUrl };
+  } catch (error) {
+    console.error(`Error getting previews of attachment ${attachment.id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Copy a file of a template into a new attachment of a PIR, question or answer
+ * 
+ * The file is copied in Storage so the copy does not depend on the template,
+ * which may be deleted later. It is checked against the attachment policy of
+ * its new parent first.
+ */
+export const copyTemplateAttachment = async (
+  templateId: string, 
+  source: PIRTemplateAttachment, 
+  uploadedBy: string, 
+  parentId: string, 
+  parentType: 'pir' | 'question' | 'answer'
+): Promise<Attachment> => {
+  try {
+    await assertAttachmentAllowed(
+      { name: source.fileName, type: source.fileType, size: source.fileSize }, 
+      parentId, 
+      parentType
+    );
+    
+    const [{ storagePath, downloadUrl }, pirId] = await Promise.all([
+      copyStoredFile({ templateId, storagePath: source.storagePath }, { parentType, parentId }),
+      getParentPIRId(parentId, parentType)
+    ]);
+    
+    return await createAttachmentRecord({
+      fileName: source.fileName,
+      fileType: source.fileType,
+      fileSize: source.fileSize,
+      uploadedBy,
+      parentId,
+      parentType,
+      ...(pirId && { pirId }),
+      downloadUrl,
+      storagePath,
+      storedSize: source.fileSize
+    });
+  } catch (error) {
+    console.error(`Error copying attachment ${source.fileName}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Delete an attachment and the files of all its versions
  */
 export const deleteAttachment = async (id: string): Promise<void> => {
   try {
@@ -191,17 +820,37 @@ export const deleteAttachment = async (id: string): Promise<void> => {
       throw new Error(`Attachment with ID ${id} not found`);
     }
     
-    const attachmentData = attachmentSnap.data();
+    const attachmentData = attachmentSnap.data() as Attachment;
     
-    // 2. Delete the file from Firebase Storage if it exists
-    try {
-      const storageRef = ref(storage, attachmentData.downloadUrl);
-      await deleteObject(storageRef);
-    } catch (storageError) {
-      console.warn('Error deleting file from storage, continuing with document deletion:', storageError);
+    // 2. Find the files of the attachment and its earlier versions that no other attachment holds
+    const versionsSnapshot = await getDocs(collection(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME));
+    const files = [
+      attachmentData,
+      ...versionsSnapshot.docs
+        .map(versionDoc => versionDoc.data() as AttachmentVersion)
+        .filter(version => version.downloadUrl !== attachmentData.downloadUrl)
+    ];
+    
+    // A failed check stops the delete, so no file is orphaned or removed from under another attachment
+    const isShared = await Promise.all(files.map(file => 
+      file.storagePath ? isFileSharedWith(file.storagePath, id) : Promise.resolve(false)
+    ));
+    
+    // Record who is deleting the attachment for the activity log
+    await updateDoc(attachmentRef, { updatedBy: getCurrentUserId() });
+    
+    // 3. Delete the files from Firebase Storage
+    for (let index = 0; index < files.length; index++) {
+      if (isShared[index]) continue;
+      
+      try {
+        await deleteStoredFile(files[index]);
+      } catch (storageError) {
+        console.warn('Error deleting file from storage, continuing with document deletion:', storageError);
+      }
     }
     
-    // 3. Delete the document from Firestore
+    // 4. Delete the document from Firestore; the onAttachmentDelete function removes its versions
     await deleteDoc(attachmentRef);
   } catch (error) {
     console.error(`Error deleting attachment ${id}:`, error);
@@ -0,0 +1,166 @@
+// PIR Discussion Comment Repository for Firebase integration
+import { 
+  collection, 
+  doc, 
+  getDoc, 
+  getDocs, 
+  query, 
+  where, 
+  orderBy, 
+  limit, 
+  addDoc, 
+  updateDoc, 
+  deleteDoc, 
+  onSnapshot, 
+  serverTimestamp, 
+  Unsubscribe
+} from 'firebase/firestore';
+import { db } from '../client';
+import { CommentMention, PIRComment } from '../../../types';
+import { convertTimestampsToDates, getCurrentUserId } from '../utils';
+
+const PARENT_COLLECTION_NAME = 'pirs';
+const COLLECTION_NAME = 'comments';
+
+/**
+ * Load a comment and check that the signed-in user wrote it
+ */
+const getOwnComment = async (pirId: string, id: string) => {
+  const commentRef = doc(db, PARENT_COLLECTION_NAME, pirId, COLLECTION_NAME, id);
+  const commentDoc = await getDoc(commentRef);
+  
+  if (!commentDoc.exists()) {
+    throw new Error(`Comment with ID ${id} not found`);
+  }
+  
+  if (commentDoc.data().authorId !== getCurrentUserId()) {
+    throw new Error('Only the author can change this comment');
+  }
+  
+  return commentRef;
+};
+
+/**
+ * Listen to the comments of a PIR, oldest first
+ * 
+ * The callback runs with every comment of the PIR, its questions and its
+ * answers whenever one is added, edited or deleted. Returns the function that
+ * stops listening.
+ */
+export const subscribeToPIRComments = (
+  pirId: string, 
+  onChange: (comments: PIRComment[]) => void, 
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, PARENT_COLLECTION_NAME, pirId, COLLECTION_NAME),
+    orderBy('createdAt', 'asc')
+  );
+  
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      const comments = querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        // Comments saved on this device have no server time yet
+        ...convertTimestampsToDates(doc.data({ serverTimestamps: 'estimate' }))
+      }) as PIRComment);
+      
+      onChange(comments);
+    },
+    (error) => {
+      console.error(`Error listening to comments of PIR ${pirId}:`, error);
+      onError(error);
+    }
+  );
+};
+
+/**
+ * Create a new comment or reply
+ */
+export const createComment = async (
+  comment: Omit<PIRComment, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<PIRComment> => {
+  try {
+    const { parentId, ...fields } = comment;
+    const commentData = {
+      ...fields,
+      ...(parentId && { parentId }),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    };
+    
+    const docRef = await addDoc(collection(db, PARENT_COLLECTION_NAME, comment.pirId, COLLECTION_NAME), commentData);
+    const now = new Date();
+    
+    return {
+      ...comment,
+      id: docRef.id,
+      createdAt: now,
+      updatedAt: now
+    };
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    throw error;
+  }
+};
+
+/**
+ * Change the text of the signed-in user's comment
+ */
+export const updateComment = async (
+  pirId: string, 
+  id: string, 
+  text: string, 
+  mentions: CommentMention[]
+): Promise<void> => {
+  try {
+    const commentRef = await getOwnComment(pirId, id);
+    
+    await updateDoc(commentRef, {
+      text,
+      mentions,
+      editedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    });
+  } catch (error) {
+    console.error(`Error updating comment ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Delete the signed-in user's comment
+ * 
+ * Comments with replies are blanked instead, so the rest of the thread keeps
+ * its context.
+ */
+export const deleteComment = async (pirId: string, id: string): Promise<void> => {
+  try {
+    const commentRef = await getOwnComment(pirId, id);
+    
+    const repliesSnapshot = await getDocs(query(
+      collection(db, PARENT_COLLECTION_NAME, pirId, COLLECTION_NAME),
+      where('parentId', '==', id),
+      limit(1)
+    ));
+    
+    if (repliesSnapshot.empty) {
+      await deleteDoc(commentRef);
+      return;
+    }
+    
+    await updateDoc(commentRef, {
+      text: '',
+      mentions: [],
+      deletedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    });
+  } catch (error) {
+    console.error(`Error deleting comment ${id}:`, error);
+    throw error;
+  }
+};
\ No newline at end of file
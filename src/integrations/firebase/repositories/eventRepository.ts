@@ -0,0 +1,46 @@
+// PIR Activity Event Repository for Firebase integration
+import { 
+  collection, 
+  getDocs, 
+  query, 
+  orderBy
+} from 'firebase/firestore';
+import { db } from '../client';
+import { PIREvent } from '../../../types';
+import { convertTimestampsToDates } from '../utils';
+
+const PARENT_COLLECTION_NAME = 'pirs';
+const COLLECTION_NAME = 'events';
+
+/**
+ * Get the activity log of a PIR, newest first
+ * 
+ * Events are written by Cloud Functions only; the client can read them but
+ * never creates or changes them.
+ */
+export const getPIREvents = async (pirId: string): Promise<PIREvent[]> => {
+  try {
+    const q = query(
+      collection(db, PARENT_COLLECTION_NAME, pirId, COLLECTION_NAME),
+      orderBy('createdAt', 'desc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    const events: PIREvent[] = [];
+    
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      const eventWithId = {
+        id: doc.id,
+        ...convertTimestampsToDates(data)
+      } as PIREvent;
+      
+      events.push(eventWithId);
+    });
+    
+    return events;
+  } catch (error) {
+    console.error(`Error getting activity for PIR ${pirId}:`, error);
+    throw error;
+  }
+};
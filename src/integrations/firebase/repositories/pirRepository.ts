@@ -12,11 +12,17 @@ import {
   serverTimestamp, 
   DocumentReference,
   DocumentData,
-  Timestamp
+  Timestamp, 
+  writeBatch, 
+  WriteBatch
 } from 'firebase/firestore';
-import { db } from '../client';
-import { PIR, PIRStatus } from '../../../types';
-import { convertDatesToTimestamps, convertTimestampsToDates } from '../utils';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../client';
+import { PIR, PIRStatus, PIRTemplateQuestion, Question, ReviewDecision } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId, MAX_BATCH_WRITES } from '../utils';
+import * as questionRepository from './questionRepository';
+import { toTemplateQuestion } from '../../../utils/questionLibrary';
+import { remapVisibility } from '../../../utils/questionVisibility';
 
 const COLLECTION_NAME = 'pirs';
 
@@ -218,7 +224,8 @@ export const createPIR = async (pir: Omit<PIR, 'id'>): Promise<PIR> => {
     const docRef = await addDoc(collection(db, COLLECTION_NAME), {
       ...pirWithTimestamps,
       createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     });
     
     return {
@@ -231,8 +238,70 @@ export const createPIR = async (pir: Omit<PIR, 'id'>): Promise<PIR> => {
   }
 };
 
+/**
+ * Create a new PIR together with copies of the given questions
+ */
+export const createPIRWithQuestions = async (
+  pir: Omit<PIR, 'id'>, 
+  questions: PIRTemplateQuestion[]
+): Promise<PIR> => {
+  try {
+    const createdPIR = await createPIR({ ...pir, questionIds: [] });
+    
+    const createdQuestions = await questionRepository.createMultipleQuestions(
+      questions.map(question => ({
+        // Visibility is set below, once the questions it refers to exist
+        ...toTemplateQuestion({ ...question, sourceId: undefined, visibility: undefined }),
+        pirId: createdPIR.id,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy: pir.requesterId,
+        attachmentIds: []
+      }))
+    );
+    
+    const questionIds = createdQuestions.map(question => question.id);
+    
+    const questionIdMap = new Map<string, string>();
+    questions.forEach((question, index) => {
+      if (question.sourceId) questionIdMap.set(question.sourceId, questionIds[index]);
+    });
+    
+    for (let index = 0; index < questions.length; index++) {
+      const { visibility: sourceVisibility } = questions[index];
+      const visibility = sourceVisibility && remapVisibility(sourceVisibility, questionIdMap);
+      
+      if (visibility) {
+        await questionRepository.updateQuestion(questionIds[index], { visibility });
+      }
+    }
+    
+    if (questionIds.length > 0) {
+      await updateDoc(doc(db, COLLECTION_NAME, createdPIR.id), {
+        questionIds,
+        updatedAt: serverTimestamp(),
+        updatedBy: getCurrentUserId()
+      });
+    }
+    
+    return { ...createdPIR, questionIds };
+  } catch (error) {
+    console.error('Error creating PIR with questions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reserve an ID for a new section of a PIR
+ */
+export const createSectionId = (): string => {
+  return doc(collection(db, COLLECTION_NAME)).id;
+};
+
 /**
  * Update an existing PIR
+ * 
+ * The status is never written here; use updatePIRStatus to change it.
  */
 export const updatePIR = async (id: string, updates: Partial<PIR>): Promise<PIR> => {
   try {
@@ -243,9 +312,12 @@ export const updatePIR = async (id: string, updates: Partial<PIR>): Promise<PIR>
       throw new Error(`PIR with ID ${id} not found`);
     }
     
+    const { status, ...fieldUpdates } = updates;
+    
     const updatesWithTimestamp = {
-      ...convertDatesToTimestamps(updates),
-      updatedAt: serverTimestamp()
+      ...convertDatesToTimestamps(fieldUpdates),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     };
     
     await updateDoc(pirRef, updatesWithTimestamp);
@@ -266,74 +338,120 @@ export const updatePIR = async (id: string, updates: Partial<PIR>): Promise<PIR>
 
 /**
  * Update PIR status with timestamp tracking
+ * 
+ * Status changes go through the transitionPIR Cloud Function, which checks the
+ * caller's permissions and the transition preconditions on the server.
  */
 export const updatePIRStatus = async (
   id: string, 
-  status: PIRStatus, 
+  status: string, 
   additionalData: Partial<PIR> = {}
 ): Promise<PIR> => {
   try {
-    const pirRef = doc(db, COLLECTION_NAME, id);
-    const currentDoc = await getDoc(pirRef);
+    const transitionPIR = httpsCallable(functions, 'transitionPIR');
+    await transitionPIR({ pirId: id, status, ...additionalData });
     
-    if (!currentDoc.exists()) {
+    // Get the updated document
+    const updatedPIR = await getPIRById(id);
+    
+    if (!updatedPIR) {
       throw new Error(`PIR with ID ${id} not found`);
     }
     
-    const now = new Date();
-    const updates: Record<string, any> = {
-      status,
+    return updatedPIR;
+  } catch (error) {
+    console.error(`Error updating PIR status ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Record the signed-in reviewer's decision on a PIR
+ * 
+ * Decisions go through the recordReviewDecision Cloud Function, which applies
+ * the PIR's approval policy and moves the PIR on once it is satisfied.
+ */
+export const recordReviewDecision = async (
+  id: string, 
+  decision: ReviewDecision, 
+  notes: string
+): Promise<PIR> => {
+  try {
+    const recordDecision = httpsCallable(functions, 'recordReviewDecision');
+    await recordDecision({ pirId: id, decision, notes });
+    
+    // Get the updated document
+    const updatedPIR = await getPIRById(id);
+    
+    if (!updatedPIR) {
+      throw new Error(`PIR with ID ${id} not found`);
+    }
+    
+    return updatedPIR;
+  } catch (error) {
+    console.error(`Error recording review decision on PIR ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Add a question ID to a PIR, as part of the given batch when there is one
+ */
+export const addQuestionToPIR = async (pirId: string, questionId: string, batch?: WriteBatch): Promise<void> => {
+  try {
+    const pirRef = doc(db, COLLECTION_NAME, pirId);
+    const updates = {
+      questionIds: arrayUnion(questionId),
       updatedAt: serverTimestamp(),
-      ...additionalData
+      updatedBy: getCurrentUserId()
     };
     
-    // Add status-specific timestamp
-    switch (status) {
-      case PIRStatus.SUBMITTED:
-        updates.submittedAt = serverTimestamp();
-        break;
-      case PIRStatus.REVIEWED:
-        updates.reviewedAt = serverTimestamp();
-        break;
-      case PIRStatus.ACCEPTED:
-        updates.acceptedAt = serverTimestamp();
-        break;
-      case PIRStatus.REJECTED:
-        updates.rejectedAt = serverTimestamp();
-        break;
-      default:
-        break;
+    if (batch) {
+      batch.update(pirRef, updates);
+      return;
     }
     
     await updateDoc(pirRef, updates);
-    
-    // Get the updated document
-    const updatedDoc = await getDoc(pirRef);
-    const updatedData = updatedDoc.data();
-    
-    return {
-      id,
-      ...convertTimestampsToDates(updatedData)
-    } as PIR;
   } catch (error) {
-    console.error(`Error updating PIR status ${id}:`, error);
+    console.error(`Error adding question ${questionId} to PIR ${pirId}:`, error);
     throw error;
   }
 };
 
 /**
- * Add a question ID to a PIR
+ * Create new questions and add them to a PIR
+ * 
+ * Each batch writes some of the questions together with their link to the
+ * PIR, so a failure part way leaves only complete questions added.
  */
-export const addQuestionToPIR = async (pirId: string, questionId: string): Promise<void> => {
+export const addNewQuestionsToPIR = async (
+  pirId: string, 
+  questions: Array<Omit<Question, 'id'>>
+): Promise<Question[]> => {
   try {
-    const pirRef = doc(db, COLLECTION_NAME, pirId);
+    questionRepository.assertValidQuestions(questions);
     
-    await updateDoc(pirRef, {
-      questionIds: arrayUnion(questionId),
-      updatedAt: serverTimestamp()
-    });
+    const createdQuestions: Question[] = [];
+    // One write per question, plus the update of the PIR
+    const questionsPerBatch = MAX_BATCH_WRITES - 1;
+    
+    for (let i = 0; i < questions.length; i += questionsPerBatch) {
+      const batch = writeBatch(db);
+      const batchQuestions = await questionRepository.createMultipleQuestions(questions.slice(i, i + questionsPerBatch), batch);
+      
+      batch.update(doc(db, COLLECTION_NAME, pirId), {
+        questionIds: arrayUnion(...batchQuestions.map(question => question.id)),
+        updatedAt: serverTimestamp(),
+        updatedBy: getCurrentUserId()
+      });
+      
+      await batch.commit();
+      createdQuestions.push(...batchQuestions);
+    }
+    
+    return createdQuestions;
   } catch (error) {
-    console.error(`Error adding question ${questionId} to PIR ${pirId}:`, error);
+    console.error(`Error adding new questions to PIR ${pirId}:`, error);
     throw error;
   }
 };
@@ -347,7 +465,8 @@ export const addAttachmentToPIR = async (pirId: string, attachmentId: string): P
     
     await updateDoc(pirRef, {
       attachmentIds: arrayUnion(attachmentId),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     });
   } catch (error) {
     console.error(`Error adding attachment ${attachmentId} to PIR ${pirId}:`, error);
@@ -364,7 +483,8 @@ export const addTagToPIR = async (pirId: string, tag: string): Promise<void> =>
     
     await updateDoc(pirRef, {
       tags: arrayUnion(tag),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     });
   } catch (error) {
     console.error(`Error adding tag ${tag} to PIR ${pirId}:`, error);
@@ -381,7 +501,8 @@ export const removeTagFromPIR = async (pirId: string, tag: string): Promise<void
     
     await updateDoc(pirRef, {
       tags: arrayRemove(tag),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     });
   } catch (error) {
     console.error(`Error removing tag ${tag} from PIR ${pirId}:`, error);
@@ -0,0 +1,247 @@
+// Question Library Repository for Firebase integration
+import { 
+  collection, 
+  doc, 
+  getDoc, 
+  getDocs, 
+  query, 
+  orderBy, 
+  serverTimestamp, 
+  deleteField, 
+  runTransaction
+} from 'firebase/firestore';
+import { db } from '../client';
+import { LibraryQuestion, LibraryQuestionVersion } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId } from '../utils';
+import { validateQuestionDefinition } from '../../../utils/questionTypes';
+
+const COLLECTION_NAME = 'questionLibrary';
+const VERSIONS_COLLECTION_NAME = 'versions';
+
+// Fields whose changes create a new version of a library question
+type VersionedFields = Pick<LibraryQuestion, 'text' | 'category' | 'required' | 'type' | 'options' | 'units' | 'guidance' | 'tags'>;
+
+/**
+ * Get the content fields of a library question in a fixed order, so versions
+ * can be compared
+ */
+const getVersionedFields = (question: VersionedFields): VersionedFields => {
+  return {
+    text: question.text,
+    category: question.category,
+    required: question.required,
+    ...(question.type && { type: question.type }),
+    ...(question.options && { options: question.options }),
+    ...(question.units && { units: question.units }),
+    ...(question.guidance && { guidance: question.guidance }),
+    tags: question.tags
+  };
+};
+
+/**
+ * Build the version snapshot of a library question
+ */
+const toVersionSnapshot = (question: VersionedFields, version: number) => {
+  return {
+    ...getVersionedFields(question),
+    version,
+    createdBy: getCurrentUserId(),
+    createdAt: serverTimestamp()
+  };
+};
+
+/**
+ * Get all library questions, leaving out archived ones unless requested
+ */
+export const getLibraryQuestions = async (includeArchived: boolean = false): Promise<LibraryQuestion[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME),
+      orderBy('text', 'asc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    const questions: LibraryQuestion[] = [];
+    
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      const questionWithId = {
+        id: doc.id,
+        ...convertTimestampsToDates(data)
+      } as LibraryQuestion;
+      
+      if (includeArchived || !questionWithId.archived) {
+        questions.push(questionWithId);
+      }
+    });
+    
+    return questions;
+  } catch (error) {
+    console.error('Error getting library questions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a single library question by ID
+ */
+export const getLibraryQuestionById = async (id: string): Promise<LibraryQuestion | null> => {
+  try {
+    const docRef = doc(db, COLLECTION_NAME, id);
+    const docSnap = await getDoc(docRef);
+    
+    if (docSnap.exists()) {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...convertTimestampsToDates(data)
+      } as LibraryQuestion;
+    } else {
+      console.log(`No library question found with ID: ${id}`);
+      return null;
+    }
+  } catch (error) {
+    console.error(`Error getting library question ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Get every version of a library question, newest first
+ */
+export const getLibraryQuestionVersions = async (id: string): Promise<LibraryQuestionVersion[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME),
+      orderBy('version', 'desc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...convertTimestampsToDates(doc.data())
+    }) as LibraryQuestionVersion);
+  } catch (error) {
+    console.error(`Error getting versions of library question ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new library question along with its first version
+ */
+export const createLibraryQuestion = async (
+  question: Omit<LibraryQuestion, 'id' | 'version' | 'archived'>
+): Promise<LibraryQuestion> => {
+  try {
+    const definitionError = validateQuestionDefinition(question);
+    
+    if (definitionError) {
+      throw new Error(definitionError);
+    }
+    
+    const now = new Date();
+    const newQuestion = {
+      ...question,
+      version: 1,
+      archived: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    const questionRef = doc(collection(db, COLLECTION_NAME));
+    
+    await runTransaction(db, async (transaction) => {
+      transaction.set(questionRef, {
+        ...convertDatesToTimestamps(newQuestion),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        updatedBy: getCurrentUserId()
+      });
+      transaction.set(
+        doc(db, COLLECTION_NAME, questionRef.id, VERSIONS_COLLECTION_NAME, '1'),
+        toVersionSnapshot(newQuestion, 1)
+      );
+    });
+    
+    return {
+      id: questionRef.id,
+      ...newQuestion
+    };
+  } catch (error) {
+    console.error('Error creating library question:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a library question, recording a new version when its content changes
+ *
+ * PIR questions added from earlier versions keep their wording.
+ */
+export const updateLibraryQuestion = async (
+  id: string,
+  updates: Partial<Omit<LibraryQuestion, 'id' | 'version'>>
+): Promise<LibraryQuestion> => {
+  try {
+    const questionRef = doc(db, COLLECTION_NAME, id);
+    
+    await runTransaction(db, async (transaction) => {
+      const currentDoc = await transaction.get(questionRef);
+      
+      if (!currentDoc.exists()) {
+        throw new Error(`Library question with ID ${id} not found`);
+      }
+      
+      const current = currentDoc.data() as LibraryQuestion;
+      const updated = { ...current, ...updates };
+      
+      // Options and units left out of a type change no longer apply
+      const clearedFields = updates.type
+        ? (['options', 'units'] as const).filter(field => !(field in updates))
+        : [];
+      clearedFields.forEach(field => delete updated[field]);
+      
+      const definitionError = validateQuestionDefinition(updated);
+      
+      if (definitionError) {
+        throw new Error(definitionError);
+      }
+      
+      const contentChanged = JSON.stringify(getVersionedFields(updated)) !== JSON.stringify(getVersionedFields(current));
+      
+      const nextVersion = contentChanged ? current.version + 1 : current.version;
+      
+      const updatesWithTimestamp: Record<string, any> = {
+        ...convertDatesToTimestamps(updates),
+        version: nextVersion,
+        updatedAt: serverTimestamp(),
+        updatedBy: getCurrentUserId()
+      };
+      clearedFields.forEach(field => {
+        updatesWithTimestamp[field] = deleteField();
+      });
+      
+      transaction.update(questionRef, updatesWithTimestamp);
+      
+      if (contentChanged) {
+        transaction.set(
+          doc(db, COLLECTION_NAME, id, VERSIONS_COLLECTION_NAME, String(nextVersion)),
+          toVersionSnapshot(updated, nextVersion)
+        );
+      }
+    });
+    
+    // Get the updated document
+    const updatedDoc = await getDoc(questionRef);
+    
+    return {
+      id,
+      ...convertTimestampsToDates(updatedDoc.data() || {})
+    } as LibraryQuestion;
+  } catch (error) {
+    console.error(`Error updating library question ${id}:`, error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -9,18 +9,25 @@ import {
   addDoc, 
   updateDoc, 
   orderBy, 
+  limit, 
   serverTimestamp, 
   Timestamp,
-  arrayUnion
+  arrayUnion, 
+  deleteField, 
+  writeBatch, 
+  WriteBatch
 } from 'firebase/firestore';
 import { db } from '../client';
-import { Question } from '../../../types';
-import { convertDatesToTimestamps, convertTimestampsToDates } from '../utils';
+import { Question, QuestionPlacement } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId, MAX_BATCH_WRITES } from '../utils';
+import { validateQuestionDefinition } from '../../../utils/questionTypes';
+import { validateVisibility } from '../../../utils/questionVisibility';
+import { sortQuestions } from '../../../utils/questionOrder';
 
 const COLLECTION_NAME = 'questions';
 
 /**
- * Get all questions for a specific PIR
+ * Get all questions for a specific PIR, in their explicit order
  */
 export const getQuestionsByPIRId = async (pirId: string): Promise<Question[]> => {
   try {
@@ -43,13 +50,76 @@ export const getQuestionsByPIRId = async (pirId: string): Promise<Question[]> =>
       questions.push(questionWithId);
     });
     
-    return questions;
+    return sortQuestions(questions);
   } catch (error) {
     console.error(`Error getting questions for PIR ${pirId}:`, error);
     throw error;
   }
 };
 
+/**
+ * Get every PIR question added from a library question, for reporting across PIRs
+ */
+export const getQuestionsByLibraryQuestionId = async (libraryQuestionId: string): Promise<Question[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME),
+      where('libraryQuestionId', '==', libraryQuestionId),
+      orderBy('createdAt', 'desc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...convertTimestampsToDates(doc.data())
+    }) as Question);
+  } catch (error) {
+    console.error(`Error getting questions for library question ${libraryQuestionId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Get the newest questions that could be the same as the given one on other
+ * PIRs: those added from its library question, and those with its exact wording
+ */
+export const getMatchingQuestions = async (
+  question: Pick<Question, 'text' | 'libraryQuestionId'>,
+  maxResults: number
+): Promise<Question[]> => {
+  try {
+    const texts = [question.text, question.text.trim()]
+      .filter((text, index, all) => !!text && all.indexOf(text) === index);
+    const queries = [
+      ...(texts.length ? [where('text', 'in', texts)] : []),
+      ...(question.libraryQuestionId ? [where('libraryQuestionId', '==', question.libraryQuestionId)] : [])
+    ].map(condition => query(
+      collection(db, COLLECTION_NAME),
+      condition,
+      orderBy('createdAt', 'desc'),
+      limit(maxResults)
+    ));
+    
+    const snapshots = await Promise.all(queries.map(q => getDocs(q)));
+    const questions: Question[] = [];
+    
+    snapshots.forEach(querySnapshot => querySnapshot.forEach((doc) => {
+      if (!questions.some(existing => existing.id === doc.id)) {
+        questions.push({
+          id: doc.id,
+          ...convertTimestampsToDates(doc.data())
+        } as Question);
+      }
+    }));
+    
+    return questions;
+  } catch (error) {
+    console.error('Error getting questions matching a question:', error);
+    throw error;
+  }
+};
+
 /**
  * Get a single question by ID
  */
@@ -124,6 +194,12 @@ export const getQuestionsByIds = async (ids: string[]): Promise<Question[]> => {
  */
 export const createQuestion = async (question: Omit<Question, 'id'>): Promise<Question> => {
   try {
+    const definitionError = validateQuestionDefinition(question) || validateVisibility(question.visibility);
+    
+    if (definitionError) {
+      throw new Error(definitionError);
+    }
+    
     const now = new Date();
     const newQuestion = {
       ...question,
@@ -137,7 +213,8 @@ export const createQuestion = async (question: Omit<Question, 'id'>): Promise<Qu
     const docRef = await addDoc(collection(db, COLLECTION_NAME), {
       ...questionWithTimestamps,
       createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     });
     
     // Return the created question with its ID
@@ -163,9 +240,18 @@ export const updateQuestion = async (id: string, updates: Partial<Question>): Pr
       throw new Error(`Question with ID ${id} not found`);
     }
     
+    const updatedQuestion = { ...currentDoc.data(), ...updates };
+    const definitionError = validateQuestionDefinition(updatedQuestion) || 
+      validateVisibility(updatedQuestion.visibility, id);
+    
+    if (definitionError) {
+      throw new Error(definitionError);
+    }
+    
     const updatesWithTimestamp = {
       ...convertDatesToTimestamps(updates),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     };
     
     await updateDoc(questionRef, updatesWithTimestamp);
@@ -184,6 +270,31 @@ export const updateQuestion = async (id: string, updates: Partial<Question>): Pr
   }
 };
 
+/**
+ * Save the section and order of several questions in one batched write
+ */
+export const updateQuestionPlacements = async (placements: QuestionPlacement[]): Promise<void> => {
+  try {
+    if (!placements.length) return;
+    
+    const batch = writeBatch(db);
+    
+    placements.forEach(placement => {
+      batch.update(doc(db, COLLECTION_NAME, placement.id), {
+        order: placement.order,
+        sectionId: placement.sectionId || deleteField(),
+        updatedAt: serverTimestamp(),
+        updatedBy: getCurrentUserId()
+      });
+    });
+    
+    await batch.commit();
+  } catch (error) {
+    console.error('Error updating question placements:', error);
+    throw error;
+  }
+};
+
 /**
  * Add an attachment ID to a question
  */
@@ -193,7 +304,8 @@ export const addAttachmentToQuestion = async (questionId: string, attachmentId:
     
     await updateDoc(questionRef, {
       attachmentIds: arrayUnion(attachmentId),
-      updatedAt: serverTimestamp()
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
     });
   } catch (error) {
     console.error(`Error adding attachment ${attachmentId} to question ${questionId}:`, error);
@@ -201,19 +313,64 @@ export const addAttachmentToQuestion = async (questionId: string, attachmentId:
   }
 };
 
+/**
+ * Check the definitions of questions about to be created, throwing on the
+ * first invalid one
+ */
+export const assertValidQuestions = (questions: Array<Omit<Question, 'id'>>): void => {
+  questions.forEach(question => {
+    const definitionError = validateQuestionDefinition(question) || validateVisibility(question.visibility);
+    
+    if (definitionError) {
+      throw new Error(`${definitionError} ("${question.text}")`);
+    }
+  });
+};
+
 /**
  * Create multiple questions at once
+ * 
+ * Every question is checked before anything is written. The questions are
+ * written in batches of at most MAX_BATCH_WRITES, committed in order, so a
+ * failure leaves the questions of earlier batches created. When a batch is
+ * given the questions are only added to it and the caller commits it.
  */
 export const createMultipleQuestions = async (
-  questions: Array<Omit<Question, 'id'>>
+  questions: Array<Omit<Question, 'id'>>, 
+  batch?: WriteBatch
 ): Promise<Question[]> => {
   try {
-    const createdQuestions: Question[] = [];
+    assertValidQuestions(questions);
+    
+    const batches: WriteBatch[] = [];
+    const now = new Date();
+    
+    const createdQuestions = questions.map((question, index) => {
+      if (!batch && index % MAX_BATCH_WRITES === 0) {
+        batches.push(writeBatch(db));
+      }
+      
+      const questionBatch = batch || batches[batches.length - 1];
+      const questionRef = doc(collection(db, COLLECTION_NAME));
+      const newQuestion = {
+        ...question,
+        createdAt: now,
+        updatedAt: now,
+        attachmentIds: question.attachmentIds || []
+      };
+      
+      questionBatch.set(questionRef, {
+        ...convertDatesToTimestamps(newQuestion),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        updatedBy: getCurrentUserId()
+      });
+      
+      return { id: questionRef.id, ...newQuestion };
+    });
     
-    // Create each question one by one
-    for (const question of questions) {
-      const createdQuestion = await createQuestion(question);
-      createdQuestions.push(createdQuestion);
+    for (const questionBatch of batches) {
+      await questionBatch.commit();
     }
     
     return createdQuestions;
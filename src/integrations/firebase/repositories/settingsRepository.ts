@@ -0,0 +1,46 @@
+// Settings Repository for Firebase integration
+import { 
+  doc, 
+  getDoc, 
+  setDoc, 
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../client';
+import { AttachmentPolicy } from '../../../types';
+import { getCurrentUserId } from '../utils';
+import { withAttachmentPolicyDefaults } from '../../../utils/attachmentPolicy';
+
+const COLLECTION_NAME = 'settings';
+const ATTACHMENT_POLICY_ID = 'attachmentPolicy';
+
+/**
+ * Get the attachment policy, falling back to the defaults for missing fields
+ */
+export const getAttachmentPolicy = async (): Promise<AttachmentPolicy> => {
+  try {
+    const docSnap = await getDoc(doc(db, COLLECTION_NAME, ATTACHMENT_POLICY_ID));
+    
+    return withAttachmentPolicyDefaults(docSnap.exists() ? docSnap.data() as Partial<AttachmentPolicy> : undefined);
+  } catch (error) {
+    console.error('Error getting attachment policy:', error);
+    throw error;
+  }
+};
+
+/**
+ * Replace the attachment policy
+ */
+export const updateAttachmentPolicy = async (policy: AttachmentPolicy): Promise<AttachmentPolicy> => {
+  try {
+    await setDoc(doc(db, COLLECTION_NAME, ATTACHMENT_POLICY_ID), {
+      ...policy,
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    });
+    
+    return policy;
+  } catch (error) {
+    console.error('Error updating attachment policy:', error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,171 @@
+// PIR Template Repository for Firebase integration
+import { 
+  collection, 
+  doc, 
+  getDoc, 
+  getDocs, 
+  query, 
+  addDoc, 
+  updateDoc, 
+  deleteDoc, 
+  orderBy, 
+  serverTimestamp
+} from 'firebase/firestore';
+import { 
+  ref, 
+  deleteObject
+} from 'firebase/storage';
+import { db, storage } from '../client';
+import { Attachment, PIRTemplate, PIRTemplateAttachment } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId } from '../utils';
+import * as attachmentRepository from './attachmentRepository';
+
+const COLLECTION_NAME = 'templates';
+
+/**
+ * Get all PIR templates
+ */
+export const getTemplates = async (): Promise<PIRTemplate[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME),
+      orderBy('name', 'asc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    const templates: PIRTemplate[] = [];
+    
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      const templateWithId = {
+        id: doc.id,
+        ...convertTimestampsToDates(data)
+      } as PIRTemplate;
+      
+      templates.push(templateWithId);
+    });
+    
+    return templates;
+  } catch (error) {
+    console.error('Error getting templates:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a single template by ID
+ */
+export const getTemplateById = async (id: string): Promise<PIRTemplate | null> => {
+  try {
+    const docRef = doc(db, COLLECTION_NAME, id);
+    const docSnap = await getDoc(docRef);
+    
+    if (docSnap.exists()) {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...convertTimestampsToDates(data)
+      } as PIRTemplate;
+    } else {
+      console.log(`No template found with ID: ${id}`);
+      return null;
+    }
+  } catch (error) {
+    console.error(`Error getting template ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Copy an attachment's file into the template's storage folder
+ */
+const copyFileToTemplate = async (
+  templateId: string,
+  attachment: Attachment
+): Promise<PIRTemplateAttachment> => {
+  const { storagePath, downloadUrl } = await attachmentRepository.copyStoredFile(
+    { attachmentId: attachment.id }, 
+    { templateId }
+  );
+  
+  return {
+    fileName: attachment.fileName,
+    fileType: attachment.fileType,
+    fileSize: attachment.fileSize,
+    storagePath,
+    downloadUrl
+  };
+};
+
+/**
+ * Create a new template, copying the given attachments' files into it
+ */
+export const createTemplate = async (
+  template: Omit<PIRTemplate, 'id' | 'attachments'>,
+  attachments: Attachment[] = []
+): Promise<PIRTemplate> => {
+  try {
+    const now = new Date();
+    const newTemplate = {
+      ...template,
+      attachments: [] as PIRTemplateAttachment[],
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    const templateWithTimestamps = convertDatesToTimestamps(newTemplate);
+    
+    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
+      ...templateWithTimestamps,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    });
+    
+    if (attachments.length > 0) {
+      // Files are stored with the template so it outlives the source PIR
+      newTemplate.attachments = await Promise.all(
+        attachments.map(attachment => copyFileToTemplate(docRef.id, attachment))
+      );
+      
+      await updateDoc(docRef, { attachments: newTemplate.attachments });
+    }
+    
+    return {
+      id: docRef.id,
+      ...newTemplate
+    };
+  } catch (error) {
+    console.error('Error creating template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a template and its files
+ */
+export const deleteTemplate = async (id: string): Promise<void> => {
+  try {
+    const templateRef = doc(db, COLLECTION_NAME, id);
+    const templateSnap = await getDoc(templateRef);
+    
+    if (!templateSnap.exists()) {
+      throw new Error(`Template with ID ${id} not found`);
+    }
+    
+    const attachments: PIRTemplateAttachment[] = templateSnap.data().attachments || [];
+    
+    for (const attachment of attachments) {
+      try {
+        await deleteObject(ref(storage, attachment.storagePath));
+      } catch (storageError) {
+        console.warn('Error deleting template file from storage, continuing with document deletion:', storageError);
+      }
+    }
+    
+    await deleteDoc(templateRef);
+  } catch (error) {
+    console.error(`Error deleting template ${id}:`, error);
+    throw error;
+  }
+};
\ No newline at end of file
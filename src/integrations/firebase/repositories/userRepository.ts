@@ -0,0 +1,64 @@
+// User Repository for Firebase integration
+import { 
+  collection, 
+  getDocs, 
+  query, 
+  where, 
+  orderBy
+} from 'firebase/firestore';
+import { db } from '../client';
+import { User, UserRole } from '../../../types';
+
+const COLLECTION_NAME = 'users';
+
+/**
+ * Get every user, by display name
+ */
+export const getUsers = async (): Promise<User[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME),
+      orderBy('displayName', 'asc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs.map(doc => ({
+      ...doc.data(),
+      id: doc.id
+    }) as User);
+  } catch (error) {
+    console.error('Error getting users:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get users with any of the given roles
+ */
+export const getUsersByRoles = async (roles: UserRole[]): Promise<User[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME),
+      where('role', 'in', roles),
+      orderBy('displayName', 'asc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    const users: User[] = [];
+    
+    querySnapshot.forEach((doc) => {
+      const userWithId = {
+        ...doc.data(),
+        id: doc.id
+      } as User;
+      
+      users.push(userWithId);
+    });
+    
+    return users;
+  } catch (error) {
+    console.error(`Error getting users with roles ${roles.join(', ')}:`, error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,144 @@
+// Workflow Definition Repository for Firebase integration
+import { 
+  collection, 
+  doc, 
+  getDoc, 
+  getDocs, 
+  query, 
+  addDoc, 
+  updateDoc, 
+  orderBy, 
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../client';
+import { WorkflowDefinition } from '../../../types';
+import { convertDatesToTimestamps, convertTimestampsToDates, getCurrentUserId } from '../utils';
+
+const COLLECTION_NAME = 'workflows';
+
+/**
+ * Get all admin-defined workflows
+ */
+export const getWorkflows = async (): Promise<WorkflowDefinition[]> => {
+  try {
+    const q = query(
+      collection(db, COLLECTION_NAME),
+      orderBy('name', 'asc')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    const workflows: WorkflowDefinition[] = [];
+    
+    querySnapshot.forEach((doc) => {
+      const data = doc.data();
+      const workflowWithId = {
+        id: doc.id,
+        ...convertTimestampsToDates(data)
+      } as WorkflowDefinition;
+      
+      workflows.push(workflowWithId);
+    });
+    
+    return workflows;
+  } catch (error) {
+    console.error('Error getting workflows:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a single workflow by ID
+ */
+export const getWorkflowById = async (id: string): Promise<WorkflowDefinition | null> => {
+  try {
+    const docRef = doc(db, COLLECTION_NAME, id);
+    const docSnap = await getDoc(docRef);
+    
+    if (docSnap.exists()) {
+      const data = docSnap.data();
+      return {
+        id: docSnap.id,
+        ...convertTimestampsToDates(data)
+      } as WorkflowDefinition;
+    } else {
+      console.log(`No workflow found with ID: ${id}`);
+      return null;
+    }
+  } catch (error) {
+    console.error(`Error getting workflow ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Create a new workflow definition
+ */
+export const createWorkflow = async (
+  workflow: Omit<WorkflowDefinition, 'id'>
+): Promise<WorkflowDefinition> => {
+  try {
+    const now = new Date();
+    const newWorkflow = {
+      ...workflow,
+      createdAt: now,
+      updatedAt: now
+    };
+    
+    const workflowWithTimestamps = convertDatesToTimestamps(newWorkflow);
+    
+    const docRef = await addDoc(collection(db, COLLECTION_NAME), {
+      ...workflowWithTimestamps,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    });
+    
+    return {
+      id: docRef.id,
+      ...newWorkflow
+    };
+  } catch (error) {
+    console.error('Error creating workflow:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing workflow definition
+ */
+export const updateWorkflow = async (
+  id: string, 
+  updates: Partial<WorkflowDefinition>
+): Promise<WorkflowDefinition> => {
+  try {
+    const workflowRef = doc(db, COLLECTION_NAME, id);
+    const currentDoc = await getDoc(workflowRef);
+    
+    if (!currentDoc.exists()) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+    
+    const updatesWithTimestamp = {
+      ...convertDatesToTimestamps(updates),
+      updatedAt: serverTimestamp(),
+      updatedBy: getCurrentUserId()
+    };
+    
+    await updateDoc(workflowRef, updatesWithTimestamp);
+    
+    // Get the updated document
+    const updatedDoc = await getDoc(workflowRef);
+    
+    if (!updatedDoc.exists()) {
+      throw new Error(`Workflow with ID ${id} not found`);
+    }
+    
+    return {
+      id,
+      ...convertTimestampsToDates(updatedDoc.data())
+    } as WorkflowDefinition;
+  } catch (error) {
+    console.error(`Error updating workflow ${id}:`, error);
+    throw error;
+  }
+};
\ No newline at end of file
@@ -1,6 +1,26 @@
-// Firebase utility functions for timestamp conversion
+// Firebase utility functions for timestamp conversion and audit stamping
 
 import { Timestamp } from 'firebase/firestore';
+import { auth } from './client';
+
+// Most writes Firestore accepts in a single batch
+export const MAX_BATCH_WRITES = 500;
+
+/**
+ * Gets the ID of the signed-in user, stamped as updatedBy on every write so
+ * the activity log can attribute changes
+ */
+export const getCurrentUserId = (): string | null => {
+  return auth.currentUser?.uid ?? null;
+};
+
+/**
+ * Gets the display name of the signed-in user, stored with records that show
+ * who made them
+ */
+export const getCurrentUserName = (): string | null => {
+  return auth.currentUser?.displayName ?? null;
+};
 
 /**
  * Converts JavaScript Date objects to Firestore Timestamps for storage
@@ -1,7 +1,23 @@
 // Answer State Management
 import { StateCreator } from 'zustand';
-import { Answer } from '../types';
+import { Answer, AnswerDraft, AnswerReviewStatus, AnswerVersion, Attachment, PIR, Question } from '../types';
 import * as answerRepository from '../integrations/firebase/repositories/answerRepository';
+import * as answerDraftRepository from '../integrations/firebase/repositories/answerDraftRepository';
+import * as attachmentRepository from '../integrations/firebase/repositories/attachmentRepository';
+import * as pirRepository from '../integrations/firebase/repositories/pirRepository';
+import * as questionRepository from '../integrations/firebase/repositories/questionRepository';
+import { AnswerValidationError } from '../utils/questionTypes';
+import { AnsweredQuestion, AnswerSuggestion, getAnswerSuggestions, isAcceptedAnswer } from '../utils/answerSuggestions';
+import { 
+  getAnswerDraftId, 
+  getLatestAnswerDraft, 
+  readLocalAnswerDraft, 
+  removeLocalAnswerDraft, 
+  writeLocalAnswerDraft 
+} from '../utils/answerDrafts';
+
+// Most questions on other PIRs an answer suggestion lookup reads, per kind of match
+const MAX_SUGGESTION_SOURCES = 25;
 
 export interface AnswerSlice {
   // State
@@ -15,8 +31,14 @@ export interface AnswerSlice {
   fetchAnswersByPIRId: (pirId: string) => Promise<void>;
   fetchAnswersByResponderId: (responderId: string) => Promise<void>;
   fetchAnswerById: (id: string) => Promise<void>;
-  createAnswer: (answer: Omit<Answer, 'id'>) => Promise<Answer>;
+  createAnswer: (answer: Omit<Answer, 'id'>, files?: File[]) => Promise<Answer>;
   updateAnswer: (id: string, updates: Partial<Answer>) => Promise<Answer>;
+  fetchAnswerVersions: (id: string) => Promise<AnswerVersion[]>;
+  reviewAnswer: (id: string, status: AnswerReviewStatus, comment: string) => Promise<Answer>;
+  fetchAnswerSuggestions: (question: Question, pir: PIR, responderId: string) => Promise<AnswerSuggestion[]>;
+  fetchAnswerDraft: (userId: string, questionId: string) => Promise<AnswerDraft | null>;
+  saveAnswerDraft: (draft: Omit<AnswerDraft, 'id' | 'updatedAt'>) => Promise<AnswerDraft>;
+  discardAnswerDraft: (userId: string, questionId: string) => Promise<void>;
   resetAnswerState: () => void;
 }
 
@@ -32,7 +54,11 @@ export const createAnswerSlice: StateCreator<AnswerSlice> = (set, get) => ({
     set({ isLoadingAnswers: true, answerError: null });
     try {
       const answers = await answerRepository.getAnswersByQuestionId(questionId);
-      set({ answers, isLoadingAnswers: false });
+      // Keep the answers of other questions, which conditional questions depend on
+      set(state => ({
+        answers: [...state.answers.filter(answer => answer.questionId !== questionId), ...answers],
+        isLoadingAnswers: false
+      }));
     } catch (error) {
       console.error(`Error fetching answers for question ${questionId}:`, error);
       set({ 
@@ -87,18 +113,51 @@ export const createAnswerSlice: StateCreator<AnswerSlice> = (set, get) => ({
     }
   },
   
-  // Create a new answer
-  createAnswer: async (answer: Omit<Answer, 'id'>) => {
+  // Create a new answer, uploading its files first so file-required answers
+  // are complete when they are saved; the files record the answer's PIR so
+  // they can be traced to it before the answer exists
+  createAnswer: async (answer: Omit<Answer, 'id'>, files: File[] = []) => {
     set({ isLoadingAnswers: true, answerError: null });
     try {
-      const newAnswer = await answerRepository.createAnswer(answer);
+      const answerId = answerRepository.createAnswerId();
+      const uploadedAttachments: Attachment[] = [];
+      
+      for (const file of files) {
+        uploadedAttachments.push(
+          await attachmentRepository.uploadAttachment(file, answer.responderId, answerId, 'answer', answer.pirId)
+        );
+      }
+      
+      let newAnswer: Answer;
+      
+      try {
+        newAnswer = await answerRepository.createAnswer({
+          ...answer,
+          attachmentIds: [...answer.attachmentIds, ...uploadedAttachments.map(attachment => attachment.id)]
+        }, answerId);
+      } catch (createError) {
+        // Remove the files of an answer that could not be saved
+        await Promise.all(uploadedAttachments.map(attachment => attachmentRepository.deleteAttachment(attachment.id)));
+        throw createError;
+      }
+      
       set(state => ({
         answers: [newAnswer, ...state.answers],
         isLoadingAnswers: false
       }));
+      
+      // The answer is saved, so a leftover draft only matters to the responder's storage
+      await get().discardAnswerDraft(answer.responderId, answer.questionId).catch(() => undefined);
       return newAnswer;
     } catch (error) {
       console.error('Error creating answer:', error);
+      
+      // Validation errors are shown on the answer form
+      if (error instanceof AnswerValidationError) {
+        set({ isLoadingAnswers: false });
+        throw error;
+      }
+      
       set({ 
         answerError: error instanceof Error ? error.message : 'Failed to create answer', 
         isLoadingAnswers: false 
@@ -120,6 +179,13 @@ export const createAnswerSlice: StateCreator<AnswerSlice> = (set, get) => ({
       return updatedAnswer;
     } catch (error) {
       console.error(`Error updating answer ${id}:`, error);
+      
+      // Validation errors are shown on the answer form
+      if (error instanceof AnswerValidationError) {
+        set({ isLoadingAnswers: false });
+        throw error;
+      }
+      
       set({ 
         answerError: error instanceof Error ? error.message : `Failed to update answer ${id}`, 
         isLoadingAnswers: false 
@@ -128,6 +194,115 @@ export const createAnswerSlice: StateCreator<AnswerSlice> = (set, get) => ({
     }
   },
   
+  // Fetch the revisions of an answer, newest first; errors are shown in the history drawer
+  fetchAnswerVersions: async (id: string) => {
+    try {
+      return await answerRepository.getAnswerVersions(id);
+    } catch (error) {
+      console.error(`Error fetching versions of answer ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Record the current user's decision on an answer through the server-side function
+  // Skips the loading state so the open answer forms keep their input; errors are shown next to the answer
+  reviewAnswer: async (id: string, status: AnswerReviewStatus, comment: string) => {
+    try {
+      const updatedAnswer = await answerRepository.reviewAnswer(id, status, comment);
+      set(state => ({
+        answers: state.answers.map(a => a.id === id ? updatedAnswer : a),
+        selectedAnswer: state.selectedAnswer?.id === id ? updatedAnswer : state.selectedAnswer
+      }));
+      return updatedAnswer;
+    } catch (error) {
+      console.error(`Error reviewing answer ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Find the responder's earlier accepted answers that can be reused for a question
+  // Suggestions are optional, so errors are left to the answer form
+  fetchAnswerSuggestions: async (question: Question, pir: PIR, responderId: string) => {
+    try {
+      // Only the newest questions with the same library entry or wording are looked at
+      const earlierQuestions = (await questionRepository.getMatchingQuestions(question, MAX_SUGGESTION_SOURCES))
+        .filter(earlierQuestion => earlierQuestion.pirId !== pir.id);
+      
+      if (!earlierQuestions.length) return [];
+      
+      const earlierAnswers = await answerRepository.getResponderAnswersToQuestions(
+        responderId,
+        earlierQuestions.map(earlierQuestion => earlierQuestion.id)
+      );
+      
+      // Only PIRs for the same product or category can supply suggestions
+      const pirIds = earlierAnswers
+        .map(answer => answer.pirId)
+        .filter((pirId, index, ids) => ids.indexOf(pirId) === index);
+      const earlierPIRs = (await Promise.all(pirIds.map(pirId => pirRepository.getPIRById(pirId))))
+        .filter((earlierPIR): earlierPIR is PIR => 
+          !!earlierPIR && 
+          (earlierPIR.productName === pir.productName || earlierPIR.productCategory === pir.productCategory)
+        );
+      
+      const answeredQuestions = earlierAnswers.reduce<AnsweredQuestion[]>((result, answer) => {
+        const earlierPIR = earlierPIRs.find(candidate => candidate.id === answer.pirId);
+        const earlierQuestion = earlierQuestions.find(candidate => candidate.id === answer.questionId);
+        
+        if (earlierPIR && earlierQuestion && isAcceptedAnswer(answer, earlierPIR)) {
+          result.push({ answer, question: earlierQuestion, pir: earlierPIR });
+        }
+        
+        return result;
+      }, []);
+      
+      return getAnswerSuggestions(question, pir, answeredQuestions);
+    } catch (error) {
+      console.error(`Error fetching answer suggestions for question ${question.id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Load the responder's unsent answer to a question, from this browser or Firestore,
+  // whichever was saved last; the copy in the browser is used when Firestore fails
+  fetchAnswerDraft: async (userId: string, questionId: string) => {
+    const localDraft = readLocalAnswerDraft(userId, questionId);
+    
+    try {
+      const savedDraft = await answerDraftRepository.getAnswerDraft(userId, questionId);
+      return getLatestAnswerDraft([localDraft, savedDraft]);
+    } catch (error) {
+      console.error(`Error fetching the draft answer to question ${questionId}:`, error);
+      return getLatestAnswerDraft([localDraft]);
+    }
+  },
+  
+  // Keep an unsent answer in this browser right away, then in Firestore; the browser
+  // copy survives when saving to Firestore fails, which is left to the answer form
+  saveAnswerDraft: async (draft: Omit<AnswerDraft, 'id' | 'updatedAt'>) => {
+    const localDraft = { ...draft, id: getAnswerDraftId(draft.userId, draft.questionId), updatedAt: new Date() };
+    writeLocalAnswerDraft(localDraft);
+    
+    try {
+      return await answerDraftRepository.saveAnswerDraft({ ...draft, updatedAt: localDraft.updatedAt });
+    } catch (error) {
+      console.error(`Error saving the draft answer to question ${draft.questionId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Remove the responder's unsent answer to a question everywhere it was kept
+  discardAnswerDraft: async (userId: string, questionId: string) => {
+    removeLocalAnswerDraft(userId, questionId);
+    
+    try {
+      await answerDraftRepository.deleteAnswerDraft(userId, questionId);
+    } catch (error) {
+      console.error(`Error discarding the draft answer to question ${questionId}:`, error);
+      throw error;
+    }
+  },
+  
   // Reset answer state
   resetAnswerState: () => {
     set({
@@ -1,13 +1,33 @@
 // Attachment State Management
 import { StateCreator } from 'zustand';
-import { Attachment } from '../types';
+import { Attachment, AttachmentPolicy, AttachmentVersion } from '../types';
 import * as attachmentRepository from '../integrations/firebase/repositories/attachmentRepository';
+import * as settingsRepository from '../integrations/firebase/repositories/settingsRepository';
+import * as pirRepository from '../integrations/firebase/repositories/pirRepository';
+import * as questionRepository from '../integrations/firebase/repositories/questionRepository';
+import * as answerRepository from '../integrations/firebase/repositories/answerRepository';
+import { DEFAULT_ATTACHMENT_POLICY } from '../utils/attachmentPolicy';
+
+/**
+ * Record a new attachment on the PIR, question or answer it belongs to
+ */
+const linkAttachmentToParent = (attachment: Attachment): Promise<void> => {
+  switch (attachment.parentType) {
+    case 'pir':
+      return pirRepository.addAttachmentToPIR(attachment.parentId, attachment.id);
+    case 'question':
+      return questionRepository.addAttachmentToQuestion(attachment.parentId, attachment.id);
+    default:
+      return answerRepository.addAttachmentToAnswer(attachment.parentId, attachment.id);
+  }
+};
 
 export interface AttachmentSlice {
   // State
   attachments: Attachment[];
   isLoadingAttachments: boolean;
   attachmentError: string | null;
+  attachmentPolicy: AttachmentPolicy;
   
   // Actions
   fetchAttachmentsByParentId: (
@@ -24,8 +44,44 @@ export interface AttachmentSlice {
     parentType: 'pir' | 'question' | 'answer'
   ) => Promise<Attachment>;
   
+  startAttachmentUpload: (
+    file: File, 
+    uploadedBy: string, 
+    parentId: string, 
+    parentType: 'pir' | 'question' | 'answer', 
+    onProgress?: (bytesTransferred: number, totalBytes: number) => void
+  ) => attachmentRepository.AttachmentUpload;
+  
+  findDuplicateAttachments: (
+    file: File, 
+    uploadedBy: string, 
+    parentId: string
+  ) => Promise<attachmentRepository.AttachmentDuplicates>;
+  
+  linkExistingAttachment: (
+    source: Attachment, 
+    uploadedBy: string, 
+    parentId: string, 
+    parentType: 'pir' | 'question' | 'answer'
+  ) => Promise<Attachment>;
+  
+  fetchAttachmentVersions: (id: string) => Promise<AttachmentVersion[]>;
+  
+  uploadAttachmentVersion: (id: string, file: File, uploadedBy: string) => Promise<Attachment>;
+  
   deleteAttachment: (id: string) => Promise<void>;
   
+  fetchAttachmentPreviewUrls: (attachment: Attachment) => Promise<attachmentRepository.AttachmentPreviewUrls>;
+  
+  fetchAttachmentPolicy: () => Promise<AttachmentPolicy>;
+  
+  updateAttachmentPolicy: (policy: AttachmentPolicy) => Promise<AttachmentPolicy>;
+  
+  fetchAttachmentUsage: (
+    parentId: string, 
+    parentType: 'pir' | 'question' | 'answer'
+  ) => Promise<number>;
+  
   resetAttachmentState: () => void;
 }
 
@@ -34,6 +90,7 @@ export const createAttachmentSlice: StateCreator<AttachmentSlice> = (set, get) =
   attachments: [],
   isLoadingAttachments: false,
   attachmentError: null,
+  attachmentPolicy: DEFAULT_ATTACHMENT_POLICY,
   
   // Fetch attachments for a parent (PIR, Question, or Answer)
   fetchAttachmentsByParentId: async (
@@ -105,6 +162,97 @@ export const createAttachmentSlice: StateCreator<AttachmentSlice> = (set, get) =
     }
   },
   
+  // Start a resumable upload that is linked to its parent as soon as it completes
+  // Uploads run side by side, so loading flags and errors are left to the upload queue
+  startAttachmentUpload: (
+    file: File, 
+    uploadedBy: string, 
+    parentId: string, 
+    parentType: 'pir' | 'question' | 'answer', 
+    onProgress?: (bytesTransferred: number, totalBytes: number) => void
+  ) => {
+    const upload = attachmentRepository.startAttachmentUpload(file, uploadedBy, parentId, parentType, onProgress);
+    
+    const result = upload.result.then(async newAttachment => {
+      try {
+        await linkAttachmentToParent(newAttachment);
+      } catch (linkError) {
+        // Remove a file its parent does not list, so it does not linger unseen
+        await attachmentRepository.deleteAttachment(newAttachment.id).catch(() => undefined);
+        throw linkError;
+      }
+      
+      set(state => ({ attachments: [...state.attachments, newAttachment] }));
+      return newAttachment;
+    });
+    
+    return { ...upload, result };
+  },
+  
+  // Find attachments holding a file identical to one about to be uploaded; errors are shown in the upload queue
+  findDuplicateAttachments: async (file: File, uploadedBy: string, parentId: string) => {
+    try {
+      return await attachmentRepository.findDuplicateAttachments(file, uploadedBy, parentId);
+    } catch (error) {
+      console.error(`Error finding attachments identical to ${file.name}:`, error);
+      throw error;
+    }
+  },
+  
+  // Attach the stored file of an existing attachment to another parent instead of uploading a copy
+  // Skips the loading state like uploads do, so the upload queue stays in place
+  linkExistingAttachment: async (
+    source: Attachment, 
+    uploadedBy: string, 
+    parentId: string, 
+    parentType: 'pir' | 'question' | 'answer'
+  ) => {
+    try {
+      const newAttachment = await attachmentRepository.linkExistingAttachment(source, uploadedBy, parentId, parentType);
+      
+      try {
+        await linkAttachmentToParent(newAttachment);
+      } catch (linkError) {
+        // The shared file stays in place for the attachment it was linked from
+        await attachmentRepository.deleteAttachment(newAttachment.id).catch(() => undefined);
+        throw linkError;
+      }
+      
+      set(state => ({ attachments: [...state.attachments, newAttachment] }));
+      return newAttachment;
+    } catch (error) {
+      console.error(`Error linking attachment ${source.id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Fetch the versions of an attachment's file, newest first; errors are shown in the version list
+  fetchAttachmentVersions: async (id: string) => {
+    try {
+      return await attachmentRepository.getAttachmentVersions(id);
+    } catch (error) {
+      console.error(`Error fetching versions of attachment ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Replace the file of an attachment with a new version, keeping the earlier ones
+  // Skips the loading state so the attachment list stays in place; errors are shown next to the attachment
+  uploadAttachmentVersion: async (id: string, file: File, uploadedBy: string) => {
+    try {
+      const updatedAttachment = await attachmentRepository.uploadAttachmentVersion(id, file, uploadedBy);
+      
+      set(state => ({
+        attachments: state.attachments.map(a => a.id === id ? updatedAttachment : a)
+      }));
+      
+      return updatedAttachment;
+    } catch (error) {
+      console.error(`Error uploading a new version of attachment ${id}:`, error);
+      throw error;
+    }
+  },
+  
   // Delete an attachment
   deleteAttachment: async (id: string) => {
     set({ isLoadingAttachments: true, attachmentError: null });
@@ -124,6 +272,54 @@ export const createAttachmentSlice: StateCreator<AttachmentSlice> = (set, get) =
     }
   },
   
+  // Fetch links to the previews of an attachment; errors leave the file icon in place of the thumbnail
+  fetchAttachmentPreviewUrls: async (attachment: Attachment) => {
+    try {
+      return await attachmentRepository.getAttachmentPreviewUrls(attachment);
+    } catch (error) {
+      console.error(`Error fetching previews of attachment ${attachment.id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Fetch the admin-defined limits on uploaded files
+  // The repository checks them again before every upload, so errors are left to the caller
+  fetchAttachmentPolicy: async () => {
+    try {
+      const attachmentPolicy = await settingsRepository.getAttachmentPolicy();
+      set({ attachmentPolicy });
+      return attachmentPolicy;
+    } catch (error) {
+      console.error('Error fetching attachment policy:', error);
+      throw error;
+    }
+  },
+  
+  // Replace the limits on uploaded files
+  updateAttachmentPolicy: async (policy: AttachmentPolicy) => {
+    try {
+      const attachmentPolicy = await settingsRepository.updateAttachmentPolicy(policy);
+      set({ attachmentPolicy });
+      return attachmentPolicy;
+    } catch (error) {
+      console.error('Error updating attachment policy:', error);
+      throw error;
+    }
+  },
+  
+  // Fetch the bytes the attachments of a parent's PIR take up, to check files against the PIR's total
+  fetchAttachmentUsage: async (
+    parentId: string, 
+    parentType: 'pir' | 'question' | 'answer'
+  ) => {
+    try {
+      return await attachmentRepository.getPIRAttachmentUsage(parentId, parentType);
+    } catch (error) {
+      console.error(`Error fetching attachment usage for ${parentType} ${parentId}:`, error);
+      throw error;
+    }
+  },
+  
   // Reset attachment state
   resetAttachmentState: () => {
     set({
@@ -0,0 +1,88 @@
+// PIR Discussion State Management
+import { StateCreator } from 'zustand';
+import { CommentMention, PIRComment } from '../types';
+import * as commentRepository from '../integrations/firebase/repositories/commentRepository';
+
+export interface CommentSlice {
+  // State
+  comments: PIRComment[];
+  commentsPIRId: string | null; // PIR the comments are being listened to for
+  isLoadingComments: boolean;
+  commentError: string | null;
+  
+  // Actions
+  subscribeToComments: (pirId: string) => () => void;
+  addComment: (comment: Omit<PIRComment, 'id' | 'createdAt' | 'updatedAt'>) => Promise<PIRComment>;
+  updateComment: (pirId: string, id: string, text: string, mentions: CommentMention[]) => Promise<void>;
+  deleteComment: (pirId: string, id: string) => Promise<void>;
+  resetCommentState: () => void;
+}
+
+export const createCommentSlice: StateCreator<CommentSlice> = (set, get) => ({
+  // Initial state
+  comments: [],
+  commentsPIRId: null,
+  isLoadingComments: false,
+  commentError: null,
+  
+  // Keep the comments of a PIR up to date in real time; returns the function that stops listening
+  subscribeToComments: (pirId: string) => {
+    set({ comments: [], commentsPIRId: pirId, isLoadingComments: true, commentError: null });
+    
+    return commentRepository.subscribeToPIRComments(
+      pirId,
+      (comments) => {
+        // Ignore updates from a listener that is being replaced
+        if (get().commentsPIRId !== pirId) return;
+        set({ comments, isLoadingComments: false, commentError: null });
+      },
+      (error) => {
+        if (get().commentsPIRId !== pirId) return;
+        set({ 
+          commentError: error.message || `Failed to load comments for PIR ${pirId}`, 
+          isLoadingComments: false 
+        });
+      }
+    );
+  },
+  
+  // Add a comment or reply; the listener picks up the new comment
+  // Errors are shown on the comment form
+  addComment: async (comment: Omit<PIRComment, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      return await commentRepository.createComment(comment);
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      throw error;
+    }
+  },
+  
+  // Edit one of the current user's comments
+  updateComment: async (pirId: string, id: string, text: string, mentions: CommentMention[]) => {
+    try {
+      await commentRepository.updateComment(pirId, id, text, mentions);
+    } catch (error) {
+      console.error(`Error updating comment ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Delete one of the current user's comments
+  deleteComment: async (pirId: string, id: string) => {
+    try {
+      await commentRepository.deleteComment(pirId, id);
+    } catch (error) {
+      console.error(`Error deleting comment ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Reset comment state
+  resetCommentState: () => {
+    set({
+      comments: [],
+      commentsPIRId: null,
+      commentError: null
+    });
+  }
+});
\ No newline at end of file
@@ -0,0 +1,45 @@
+// PIR Activity Log State Management
+import { StateCreator } from 'zustand';
+import { PIREvent } from '../types';
+import * as eventRepository from '../integrations/firebase/repositories/eventRepository';
+
+export interface EventSlice {
+  // State
+  pirEvents: PIREvent[];
+  isLoadingEvents: boolean;
+  eventError: string | null;
+  
+  // Actions
+  fetchPIREvents: (pirId: string) => Promise<void>;
+  resetEventState: () => void;
+}
+
+export const createEventSlice: StateCreator<EventSlice> = (set, get) => ({
+  // Initial state
+  pirEvents: [],
+  isLoadingEvents: false,
+  eventError: null,
+  
+  // Fetch the activity log for a PIR
+  fetchPIREvents: async (pirId: string) => {
+    set({ isLoadingEvents: true, eventError: null });
+    try {
+      const pirEvents = await eventRepository.getPIREvents(pirId);
+      set({ pirEvents, isLoadingEvents: false });
+    } catch (error) {
+      console.error(`Error fetching activity for PIR ${pirId}:`, error);
+      set({ 
+        eventError: error instanceof Error ? error.message : `Failed to fetch activity for PIR ${pirId}`, 
+        isLoadingEvents: false 
+      });
+    }
+  },
+  
+  // Reset activity log state
+  resetEventState: () => {
+    set({
+      pirEvents: [],
+      eventError: null
+    });
+  }
+});
@@ -7,6 +7,11 @@ import { createAnswerSlice, AnswerSlice } from './answerSlice';
 import { createTagSlice, TagSlice } from './tagSlice';
 import { createUserSlice, UserSlice } from './userSlice';
 import { createAttachmentSlice, AttachmentSlice } from './attachmentSlice';
+import { createEventSlice, EventSlice } from './eventSlice';
+import { createWorkflowSlice, WorkflowSlice } from './workflowSlice';
+import { createTemplateSlice, TemplateSlice } from './templateSlice';
+import { createQuestionLibrarySlice, QuestionLibrarySlice } from './questionLibrarySlice';
+import { createCommentSlice, CommentSlice } from './commentSlice';
 
 // Define the complete store shape
 export type StoreState = PIRSlice & 
@@ -14,7 +19,12 @@ export type StoreState = PIRSlice &
   AnswerSlice & 
   TagSlice & 
   UserSlice & 
-  AttachmentSlice;
+  AttachmentSlice & 
+  EventSlice & 
+  WorkflowSlice & 
+  TemplateSlice & 
+  QuestionLibrarySlice & 
+  CommentSlice;
 
 // Create the combined store
 export const useStore = create<StoreState>()(
@@ -28,6 +38,11 @@ export const useStore = create<StoreState>()(
         ...createTagSlice(set, get, api),
         ...createUserSlice(set, get, api),
         ...createAttachmentSlice(set, get, api),
+        ...createEventSlice(set, get, api),
+        ...createWorkflowSlice(set, get, api),
+        ...createTemplateSlice(set, get, api),
+        ...createQuestionLibrarySlice(set, get, api),
+        ...createCommentSlice(set, get, api),
       }),
       {
         name: 'stacksio-storage',
@@ -1,7 +1,11 @@
 // PIR State Management
 import { StateCreator } from 'zustand';
-import { PIR, PIRStatus } from '../types';
+import { PIR, PIRSection, PIRStatus, ReviewDecision, User } from '../types';
 import * as pirRepository from '../integrations/firebase/repositories/pirRepository';
+import * as questionRepository from '../integrations/firebase/repositories/questionRepository';
+import { resetReviewDecisions } from '../utils/reviewPolicy';
+import { toTemplateQuestion } from '../utils/questionLibrary';
+import { getNextSectionOrder, normalizeSections } from '../utils/questionOrder';
 
 export interface PIRSlice {
   // State
@@ -19,7 +23,11 @@ export interface PIRSlice {
   fetchPIRById: (id: string) => Promise<void>;
   createPIR: (pir: Omit<PIR, 'id'>) => Promise<PIR>;
   updatePIR: (id: string, updates: Partial<PIR>) => Promise<PIR>;
-  updatePIRStatus: (id: string, status: PIRStatus, additionalData?: Partial<PIR>) => Promise<PIR>;
+  updatePIRStatus: (id: string, status: string, additionalData?: Partial<PIR>) => Promise<PIR>;
+  recordReviewDecision: (id: string, decision: ReviewDecision, notes: string) => Promise<PIR>;
+  duplicatePIR: (id: string, requester: User, initialStatus: string) => Promise<PIR>;
+  updatePIRSections: (id: string, sections: PIRSection[]) => Promise<PIR>;
+  addPIRSection: (id: string, section: Pick<PIRSection, 'title' | 'description'>) => Promise<PIR>;
 }
 
 export const createPIRSlice: StateCreator<PIRSlice> = (set, get) => ({
@@ -161,8 +169,8 @@ export const createPIRSlice: StateCreator<PIRSlice> = (set, get) => ({
     }
   },
   
-  // Update PIR status with timestamp tracking
-  updatePIRStatus: async (id: string, status: PIRStatus, additionalData: Partial<PIR> = {}) => {
+  // Update PIR status through the server-side transition function
+  updatePIRStatus: async (id: string, status: string, additionalData: Partial<PIR> = {}) => {
     set({ isLoading: true, error: null });
     try {
       const updatedPIR = await pirRepository.updatePIRStatus(id, status, additionalData);
@@ -180,5 +188,103 @@ export const createPIRSlice: StateCreator<PIRSlice> = (set, get) => ({
       });
       throw error;
     }
+  },
+  
+  // Record the current user's review decision through the server-side function
+  recordReviewDecision: async (id: string, decision: ReviewDecision, notes: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const updatedPIR = await pirRepository.recordReviewDecision(id, decision, notes);
+      set(state => ({
+        pirs: state.pirs.map(p => p.id === id ? updatedPIR : p),
+        selectedPIR: state.selectedPIR?.id === id ? updatedPIR : state.selectedPIR,
+        isLoading: false
+      }));
+      return updatedPIR;
+    } catch (error) {
+      console.error(`Error recording review decision on PIR ${id}:`, error);
+      set({ 
+        error: error instanceof Error ? error.message : `Failed to record review decision on PIR ${id}`, 
+        isLoading: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Deep-copy a PIR and its questions into a new draft owned by the requester
+  duplicatePIR: async (id: string, requester: User, initialStatus: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const sourcePIR = await pirRepository.getPIRById(id);
+      
+      if (!sourcePIR) {
+        throw new Error(`PIR with ID ${id} not found`);
+      }
+      
+      const questions = await questionRepository.getQuestionsByPIRId(id);
+      
+      const newPIR = await pirRepository.createPIRWithQuestions({
+        title: `Copy of ${sourcePIR.title}`,
+        description: sourcePIR.description,
+        status: initialStatus,
+        requesterId: requester.id,
+        requesterName: requester.displayName,
+        productName: sourcePIR.productName,
+        productCategory: sourcePIR.productCategory,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        tags: [...sourcePIR.tags],
+        questionIds: [],
+        attachmentIds: [],
+        ...(sourcePIR.comments && { comments: sourcePIR.comments }),
+        ...(sourcePIR.reviewers && { reviewers: resetReviewDecisions(sourcePIR.reviewers) }),
+        ...(sourcePIR.approvalPolicy && { approvalPolicy: sourcePIR.approvalPolicy }),
+        ...(sourcePIR.sections && { sections: sourcePIR.sections })
+      }, questions.map(question => toTemplateQuestion({ ...question, sourceId: question.id })));
+      
+      set(state => ({
+        pirs: [newPIR, ...state.pirs],
+        isLoading: false
+      }));
+      return newPIR;
+    } catch (error) {
+      console.error(`Error duplicating PIR ${id}:`, error);
+      set({ 
+        error: error instanceof Error ? error.message : `Failed to duplicate PIR ${id}`, 
+        isLoading: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Save a PIR's question sections without showing the whole PIR as loading
+  updatePIRSections: async (id: string, sections: PIRSection[]) => {
+    try {
+      const updatedPIR = await pirRepository.updatePIR(id, { sections: normalizeSections(sections) });
+      set(state => ({
+        pirs: state.pirs.map(p => p.id === id ? updatedPIR : p),
+        selectedPIR: state.selectedPIR?.id === id ? updatedPIR : state.selectedPIR
+      }));
+      return updatedPIR;
+    } catch (error) {
+      console.error(`Error updating sections of PIR ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Add a section after the PIR's existing sections
+  addPIRSection: async (id: string, section: Pick<PIRSection, 'title' | 'description'>) => {
+    const pir = await pirRepository.getPIRById(id);
+    
+    if (!pir) {
+      throw new Error(`PIR with ID ${id} not found`);
+    }
+    
+    const sections = pir.sections || [];
+    
+    return get().updatePIRSections(id, [
+      ...sections, 
+      { ...section, id: pirRepository.createSectionId(), order: getNextSectionOrder(sections) }
+    ]);
   }
 });
\ No newline at end of file
@@ -0,0 +1,113 @@
+// Question Library State Management
+import { StateCreator } from 'zustand';
+import { LibraryQuestion, LibraryQuestionVersion, Question } from '../types';
+import * as questionLibraryRepository from '../integrations/firebase/repositories/questionLibraryRepository';
+import * as questionRepository from '../integrations/firebase/repositories/questionRepository';
+
+export interface QuestionLibrarySlice {
+  // State
+  libraryQuestions: LibraryQuestion[];
+  isLoadingLibrary: boolean;
+  libraryError: string | null;
+  
+  // Actions
+  fetchLibraryQuestions: (includeArchived?: boolean) => Promise<void>;
+  createLibraryQuestion: (question: Omit<LibraryQuestion, 'id' | 'version' | 'archived'>) => Promise<LibraryQuestion>;
+  updateLibraryQuestion: (id: string, updates: Partial<Omit<LibraryQuestion, 'id' | 'version'>>) => Promise<LibraryQuestion>;
+  setLibraryQuestionArchived: (id: string, archived: boolean) => Promise<LibraryQuestion>;
+  fetchLibraryQuestionVersions: (id: string) => Promise<LibraryQuestionVersion[]>;
+  fetchLibraryQuestionUsage: (id: string) => Promise<Question[]>;
+}
+
+export const createQuestionLibrarySlice: StateCreator<QuestionLibrarySlice> = (set, get) => ({
+  // Initial state
+  libraryQuestions: [],
+  isLoadingLibrary: false,
+  libraryError: null,
+  
+  // Fetch the library questions
+  fetchLibraryQuestions: async (includeArchived: boolean = false) => {
+    set({ isLoadingLibrary: true, libraryError: null });
+    try {
+      const libraryQuestions = await questionLibraryRepository.getLibraryQuestions(includeArchived);
+      set({ libraryQuestions, isLoadingLibrary: false });
+    } catch (error) {
+      console.error('Error fetching library questions:', error);
+      set({ 
+        libraryError: error instanceof Error ? error.message : 'Failed to fetch library questions', 
+        isLoadingLibrary: false 
+      });
+    }
+  },
+  
+  // Create a new library question
+  createLibraryQuestion: async (question: Omit<LibraryQuestion, 'id' | 'version' | 'archived'>) => {
+    set({ isLoadingLibrary: true, libraryError: null });
+    try {
+      const newQuestion = await questionLibraryRepository.createLibraryQuestion(question);
+      set(state => ({
+        libraryQuestions: [...state.libraryQuestions, newQuestion].sort((a, b) => a.text.localeCompare(b.text)),
+        isLoadingLibrary: false
+      }));
+      return newQuestion;
+    } catch (error) {
+      console.error('Error creating library question:', error);
+      set({ 
+        libraryError: error instanceof Error ? error.message : 'Failed to create library question', 
+        isLoadingLibrary: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Update a library question, creating a new version when its content changes
+  updateLibraryQuestion: async (id: string, updates: Partial<Omit<LibraryQuestion, 'id' | 'version'>>) => {
+    set({ isLoadingLibrary: true, libraryError: null });
+    try {
+      const updatedQuestion = await questionLibraryRepository.updateLibraryQuestion(id, updates);
+      set(state => ({
+        libraryQuestions: state.libraryQuestions.map(q => q.id === id ? updatedQuestion : q),
+        isLoadingLibrary: false
+      }));
+      return updatedQuestion;
+    } catch (error) {
+      console.error(`Error updating library question ${id}:`, error);
+      set({ 
+        libraryError: error instanceof Error ? error.message : `Failed to update library question ${id}`, 
+        isLoadingLibrary: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Archive a library question so it is no longer offered, or restore it
+  setLibraryQuestionArchived: async (id: string, archived: boolean) => {
+    return get().updateLibraryQuestion(id, { archived });
+  },
+  
+  // Fetch the version history of a library question
+  fetchLibraryQuestionVersions: async (id: string) => {
+    try {
+      return await questionLibraryRepository.getLibraryQuestionVersions(id);
+    } catch (error) {
+      console.error(`Error fetching versions of library question ${id}:`, error);
+      set({ 
+        libraryError: error instanceof Error ? error.message : `Failed to fetch versions of library question ${id}` 
+      });
+      throw error;
+    }
+  },
+  
+  // Fetch the PIR questions added from a library question
+  fetchLibraryQuestionUsage: async (id: string) => {
+    try {
+      return await questionRepository.getQuestionsByLibraryQuestionId(id);
+    } catch (error) {
+      console.error(`Error fetching usage of library question ${id}:`, error);
+      set({ 
+        libraryError: error instanceof Error ? error.message : `Failed to fetch usage of library question ${id}` 
+      });
+      throw error;
+    }
+  }
+});
\ No newline at end of file
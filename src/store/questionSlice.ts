@@ -1,7 +1,11 @@
 // Question State Management
 import { StateCreator } from 'zustand';
-import { Question } from '../types';
+import { LibraryQuestion, PIRSection, Question, QuestionPlacement } from '../types';
 import * as questionRepository from '../integrations/firebase/repositories/questionRepository';
+import * as pirRepository from '../integrations/firebase/repositories/pirRepository';
+import { toPIRQuestion } from '../utils/questionLibrary';
+import { applyQuestionPlacements, getNextQuestionOrder } from '../utils/questionOrder';
+import { QuestionImportRow, toImportedQuestions } from '../utils/questionImport';
 
 export interface QuestionSlice {
   // State
@@ -16,6 +20,9 @@ export interface QuestionSlice {
   createQuestion: (question: Omit<Question, 'id'>) => Promise<Question>;
   updateQuestion: (id: string, updates: Partial<Question>) => Promise<Question>;
   createMultipleQuestions: (questions: Array<Omit<Question, 'id'>>) => Promise<Question[]>;
+  addLibraryQuestionsToPIR: (pirId: string, libraryQuestions: LibraryQuestion[], createdBy: string) => Promise<Question[]>;
+  importQuestions: (pirId: string, rows: QuestionImportRow[], sections: PIRSection[], createdBy: string) => Promise<Question[]>;
+  reorderQuestions: (placements: QuestionPlacement[]) => Promise<void>;
   resetQuestionState: () => void;
 }
 
@@ -117,6 +124,68 @@ export const createQuestionSlice: StateCreator<QuestionSlice> = (set, get) => ({
     }
   },
   
+  // Add copies of library questions to a PIR, keeping a reference to each library entry
+  addLibraryQuestionsToPIR: async (pirId: string, libraryQuestions: LibraryQuestion[], createdBy: string) => {
+    set({ isLoadingQuestions: true, questionError: null });
+    try {
+      // Library questions are added last, outside any section
+      const firstOrder = getNextQuestionOrder(get().questions.filter(question => question.pirId === pirId));
+      
+      const newQuestions = await pirRepository.addNewQuestionsToPIR(
+        pirId,
+        libraryQuestions.map((libraryQuestion, index) => ({
+          ...toPIRQuestion(libraryQuestion, pirId, createdBy),
+          order: firstOrder + index
+        }))
+      );
+      
+      set(state => ({
+        questions: [...state.questions, ...newQuestions],
+        isLoadingQuestions: false
+      }));
+      return newQuestions;
+    } catch (error) {
+      console.error(`Error adding library questions to PIR ${pirId}:`, error);
+      set({ 
+        questionError: error instanceof Error ? error.message : 'Failed to add library questions', 
+        isLoadingQuestions: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Add the importable rows of a file to a PIR in one write; failures are left to the import preview
+  importQuestions: async (pirId: string, rows: QuestionImportRow[], sections: PIRSection[], createdBy: string) => {
+    const pirQuestions = get().questions.filter(question => question.pirId === pirId);
+    
+    try {
+      const newQuestions = await pirRepository.addNewQuestionsToPIR(
+        pirId,
+        toImportedQuestions(rows, pirId, createdBy, pirQuestions, sections)
+      );
+      
+      set(state => ({ questions: [...state.questions, ...newQuestions] }));
+      return newQuestions;
+    } catch (error) {
+      console.error(`Error importing questions to PIR ${pirId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Move questions to their new places right away, restoring the old order if saving fails
+  reorderQuestions: async (placements: QuestionPlacement[]) => {
+    const previousQuestions = get().questions;
+    set(state => ({ questions: applyQuestionPlacements(state.questions, placements) }));
+    
+    try {
+      await questionRepository.updateQuestionPlacements(placements);
+    } catch (error) {
+      console.error('Error reordering questions:', error);
+      set({ questions: previousQuestions });
+      throw error;
+    }
+  },
+  
   // Reset question state
   resetQuestionState: () => {
     set({
@@ -0,0 +1,132 @@
+// PIR Template State Management
+import { StateCreator } from 'zustand';
+import { PIR, PIRTemplate } from '../types';
+import * as templateRepository from '../integrations/firebase/repositories/templateRepository';
+import * as pirRepository from '../integrations/firebase/repositories/pirRepository';
+import * as questionRepository from '../integrations/firebase/repositories/questionRepository';
+import * as attachmentRepository from '../integrations/firebase/repositories/attachmentRepository';
+import { toTemplateQuestion } from '../utils/questionLibrary';
+
+export interface TemplateSlice {
+  // State
+  templates: PIRTemplate[];
+  isLoadingTemplates: boolean;
+  templateError: string | null;
+  
+  // Actions
+  fetchTemplates: () => Promise<void>;
+  saveTemplateFromPIR: (pir: PIR, name: string, includeAttachments: boolean, createdBy: string) => Promise<PIRTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+  createPIRFromTemplate: (pir: Omit<PIR, 'id'>, template: PIRTemplate) => Promise<PIR>;
+}
+
+export const createTemplateSlice: StateCreator<TemplateSlice> = (set) => ({
+  // Initial state
+  templates: [],
+  isLoadingTemplates: false,
+  templateError: null,
+  
+  // Fetch all templates
+  fetchTemplates: async () => {
+    set({ isLoadingTemplates: true, templateError: null });
+    try {
+      const templates = await templateRepository.getTemplates();
+      set({ templates, isLoadingTemplates: false });
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      set({ 
+        templateError: error instanceof Error ? error.message : 'Failed to fetch templates', 
+        isLoadingTemplates: false 
+      });
+    }
+  },
+  
+  // Save a PIR's fields, tags, questions and optionally its attachments as a template
+  saveTemplateFromPIR: async (pir: PIR, name: string, includeAttachments: boolean, createdBy: string) => {
+    set({ isLoadingTemplates: true, templateError: null });
+    try {
+      const questions = await questionRepository.getQuestionsByPIRId(pir.id);
+      const attachments = includeAttachments 
+        ? await attachmentRepository.getAttachmentsByParentId(pir.id, 'pir') 
+        : [];
+      
+      const newTemplate = await templateRepository.createTemplate({
+        name,
+        description: pir.description,
+        productName: pir.productName,
+        productCategory: pir.productCategory,
+        tags: [...pir.tags],
+        ...(pir.comments && { comments: pir.comments }),
+        questions: questions.map(question => toTemplateQuestion({ ...question, sourceId: question.id })),
+        ...(pir.sections && { sections: pir.sections }),
+        sourcePIRId: pir.id,
+        createdBy,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }, attachments);
+      
+      set(state => ({
+        templates: [...state.templates, newTemplate].sort((a, b) => a.name.localeCompare(b.name)),
+        isLoadingTemplates: false
+      }));
+      return newTemplate;
+    } catch (error) {
+      console.error('Error saving template:', error);
+      set({ 
+        templateError: error instanceof Error ? error.message : 'Failed to save template', 
+        isLoadingTemplates: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Delete a template
+  deleteTemplate: async (id: string) => {
+    set({ isLoadingTemplates: true, templateError: null });
+    try {
+      await templateRepository.deleteTemplate(id);
+      set(state => ({
+        templates: state.templates.filter(t => t.id !== id),
+        isLoadingTemplates: false
+      }));
+    } catch (error) {
+      console.error(`Error deleting template ${id}:`, error);
+      set({ 
+        templateError: error instanceof Error ? error.message : `Failed to delete template ${id}`, 
+        isLoadingTemplates: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Create a PIR with the template's questions and copies of its files
+  createPIRFromTemplate: async (pir: Omit<PIR, 'id'>, template: PIRTemplate) => {
+    set({ templateError: null });
+    try {
+      const createdPIR = await pirRepository.createPIRWithQuestions(
+        { ...pir, ...(template.sections && { sections: template.sections }) }, 
+        template.questions
+      );
+      
+      for (const templateAttachment of template.attachments) {
+        const attachment = await attachmentRepository.copyTemplateAttachment(
+          template.id, 
+          templateAttachment, 
+          pir.requesterId, 
+          createdPIR.id, 
+          'pir'
+        );
+        await pirRepository.addAttachmentToPIR(createdPIR.id, attachment.id);
+        createdPIR.attachmentIds = [...createdPIR.attachmentIds, attachment.id];
+      }
+      
+      return createdPIR;
+    } catch (error) {
+      console.error(`Error creating PIR from template ${template.id}:`, error);
+      set({ 
+        templateError: error instanceof Error ? error.message : 'Failed to create PIR from template'
+      });
+      throw error;
+    }
+  }
+});
\ No newline at end of file
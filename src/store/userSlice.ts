@@ -1,6 +1,7 @@
 // User Authentication State Management
 import { StateCreator } from 'zustand';
 import { 
+  PIR, 
   User, 
   UserRole 
 } from '../types';
@@ -19,6 +20,8 @@ import {
   updateDoc
 } from 'firebase/firestore';
 import { auth, db } from '../integrations/firebase/client';
+import * as userRepository from '../integrations/firebase/repositories/userRepository';
+import { getMentionableUserIds } from '../utils/mentions';
 
 export interface UserSlice {
   // State
@@ -26,6 +29,8 @@ export interface UserSlice {
   isAuthenticated: boolean;
   isLoading: boolean;
   authError: string | null;
+  reviewerCandidates: User[];
+  mentionCandidates: User[];
   
   // Actions
   signUp: (email: string, password: string, displayName: string, role: UserRole, department?: string) => Promise<void>;
@@ -34,6 +39,8 @@ export interface UserSlice {
   updateUserProfile: (updates: Partial<User>) => Promise<void>;
   loadUserData: () => Promise<void>;
   initializeAuthListener: () => void;
+  fetchReviewerCandidates: () => Promise<void>;
+  fetchMentionCandidates: (pir: PIR) => Promise<void>;
 }
 
 export const createUserSlice: StateCreator<UserSlice> = (set, get) => ({
@@ -42,6 +49,8 @@ export const createUserSlice: StateCreator<UserSlice> = (set, get) => ({
   isAuthenticated: false,
   isLoading: false,
   authError: null,
+  reviewerCandidates: [],
+  mentionCandidates: [],
   
   // Sign up a new user
   signUp: async (email: string, password: string, displayName: string, role: UserRole, department?: string) => {
@@ -221,5 +230,28 @@ export const createUserSlice: StateCreator<UserSlice> = (set, get) => ({
         });
       }
     });
+  },
+  
+  // Load the users who can be assigned as required reviewers
+  fetchReviewerCandidates: async () => {
+    try {
+      const reviewerCandidates = await userRepository.getUsersByRoles([UserRole.REVIEWER, UserRole.ADMIN]);
+      set({ reviewerCandidates });
+    } catch (error) {
+      // The reviewer picker stays empty; this is not an authentication error
+      console.error('Error fetching reviewer candidates:', error);
+    }
+  },
+  
+  // Load the users who can be @mentioned in comments on a PIR
+  fetchMentionCandidates: async (pir: PIR) => {
+    try {
+      const participantIds = getMentionableUserIds(pir);
+      const users = await userRepository.getUsers();
+      set({ mentionCandidates: users.filter(user => participantIds.includes(user.id)) });
+    } catch (error) {
+      // Mentions stay unavailable; comments can still be written
+      console.error('Error fetching mention candidates:', error);
+    }
   }
 });
\ No newline at end of file
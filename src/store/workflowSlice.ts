@@ -0,0 +1,85 @@
+// Workflow Definition State Management
+import { StateCreator } from 'zustand';
+import { WorkflowDefinition } from '../types';
+import * as workflowRepository from '../integrations/firebase/repositories/workflowRepository';
+import { selectWorkflow } from '../utils/pirWorkflow';
+
+export interface WorkflowSlice {
+  // State
+  workflows: WorkflowDefinition[];
+  isLoadingWorkflows: boolean;
+  workflowError: string | null;
+  
+  // Actions
+  fetchWorkflows: () => Promise<void>;
+  createWorkflow: (workflow: Omit<WorkflowDefinition, 'id'>) => Promise<WorkflowDefinition>;
+  updateWorkflow: (id: string, updates: Partial<WorkflowDefinition>) => Promise<WorkflowDefinition>;
+  getWorkflowForCategory: (productCategory: string) => WorkflowDefinition;
+}
+
+export const createWorkflowSlice: StateCreator<WorkflowSlice> = (set, get) => ({
+  // Initial state
+  workflows: [],
+  isLoadingWorkflows: false,
+  workflowError: null,
+  
+  // Fetch all workflow definitions
+  fetchWorkflows: async () => {
+    set({ isLoadingWorkflows: true, workflowError: null });
+    try {
+      const workflows = await workflowRepository.getWorkflows();
+      set({ workflows, isLoadingWorkflows: false });
+    } catch (error) {
+      console.error('Error fetching workflows:', error);
+      set({ 
+        workflowError: error instanceof Error ? error.message : 'Failed to fetch workflows', 
+        isLoadingWorkflows: false 
+      });
+    }
+  },
+  
+  // Create a new workflow definition
+  createWorkflow: async (workflow: Omit<WorkflowDefinition, 'id'>) => {
+    set({ isLoadingWorkflows: true, workflowError: null });
+    try {
+      const newWorkflow = await workflowRepository.createWorkflow(workflow);
+      set(state => ({
+        workflows: [...state.workflows, newWorkflow],
+        isLoadingWorkflows: false
+      }));
+      return newWorkflow;
+    } catch (error) {
+      console.error('Error creating workflow:', error);
+      set({ 
+        workflowError: error instanceof Error ? error.message : 'Failed to create workflow', 
+        isLoadingWorkflows: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Update an existing workflow definition
+  updateWorkflow: async (id: string, updates: Partial<WorkflowDefinition>) => {
+    set({ isLoadingWorkflows: true, workflowError: null });
+    try {
+      const updatedWorkflow = await workflowRepository.updateWorkflow(id, updates);
+      set(state => ({
+        workflows: state.workflows.map(w => w.id === id ? updatedWorkflow : w),
+        isLoadingWorkflows: false
+      }));
+      return updatedWorkflow;
+    } catch (error) {
+      console.error(`Error updating workflow ${id}:`, error);
+      set({ 
+        workflowError: error instanceof Error ? error.message : `Failed to update workflow ${id}`, 
+        isLoadingWorkflows: false 
+      });
+      throw error;
+    }
+  },
+  
+  // Get the workflow that applies to a product category
+  getWorkflowForCategory: (productCategory: string) => {
+    return selectWorkflow(get().workflows, productCategory);
+  }
+});
\ No newline at end of file
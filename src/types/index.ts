@@ -21,34 +21,226 @@ export enum PIRStatus {
   SUBMITTED = 'submitted', 
   REVIEWED = 'reviewed',
   ACCEPTED = 'accepted',
-  REJECTED = 'rejected'
+  REJECTED = 'rejected',
+  ON_HOLD = 'on_hold',
+  CANCELLED = 'cancelled'
 }
 
 export interface PIR {
   id: string;
   title: string;
   description: string;
-  status: PIRStatus;
+  status: string; // A PIRStatus or a custom state of the PIR's workflow
   requesterId: string;
   requesterName: string;
   assignedResponderId?: string;
   assignedResponderName?: string;
   reviewerId?: string;
   reviewerName?: string;
+  reviewers?: PIRReviewer[]; // Required reviewers, in sign-off order
+  approvalPolicy?: ApprovalPolicy;
   productName: string;
   productCategory: string;
   createdAt: Date;
   updatedAt: Date;
+  updatedBy?: string; // ID of the user who last changed the PIR
   submittedAt?: Date;
   reviewedAt?: Date;
   acceptedAt?: Date;
   rejectedAt?: Date;
+  heldAt?: Date;
+  cancelledAt?: Date;
+  holdReason?: string;
+  cancellationReason?: string;
+  statusBeforeHold?: string; // Status a held PIR resumes to
   completionDeadline?: Date;
+  isOverdue?: boolean; // Set by the scheduled deadline check
+  overdueSince?: Date;
+  remindersSent?: number[]; // Reminder offsets (hours before the deadline) already sent
+  escalatedAt?: Date;
+  slaTrackedDeadline?: Date; // Deadline the reminder and escalation fields refer to
   tags: string[];
   questionIds: string[];
   attachmentIds: string[];
-  comments?: string;
+  comments?: string; // Requester's notes; discussion happens in the comments subcollection
   reviewNotes?: string;
+  revisionRound?: number;
+  revisionHistory?: PIRRevision[];
+  sections?: PIRSection[]; // Groups of the PIR's questions; questions outside a section are listed first
+  reopenedQuestionIds?: string[]; // Questions sent back to the responder in this round; every question is open when unset
+  progress?: PIRProgress; // Kept up to date by a Cloud Function when questions or answers change
+  unsavedAnswerIds?: string[]; // Answers that had files uploaded before they were saved, counted toward the attachment total
+}
+
+/**
+ * How far the questions of a PIR have been answered; hidden conditional
+ * questions are not counted
+ */
+export interface PIRProgress {
+  totalQuestions: number;
+  answeredQuestions: number;
+  requiredQuestions: number;
+  answeredRequiredQuestions: number;
+  percentComplete: number; // Share of required questions answered, or of all questions when none are required
+  answeredQuestionIds?: string[]; // Every question with an answer, hidden ones included
+  updatedAt?: Date;
+}
+
+/**
+ * A titled group of a PIR's questions
+ */
+export interface PIRSection {
+  id: string;
+  title: string;
+  description?: string;
+  order: number;
+}
+
+/**
+ * A completed review round of a PIR that was sent back to the responder
+ */
+export interface PIRRevision {
+  round: number;
+  submittedAt?: Date;
+  reviewedAt?: Date;
+  rejectedAt?: Date;
+  returnedAt: Date;
+  returnedById: string;
+  returnedByName: string;
+  reviewNotes: string;
+  reviewerDecisions?: PIRReviewer[];
+  reopenedQuestionIds?: string[];
+}
+
+export type ReviewDecision = 'approved' | 'rejected';
+
+/**
+ * A required reviewer of a PIR and their decision in the current review round
+ */
+export interface PIRReviewer {
+  userId: string;
+  displayName: string;
+  reviewRole?: string; // e.g. Quality or Regulatory
+  decision?: ReviewDecision;
+  notes?: string;
+  decidedAt?: Date;
+}
+
+/**
+ * How the decisions of a PIR's required reviewers combine into an outcome
+ */
+export interface ApprovalPolicy {
+  mode: 'parallel' | 'sequential';
+  quorum?: number; // Approvals needed in parallel mode, defaults to every reviewer
+}
+
+/**
+ * PIR participants that may perform a transition regardless of their role
+ */
+export type PIRParticipant = 'requester' | 'responder' | 'reviewer';
+
+/**
+ * PIR fields stamped with the transition time when a transition completes
+ */
+export type PIRStatusTimestampField = 'submittedAt' | 'reviewedAt' | 'acceptedAt' | 'rejectedAt' | 'heldAt' | 'cancelledAt';
+
+export interface PIRTransition {
+  from: string;
+  to: string;
+  actionLabel: string;
+  allowedRoles: UserRole[];
+  allowedParticipants: PIRParticipant[];
+  requiredFields: Array<keyof PIR>;
+  requiredInput?: Array<keyof PIR>; // Fields the user must provide with the transition
+  requiresAnsweredQuestions?: boolean; // All required questions must have an answer
+  startsRevision?: boolean; // Sends the PIR back to the responder for another round
+  timestampField?: PIRStatusTimestampField;
+  stampReviewer?: boolean; // Record the acting user as the PIR reviewer
+  approvalOutcome?: ReviewDecision; // Only allowed once the required reviewers reach this outcome
+  holdsPIR?: boolean; // Remembers the current status so the PIR can resume to it
+  resumesHold?: boolean; // Only allowed back to the status the PIR was held in
+  notify?: WorkflowRecipient[]; // Who receives an email when the transition happens
+}
+
+/**
+ * Colors available for workflow states in badges and action buttons
+ */
+export type WorkflowColor = 'gray' | 'blue' | 'yellow' | 'purple' | 'green' | 'red' | 'orange' | 'indigo' | 'pink' | 'teal';
+
+export type WorkflowRecipient = PIRParticipant | 'admins';
+
+export interface WorkflowState {
+  key: string; // Value stored in PIR.status
+  label: string;
+  color: WorkflowColor;
+  terminal?: boolean; // No further work happens on PIRs in this state
+}
+
+/**
+ * Admin-defined PIR lifecycle, selected for a PIR by its product category
+ */
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  productCategories: string[];
+  isDefault?: boolean; // Used for categories no other workflow claims
+  initialState: string;
+  states: WorkflowState[];
+  transitions: PIRTransition[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Deadline reminder and escalation settings, stored in settings/sla
+ */
+export interface SLAConfig {
+  reminderOffsetsHours: number[]; // Send a reminder this many hours before the deadline
+  escalationGraceHours: number; // Escalate this many hours after the deadline passed
+}
+
+export enum QuestionType {
+  YES_NO = 'yes_no',
+  SINGLE_CHOICE = 'single_choice',
+  MULTIPLE_CHOICE = 'multiple_choice',
+  NUMBER = 'number',
+  DATE = 'date',
+  TEXT = 'text',
+  FILE = 'file'
+}
+
+/**
+ * A number answer with the unit it was given in
+ */
+export interface NumberAnswerValue {
+  amount: number;
+  unit?: string;
+}
+
+/**
+ * Structured answer value; its shape depends on the question type:
+ * yes/no → boolean, single choice and text → string, multiple choice → string[],
+ * number → NumberAnswerValue, date → Date, file → null (the files are the answer)
+ */
+export type AnswerValue = boolean | string | string[] | NumberAnswerValue | Date | null;
+
+export type QuestionConditionOperator = 'answered' | 'equals' | 'not_equals' | 'greater_than' | 'less_than';
+
+/**
+ * A condition on the latest answer to another question of the same PIR
+ */
+export interface QuestionCondition {
+  questionId: string;
+  operator: QuestionConditionOperator;
+  value?: string | number | boolean; // Multiple choice answers are equal when they include the value
+}
+
+/**
+ * When a question is shown; questions without visibility are always shown
+ */
+export interface QuestionVisibility {
+  match: 'all' | 'any';
+  conditions: QuestionCondition[];
 }
 
 export interface Question {
@@ -57,22 +249,173 @@ export interface Question {
   text: string;
   category: string;
   required: boolean;
+  type?: QuestionType; // Questions without a type are free text
+  options?: string[]; // Choices of single and multiple choice questions
+  units?: string[]; // Units a number can be given in
+  visibility?: QuestionVisibility;
+  sectionId?: string; // Section of the PIR the question belongs to
+  order?: number; // Position within its section; questions without one follow, oldest first
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
+  updatedBy?: string;
   attachmentIds: string[];
+  guidance?: string;
+  libraryQuestionId?: string; // Library entry the question was added from
+  libraryVersion?: number; // Version of the library entry when it was added
+}
+
+/**
+ * Where a question sits in its PIR, written when questions are reordered
+ */
+export interface QuestionPlacement {
+  id: string;
+  sectionId: string | null; // Null for questions outside any section
+  order: number;
+}
+
+/**
+ * A reusable question managed in the question library
+ */
+export interface LibraryQuestion {
+  id: string;
+  text: string;
+  category: string;
+  required: boolean;
+  type?: QuestionType;
+  options?: string[];
+  units?: string[];
+  guidance?: string;
+  tags: string[];
+  version: number;
+  archived: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+/**
+ * Snapshot of a library question, stored under questionLibrary/{id}/versions
+ */
+export interface LibraryQuestionVersion {
+  id: string;
+  version: number;
+  text: string;
+  category: string;
+  required: boolean;
+  type?: QuestionType;
+  options?: string[];
+  units?: string[];
+  guidance?: string;
+  tags: string[];
+  createdBy: string;
+  createdAt: Date;
 }
 
 export interface Answer {
   id: string;
   questionId: string;
   pirId: string;
-  text: string;
+  text: string; // Readable form of the value, or the answer itself for free text
+  value?: AnswerValue;
   responderId: string;
   responderName: string;
   createdAt: Date;
   updatedAt: Date;
+  updatedBy?: string;
+  attachmentIds: string[];
+  version?: number; // Current revision; answers saved before revisions were kept have none
+  revisedAt?: Date; // When the content last changed, unlike updatedAt which any write stamps
+  review?: AnswerReview; // Latest reviewer decision on this answer
+  sourcePIRId?: string; // PIR of the earlier answer this one was reused from
+  sourceAnswerId?: string;
+}
+
+export type AnswerReviewStatus = 'accepted' | 'needs_clarification' | 'rejected';
+
+/**
+ * A reviewer's decision on a single answer
+ */
+export interface AnswerReview {
+  status: AnswerReviewStatus;
+  comment?: string; // Required unless the answer is accepted
+  reviewerId: string;
+  reviewerName: string;
+  reviewedAt: Date;
+  round: number; // Review round of the PIR the decision was made in
+}
+
+/**
+ * A revision of an answer, stored under answers/{id}/versions
+ */
+export interface AnswerVersion {
+  id: string;
+  version: number;
+  text: string;
+  value?: AnswerValue;
   attachmentIds: string[];
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: Date;
+}
+
+/**
+ * An answer being written but not yet submitted, saved per user and question
+ * under answerDrafts/{userId}_{questionId}
+ */
+export interface AnswerDraft {
+  id: string;
+  userId: string;
+  pirId: string;
+  questionId: string;
+  text: string;
+  value?: AnswerValue;
+  sourcePIRId?: string; // Earlier PIR the draft reuses an answer from
+  sourceAnswerId?: string;
+  updatedAt: Date;
+}
+
+/**
+ * A question copied into a template or a duplicated PIR
+ */
+export type PIRTemplateQuestion = Pick<
+  Question, 
+  'text' | 'category' | 'required' | 'type' | 'options' | 'units' | 'visibility' | 'sectionId' | 'order' | 
+  'guidance' | 'libraryQuestionId' | 'libraryVersion'
+> & {
+  sourceId?: string; // ID of the copied question, referenced by the visibility conditions of the other copies
+};
+
+/**
+ * A file stored with a template and copied into PIRs created from it
+ */
+export interface PIRTemplateAttachment {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  storagePath: string;
+  downloadUrl: string;
+}
+
+/**
+ * Reusable PIR fields, tags and questions saved from an existing PIR
+ */
+export interface PIRTemplate {
+  id: string;
+  name: string;
+  description: string;
+  productName: string;
+  productCategory: string;
+  tags: string[];
+  comments?: string;
+  questions: PIRTemplateQuestion[];
+  sections?: PIRSection[];
+  attachments: PIRTemplateAttachment[];
+  sourcePIRId?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface Tag {
@@ -91,7 +434,118 @@ export interface Attachment {
   uploadedAt: Date;
   parentId: string; // pirId, questionId, or answerId
   parentType: 'pir' | 'question' | 'answer';
+  pirId?: string; // PIR of the parent, recorded so files of answers not saved yet can be traced to it
+  downloadUrl: string;
+  updatedBy?: string;
+  version?: number; // Current version of the file; attachments uploaded before versions were kept have none
+  storagePath?: string; // Location of the current file in Storage
+  storedSize?: number; // Bytes stored across all versions of the file
+  policyViolation?: string; // Why the file was removed for breaking the attachment policy
+  thumbnailPath?: string; // Small image of the file, set once the preview function has rendered it
+  previewPath?: string; // Larger image of the file, or of the first page of a PDF
+  contentHash?: string; // SHA-256 of the current file in hex, used to find identical files
+  linkedFromId?: string; // Attachment whose stored file this one shares instead of storing a copy
+}
+
+/**
+ * A version of an attachment's file, stored under attachments/{id}/versions
+ */
+export interface AttachmentVersion {
+  id: string;
+  version: number;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
   downloadUrl: string;
+  uploadedBy: string;
+  uploadedByName: string | null;
+  uploadedAt: Date;
+  storagePath?: string;
+  contentHash?: string;
+}
+
+/**
+ * File types accepted for attachments of one kind of parent; an empty list
+ * allows any type
+ */
+export interface AttachmentTypeRule {
+  allowedMimeTypes: string[]; // e.g. application/pdf, or image/* for any image
+  allowedExtensions: string[]; // e.g. pdf, without the dot
+}
+
+/**
+ * Admin-defined limits on uploaded files, stored in settings/attachmentPolicy
+ */
+export interface AttachmentPolicy {
+  fileTypes: Record<'pir' | 'question' | 'answer', AttachmentTypeRule>;
+  maxFileSizeBytes: number;
+  maxTotalSizePerPIRBytes: number; // Counts every version of every file of the PIR, its questions and answers
+}
+
+/**
+ * A file removed from Storage by the policy check after being uploaded
+ * without going through the app's checks, stored in attachmentViolations
+ */
+export interface AttachmentViolation {
+  id: string;
+  storagePath: string;
+  parentType: 'pir' | 'question' | 'answer';
+  parentId: string;
+  pirId: string | null;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  reason: string;
+  detectedAt: Date;
+}
+
+export type PIREventAction = 'created' | 'updated' | 'deleted' | 'status_changed';
+
+export type PIREventEntityType = 'pir' | 'question' | 'answer' | 'attachment';
+
+/**
+ * Immutable activity log entry stored under pirs/{pirId}/events
+ */
+export interface PIREvent {
+  id: string;
+  pirId: string;
+  actorId: string | null;
+  actorName: string;
+  action: PIREventAction;
+  entityType: PIREventEntityType;
+  entityId: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  createdAt: Date;
+}
+
+export type CommentTargetType = 'pir' | 'question' | 'answer';
+
+/**
+ * A user mentioned in a comment with @Display Name
+ */
+export interface CommentMention {
+  userId: string;
+  displayName: string;
+}
+
+/**
+ * A discussion comment stored under pirs/{pirId}/comments; replies point to
+ * the top-level comment of their thread
+ */
+export interface PIRComment {
+  id: string;
+  pirId: string;
+  targetType: CommentTargetType;
+  targetId: string; // ID of the PIR, question or answer being discussed
+  parentId?: string; // Top-level comment this replies to
+  text: string;
+  mentions: CommentMention[];
+  authorId: string;
+  authorName: string;
+  createdAt: Date;
+  updatedAt: Date;
+  editedAt?: Date;
+  deletedAt?: Date; // Deleted comments with replies stay as a placeholder
 }
 
 export interface EmailNotification {
@@ -0,0 +1,94 @@
+// Autosaved answer drafts: IDs, the copy kept in the browser and choosing between copies
+
+import { AnswerDraft } from '../types';
+
+/**
+ * How long the answer form waits after the last change before saving a draft
+ */
+export const ANSWER_DRAFT_SAVE_DELAY_MS = 1500;
+
+const LOCAL_STORAGE_PREFIX = 'answerDraft:';
+
+/**
+ * Get the ID of a user's draft answer to a question; each user keeps one draft
+ * per question
+ */
+export const getAnswerDraftId = (userId: string, questionId: string): string => {
+  return `${userId}_${questionId}`;
+};
+
+const getLocalStorageKey = (userId: string, questionId: string): string => {
+  return `${LOCAL_STORAGE_PREFIX}${getAnswerDraftId(userId, questionId)}`;
+};
+
+/**
+ * Check whether a draft holds anything worth keeping
+ */
+export const isEmptyAnswerDraft = (draft: Pick<AnswerDraft, 'text' | 'value'>): boolean => {
+  const { value } = draft;
+  
+  if (draft.text.trim()) return false;
+  if (Array.isArray(value)) return value.length === 0;
+  
+  return value === null || value === undefined || value === '';
+};
+
+/**
+ * Read the draft kept in this browser, or null when there is none or it cannot
+ * be read
+ *
+ * Dates are stored tagged so the date answers and the save time come back as Dates.
+ */
+export const readLocalAnswerDraft = (userId: string, questionId: string): AnswerDraft | null => {
+  try {
+    const stored = window.localStorage.getItem(getLocalStorageKey(userId, questionId));
+    
+    if (!stored) return null;
+    
+    return JSON.parse(stored, (_key, value) =>
+      value && typeof value === 'object' && typeof value.$date === 'string' ? new Date(value.$date) : value
+    ) as AnswerDraft;
+  } catch (error) {
+    console.error(`Error reading the local draft answer to question ${questionId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Keep a draft in this browser; storage that is full or disabled is skipped,
+ * since the draft is also saved to Firestore
+ */
+export const writeLocalAnswerDraft = (draft: AnswerDraft): void => {
+  try {
+    // `this[key]` still holds the Date that JSON.stringify has already turned into a string
+    const stored = JSON.stringify(draft, function (this: Record<string, unknown>, key, value) {
+      const original = this[key];
+      return original instanceof Date ? { $date: original.toISOString() } : value;
+    });
+    
+    window.localStorage.setItem(getLocalStorageKey(draft.userId, draft.questionId), stored);
+  } catch (error) {
+    console.error(`Error keeping the draft answer to question ${draft.questionId} locally:`, error);
+  }
+};
+
+/**
+ * Remove the draft kept in this browser
+ */
+export const removeLocalAnswerDraft = (userId: string, questionId: string): void => {
+  try {
+    window.localStorage.removeItem(getLocalStorageKey(userId, questionId));
+  } catch (error) {
+    console.error(`Error removing the local draft answer to question ${questionId}:`, error);
+  }
+};
+
+/**
+ * Pick the most recently saved of the copies of a draft
+ */
+export const getLatestAnswerDraft = (drafts: Array<AnswerDraft | null>): AnswerDraft | null => {
+  return drafts.reduce<AnswerDraft | null>((latest, draft) => {
+    if (!draft || isEmptyAnswerDraft(draft)) return latest;
+    return !latest || draft.updatedAt.getTime() > latest.updatedAt.getTime() ? draft : latest;
+  }, null);
+};
\ No newline at end of file
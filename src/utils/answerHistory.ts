@@ -0,0 +1,202 @@
+// Answer revision history: word diffs between revisions and review markers
+
+import { Answer, PIR } from '../types';
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+/**
+ * A run of words that is unchanged, added or removed between two texts
+ */
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// Most insertions and removals diffed word by word; texts that differ by more
+// are shown as replaced outright, so long rewritten answers stay fast to compare
+const MAX_EDIT_DISTANCE = 1000;
+
+/**
+ * A single word or whitespace token kept, added or removed
+ */
+interface TokenEdit {
+  type: DiffSegmentType;
+  token: string;
+}
+
+/**
+ * Split text into words, keeping the whitespace between them as separate tokens
+ */
+const tokenize = (text: string): string[] => {
+  return text.split(/(\s+)/).filter(Boolean);
+};
+
+/**
+ * Walk the Myers trace back from the end of both lists to list the edits
+ */
+const backtrackEdits = (oldTokens: string[], newTokens: string[], trace: number[][]): TokenEdit[] => {
+  const edits: TokenEdit[] = [];
+  let x = oldTokens.length;
+  let y = newTokens.length;
+  
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const before = trace[d];
+    const at = (k: number) => before[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    
+    while (x > previousX && y > previousY) {
+      edits.push({ type: 'equal', token: oldTokens[x - 1] });
+      x--;
+      y--;
+    }
+    
+    if (d > 0) {
+      if (x === previousX) {
+        edits.push({ type: 'added', token: newTokens[y - 1] });
+      } else {
+        edits.push({ type: 'removed', token: oldTokens[x - 1] });
+      }
+    }
+    
+    x = previousX;
+    y = previousY;
+  }
+  
+  return edits.reverse();
+};
+
+/**
+ * Find the shortest edit script between two token lists with Myers' algorithm,
+ * or null if it takes more than maxEdits insertions and removals
+ * 
+ * Runs in O((n + m) * d) time and keeps O(d²) state for d edits, unlike a full
+ * longest common subsequence table.
+ */
+const findTokenEdits = (oldTokens: string[], newTokens: string[], maxEdits: number): TokenEdit[] | null => {
+  const n = oldTokens.length;
+  const m = newTokens.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  
+  // furthest[k + offset] is the furthest old index reached on diagonal k = x - y
+  const furthest = new Array<number>(2 * max + 3).fill(0);
+  
+  // trace[d] holds diagonals -d - 1 to d + 1 as they were before step d
+  const trace: number[][] = [];
+  
+  for (let d = 0; d <= max; d++) {
+    trace.push(furthest.slice(offset - d - 1, offset + d + 2));
+    
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && furthest[offset + k - 1] < furthest[offset + k + 1])
+        ? furthest[offset + k + 1]
+        : furthest[offset + k - 1] + 1;
+      let y = x - k;
+      
+      while (x < n && y < m && oldTokens[x] === newTokens[y]) {
+        x++;
+        y++;
+      }
+      
+      furthest[offset + k] = x;
+      
+      if (x >= n && y >= m) {
+        return backtrackEdits(oldTokens, newTokens, trace);
+      }
+    }
+  }
+  
+  return null;
+};
+
+/**
+ * Compare two texts word by word
+ * 
+ * Texts that differ in more than MAX_EDIT_DISTANCE words and spaces are shown
+ * with their changed middle removed and added as a whole.
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const oldTokens = tokenize(before);
+  const newTokens = tokenize(after);
+  
+  // An unchanged start and end need no searching
+  const shorterLength = Math.min(oldTokens.length, newTokens.length);
+  let prefixLength = 0;
+  
+  while (prefixLength < shorterLength && oldTokens[prefixLength] === newTokens[prefixLength]) {
+    prefixLength++;
+  }
+  
+  let suffixLength = 0;
+  
+  while (
+    suffixLength < shorterLength - prefixLength &&
+    oldTokens[oldTokens.length - 1 - suffixLength] === newTokens[newTokens.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+  
+  const oldMiddle = oldTokens.slice(prefixLength, oldTokens.length - suffixLength);
+  const newMiddle = newTokens.slice(prefixLength, newTokens.length - suffixLength);
+  const middleEdits = findTokenEdits(oldMiddle, newMiddle, MAX_EDIT_DISTANCE) || [
+    ...oldMiddle.map((token): TokenEdit => ({ type: 'removed', token })),
+    ...newMiddle.map((token): TokenEdit => ({ type: 'added', token }))
+  ];
+  
+  const segments: DiffSegment[] = [];
+  const push = ({ type, token }: TokenEdit) => {
+    const last = segments[segments.length - 1];
+    
+    if (last && last.type === type) {
+      last.text += token;
+    } else {
+      segments.push({ type, text: token });
+    }
+  };
+  
+  oldTokens.slice(0, prefixLength).forEach(token => push({ type: 'equal', token }));
+  middleEdits.forEach(push);
+  oldTokens.slice(oldTokens.length - suffixLength).forEach(token => push({ type: 'equal', token }));
+  
+  return segments;
+};
+
+/**
+ * Get when a PIR was last reviewed, including review rounds that sent it back
+ * to the responder
+ */
+export const getLastReviewedAt = (pir: PIR): Date | null => {
+  const reviewDates = [
+    pir.reviewedAt,
+    pir.acceptedAt,
+    pir.rejectedAt,
+    ...(pir.reviewers || []).map(reviewer => reviewer.decidedAt),
+    ...(pir.revisionHistory || []).reduce<Array<Date | undefined>>(
+      (dates, revision) => [...dates, revision.reviewedAt, revision.rejectedAt, revision.returnedAt],
+      []
+    )
+  ].filter((date): date is Date => date instanceof Date);
+  
+  if (reviewDates.length === 0) return null;
+  
+  return new Date(Math.max(...reviewDates.map(date => date.getTime())));
+};
+
+/**
+ * Describe how an answer changed since the PIR was last reviewed, or null when
+ * it did not change or the PIR was never reviewed
+ */
+export const getChangeSinceReview = (
+  answer: Pick<Answer, 'createdAt' | 'updatedAt' | 'revisedAt'>,
+  lastReviewedAt: Date | null
+): 'new' | 'changed' | null => {
+  // Answers saved before revisions were kept only have updatedAt
+  const revisedAt = answer.revisedAt || answer.updatedAt;
+  
+  if (!lastReviewedAt || revisedAt.getTime() <= lastReviewedAt.getTime()) return null;
+  
+  return answer.createdAt.getTime() > lastReviewedAt.getTime() ? 'new' : 'changed';
+};
\ No newline at end of file
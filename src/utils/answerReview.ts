@@ -0,0 +1,94 @@
+// Per-answer review decisions shared by the UI and Cloud Functions
+
+import { Answer, AnswerReviewStatus, PIR, User, UserRole, WorkflowDefinition } from '../types';
+import { isAnswerReviewState, isPIRParticipant } from './pirWorkflow';
+
+type ReviewedAnswer = Pick<Answer, 'questionId' | 'review'>;
+
+/**
+ * Review status of a question: the decision on its answers, 'pending' while
+ * some answers are undecided, or null when it has no answers
+ */
+export type QuestionReviewStatus = AnswerReviewStatus | 'pending';
+
+/**
+ * Labels shown for each answer review status
+ */
+export const ANSWER_REVIEW_STATUS_LABELS: Record<QuestionReviewStatus, string> = {
+  accepted: 'Accepted',
+  needs_clarification: 'Needs clarification',
+  rejected: 'Rejected',
+  pending: 'Awaiting review'
+};
+
+export const ANSWER_REVIEW_STATUSES: AnswerReviewStatus[] = ['accepted', 'needs_clarification', 'rejected'];
+
+/**
+ * Check whether a review status needs a comment for the responder
+ */
+export const isReviewCommentRequired = (status: AnswerReviewStatus): boolean => {
+  return status !== 'accepted';
+};
+
+/**
+ * Check whether an answer was sent back to the responder
+ */
+export const isAnswerFlagged = (answer: Pick<Answer, 'review'>): boolean => {
+  return answer.review?.status === 'needs_clarification' || answer.review?.status === 'rejected';
+};
+
+/**
+ * Check whether an answer was accepted and can no longer be changed
+ */
+export const isAnswerLocked = (answer: Pick<Answer, 'review'>): boolean => {
+  return answer.review?.status === 'accepted';
+};
+
+/**
+ * Combine the review decisions on a question's answers; a rejected answer
+ * outweighs one needing clarification, and the question is only accepted once
+ * every answer is
+ */
+export const getQuestionReviewStatus = (answers: Array<Pick<Answer, 'review'>>): QuestionReviewStatus | null => {
+  if (answers.length === 0) return null;
+  
+  if (answers.some(answer => answer.review?.status === 'rejected')) return 'rejected';
+  if (answers.some(answer => answer.review?.status === 'needs_clarification')) return 'needs_clarification';
+  if (answers.every(answer => answer.review?.status === 'accepted')) return 'accepted';
+  
+  return 'pending';
+};
+
+/**
+ * Get the IDs of the questions with an answer sent back to the responder
+ */
+export const getFlaggedQuestionIds = (answers: ReviewedAnswer[]): string[] => {
+  return answers
+    .filter(isAnswerFlagged)
+    .map(answer => answer.questionId)
+    .filter((questionId, index, questionIds) => questionIds.indexOf(questionId) === index);
+};
+
+/**
+ * Check whether the responder may work on a question in the current round.
+ * PIRs sent back without flagged answers reopen every question, and questions
+ * without an answer yet always stay open.
+ */
+export const isQuestionReopened = (
+  pir: Pick<PIR, 'reopenedQuestionIds'>,
+  questionId: string,
+  isAnswered: boolean
+): boolean => {
+  return !pir.reopenedQuestionIds || !isAnswered || pir.reopenedQuestionIds.includes(questionId);
+};
+
+/**
+ * Check whether a user may review the answers of a PIR in its current status
+ */
+export const canReviewAnswers = (workflow: WorkflowDefinition, pir: PIR, user: User | null): boolean => {
+  if (!user || !isAnswerReviewState(workflow, pir.status)) return false;
+  
+  return user.role === UserRole.ADMIN || 
+    user.role === UserRole.REVIEWER || 
+    isPIRParticipant(pir, user, 'reviewer');
+};
\ No newline at end of file
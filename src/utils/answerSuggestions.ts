@@ -0,0 +1,93 @@
+// Suggestions for a new answer from the responder's earlier accepted answers
+
+import { Answer, PIR, PIRStatus, Question, QuestionType } from '../types';
+import { getQuestionType, validateAnswer } from './questionTypes';
+import { isAnswerFlagged } from './answerReview';
+
+/**
+ * An earlier answer together with the question and PIR it was given for
+ */
+export interface AnsweredQuestion {
+  answer: Answer;
+  question: Question;
+  pir: PIR;
+}
+
+/**
+ * An earlier answer that can be reused for a question
+ */
+export interface AnswerSuggestion extends AnsweredQuestion {
+  matchedBy: 'library' | 'text'; // Same library question, or identical question text
+  sameProduct: boolean; // Given for the same product rather than only the same category
+}
+
+/**
+ * Normalize question text so wording differences in case and spacing still match
+ */
+const normalizeQuestionText = (text: string): string => {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+/**
+ * Check how an earlier question matches the one being answered, if at all
+ */
+const getQuestionMatch = (question: Question, earlier: Question): AnswerSuggestion['matchedBy'] | null => {
+  if (getQuestionType(question) !== getQuestionType(earlier)) return null;
+  
+  if (question.libraryQuestionId && question.libraryQuestionId === earlier.libraryQuestionId) {
+    return 'library';
+  }
+  
+  return normalizeQuestionText(question.text) === normalizeQuestionText(earlier.text) ? 'text' : null;
+};
+
+/**
+ * Check whether an answer was accepted, on its own or with its whole PIR
+ */
+export const isAcceptedAnswer = (answer: Answer, pir: Pick<PIR, 'status'>): boolean => {
+  return answer.review?.status === 'accepted' || 
+    (pir.status === PIRStatus.ACCEPTED && !isAnswerFlagged(answer));
+};
+
+/**
+ * Pick the earlier answers that can be reused for a question: accepted answers
+ * to the same library question or identical question text, given on another
+ * PIR for the same product or product category, that are still valid for the
+ * question's current type and options. Answers for the same product come
+ * first, then the newest; repeated answers are listed once.
+ */
+export const getAnswerSuggestions = (
+  question: Question,
+  pir: Pick<PIR, 'id' | 'productName' | 'productCategory'>,
+  answeredQuestions: AnsweredQuestion[]
+): AnswerSuggestion[] => {
+  // Uploaded files belong to their original answer and cannot be reused
+  if (getQuestionType(question) === QuestionType.FILE) return [];
+  
+  const suggestions = answeredQuestions.reduce<AnswerSuggestion[]>((result, earlier) => {
+    const sameProduct = earlier.pir.productName === pir.productName;
+    const sameCategory = earlier.pir.productCategory === pir.productCategory;
+    const matchedBy = getQuestionMatch(question, earlier.question);
+    
+    if (
+      earlier.pir.id !== pir.id && 
+      (sameProduct || sameCategory) && 
+      matchedBy && 
+      isAcceptedAnswer(earlier.answer, earlier.pir) && 
+      !validateAnswer(question, { ...earlier.answer, attachmentIds: [] })
+    ) {
+      result.push({ ...earlier, matchedBy, sameProduct });
+    }
+    
+    return result;
+  }, []);
+  
+  const sorted = suggestions.sort((a, b) => 
+    Number(b.sameProduct) - Number(a.sameProduct) || 
+    b.answer.createdAt.getTime() - a.answer.createdAt.getTime()
+  );
+  
+  return sorted.filter((suggestion, index) => 
+    sorted.findIndex(other => other.answer.text === suggestion.answer.text) === index
+  );
+};
\ No newline at end of file
@@ -0,0 +1,155 @@
+// Attachment upload rules shared by the UI, the attachment repository and the Storage check
+
+import { AttachmentPolicy, AttachmentTypeRule } from '../types';
+import { formatFileSize } from './formatters';
+
+const MB = 1024 * 1024;
+
+const ANY_FILE_TYPE: AttachmentTypeRule = {
+  allowedMimeTypes: [],
+  allowedExtensions: []
+};
+
+/**
+ * Policy used when settings/attachmentPolicy does not exist or leaves fields out
+ */
+export const DEFAULT_ATTACHMENT_POLICY: AttachmentPolicy = {
+  fileTypes: {
+    pir: ANY_FILE_TYPE,
+    question: ANY_FILE_TYPE,
+    answer: ANY_FILE_TYPE
+  },
+  maxFileSizeBytes: 25 * MB,
+  maxTotalSizePerPIRBytes: 500 * MB
+};
+
+/**
+ * The name, type and size of a file, as told by the browser or by Storage
+ */
+export interface AttachmentFileInfo {
+  name: string;
+  type: string;
+  size: number;
+}
+
+/**
+ * Error thrown when a file breaks the attachment policy
+ */
+export class AttachmentPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentPolicyError';
+    
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, AttachmentPolicyError.prototype);
+  }
+}
+
+/**
+ * Fill in the fields the stored settings leave out from the defaults
+ */
+export const withAttachmentPolicyDefaults = (settings?: Partial<AttachmentPolicy>): AttachmentPolicy => {
+  return {
+    ...DEFAULT_ATTACHMENT_POLICY,
+    ...settings,
+    fileTypes: {
+      ...DEFAULT_ATTACHMENT_POLICY.fileTypes,
+      ...settings?.fileTypes
+    }
+  };
+};
+
+/**
+ * Get the lowercase extension of a file name without the dot, or an empty
+ * string if it has none
+ */
+export const getFileExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+/**
+ * Reduce an extension an admin entered, like ".PDF", to "pdf"
+ */
+const normalizeExtension = (extension: string): string => {
+  return extension.trim().toLowerCase().replace(/^\./, '');
+};
+
+/**
+ * Check a MIME type against an allowed type, which may end in /* to allow a
+ * whole family like image/*
+ */
+const matchesMimeType = (fileType: string, allowedType: string): boolean => {
+  const type = fileType.toLowerCase();
+  const pattern = allowedType.trim().toLowerCase();
+  
+  return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern;
+};
+
+/**
+ * Check whether a file has both a MIME type and an extension its parent accepts
+ */
+export const isAllowedFileType = (file: Pick<AttachmentFileInfo, 'name' | 'type'>, rule: AttachmentTypeRule): boolean => {
+  const isAllowedMimeType = rule.allowedMimeTypes.length === 0 ||
+    rule.allowedMimeTypes.some(allowedType => matchesMimeType(file.type, allowedType));
+  const isAllowedExtension = rule.allowedExtensions.length === 0 ||
+    rule.allowedExtensions.map(normalizeExtension).includes(getFileExtension(file.name));
+  
+  return isAllowedMimeType && isAllowedExtension;
+};
+
+/**
+ * Get the reason a file breaks the attachment policy, or null if it may be
+ * stored. usedBytes is what the PIR already stores, earlier versions included;
+ * addedBytes is what the file adds to it, nothing for a file stored once and
+ * linked from another attachment.
+ */
+export const getAttachmentPolicyViolation = (
+  file: AttachmentFileInfo,
+  parentType: 'pir' | 'question' | 'answer',
+  policy: AttachmentPolicy,
+  usedBytes: number,
+  addedBytes: number = file.size
+): string | null => {
+  if (!isAllowedFileType(file, policy.fileTypes[parentType])) {
+    return `${file.name} is not an allowed file type`;
+  }
+  
+  if (file.size > policy.maxFileSizeBytes) {
+    return `${file.name} is larger than the ${formatFileSize(policy.maxFileSizeBytes)} limit for a file`;
+  }
+  
+  if (usedBytes + addedBytes > policy.maxTotalSizePerPIRBytes) {
+    const remainingBytes = Math.max(policy.maxTotalSizePerPIRBytes - usedBytes, 0);
+    return `${file.name} does not fit in the ${formatFileSize(remainingBytes)} left of the ${formatFileSize(policy.maxTotalSizePerPIRBytes)} allowed per PIR`;
+  }
+  
+  return null;
+};
+
+/**
+ * Get the accept attribute of a file input for the types a parent allows
+ */
+export const getAcceptedFileTypes = (rule: AttachmentTypeRule): string => {
+  return [
+    ...rule.allowedMimeTypes.map(type => type.trim()),
+    ...rule.allowedExtensions.map(extension => `.${normalizeExtension(extension)}`)
+  ].join(',');
+};
+
+/**
+ * Describe the files a parent accepts, for the hint under an upload area
+ */
+export const describeAttachmentPolicy = (
+  parentType: 'pir' | 'question' | 'answer',
+  policy: AttachmentPolicy
+): string => {
+  const rule = policy.fileTypes[parentType];
+  const types = rule.allowedExtensions.length > 0
+    ? rule.allowedExtensions.map(extension => normalizeExtension(extension).toUpperCase()).join(', ')
+    : rule.allowedMimeTypes.length > 0
+      ? rule.allowedMimeTypes.join(', ')
+      : 'Any file type';
+  
+  return `${types}, up to ${formatFileSize(policy.maxFileSizeBytes)} each`;
+};
\ No newline at end of file
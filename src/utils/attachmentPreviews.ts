@@ -0,0 +1,59 @@
+// Attachment preview rules shared by the attachment repository and the preview function
+
+/**
+ * Folder next to an attachment's file where its previews are stored
+ */
+export const PREVIEW_FOLDER = 'previews';
+
+// Widths of the generated images in pixels; smaller images are not enlarged
+export const THUMBNAIL_WIDTH = 320;
+export const PREVIEW_WIDTH = 1600;
+
+// File types the preview function can render
+const PREVIEWABLE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/tiff',
+  'image/avif',
+  'application/pdf'
+];
+
+/**
+ * Where the previews of a stored file are kept
+ */
+export interface AttachmentPreviewPaths {
+  thumbnailPath: string; // Small image shown in attachment lists
+  previewPath: string; // Larger image shown in the lightbox
+}
+
+/**
+ * Check whether previews are generated for a file type: images, and the first
+ * page of PDFs
+ */
+export const canHavePreview = (fileType: string): boolean => {
+  return PREVIEWABLE_TYPES.includes(fileType.toLowerCase());
+};
+
+/**
+ * Get the paths of the previews of a file stored at the given path, in the
+ * previews folder next to it
+ */
+export const getAttachmentPreviewPaths = (storagePath: string): AttachmentPreviewPaths => {
+  const slashIndex = storagePath.lastIndexOf('/');
+  const folder = storagePath.slice(0, slashIndex);
+  const storedName = storagePath.slice(slashIndex + 1);
+  
+  return {
+    thumbnailPath: `${folder}/${PREVIEW_FOLDER}/${storedName}.thumb.jpg`,
+    previewPath: `${folder}/${PREVIEW_FOLDER}/${storedName}.preview.jpg`
+  };
+};
+
+/**
+ * Check whether a stored file is a preview rather than an uploaded file
+ */
+export const isPreviewPath = (storagePath: string): boolean => {
+  return storagePath.split('/').slice(-2, -1)[0] === PREVIEW_FOLDER;
+};
\ No newline at end of file
@@ -0,0 +1,67 @@
+// PIR completeness shared by the UI and Cloud Functions
+
+import { Answer, PIRProgress, Question } from '../types';
+import { getVisibleQuestions } from './questionVisibility';
+
+type CompletenessQuestion = Pick<Question, 'id' | 'text' | 'required' | 'type' | 'visibility'>;
+type CompletenessAnswer = Pick<Answer, 'questionId' | 'text' | 'value' | 'createdAt'>;
+
+/**
+ * Progress of a PIR together with the required questions still to answer
+ */
+export interface PIRCompleteness<T extends CompletenessQuestion> extends Omit<PIRProgress, 'updatedAt'> {
+  missingQuestions: T[];
+}
+
+/**
+ * Get the percentage of a PIR that is complete; a PIR without questions has
+ * nothing left to answer
+ */
+const getPercentComplete = (answered: number, total: number): number => {
+  return total > 0 ? Math.floor((answered / total) * 100) : 100;
+};
+
+/**
+ * Count the answered and required questions of a PIR and list the required
+ * questions without an answer
+ *
+ * Only the questions currently shown count, so conditional questions hidden by
+ * the answers so far are neither required nor missing.
+ */
+export const getPIRCompleteness = <T extends CompletenessQuestion>(
+  questions: T[],
+  answers: CompletenessAnswer[]
+): PIRCompleteness<T> => {
+  const answeredQuestionIds = new Set(answers.map(answer => answer.questionId));
+  const applicableQuestions = getVisibleQuestions(questions, answers);
+  const requiredQuestions = applicableQuestions.filter(question => question.required);
+  
+  const answeredQuestions = applicableQuestions.filter(question => answeredQuestionIds.has(question.id)).length;
+  const missingQuestions = requiredQuestions.filter(question => !answeredQuestionIds.has(question.id));
+  const answeredRequiredQuestions = requiredQuestions.length - missingQuestions.length;
+  
+  return {
+    totalQuestions: applicableQuestions.length,
+    answeredQuestions,
+    requiredQuestions: requiredQuestions.length,
+    answeredRequiredQuestions,
+    percentComplete: requiredQuestions.length > 0
+      ? getPercentComplete(answeredRequiredQuestions, requiredQuestions.length)
+      : getPercentComplete(answeredQuestions, applicableQuestions.length),
+    answeredQuestionIds: Array.from(answeredQuestionIds).sort(),
+    missingQuestions
+  };
+};
+
+/**
+ * Check whether two progress records hold the same counts and answered questions
+ */
+export const isSameProgress = (a: Omit<PIRProgress, 'updatedAt'>, b?: Omit<PIRProgress, 'updatedAt'>): boolean => {
+  return !!b &&
+    a.totalQuestions === b.totalQuestions &&
+    a.answeredQuestions === b.answeredQuestions &&
+    a.requiredQuestions === b.requiredQuestions &&
+    a.answeredRequiredQuestions === b.answeredRequiredQuestions &&
+    a.percentComplete === b.percentComplete &&
+    (a.answeredQuestionIds || []).join() === (b.answeredQuestionIds || []).join();
+};
\ No newline at end of file
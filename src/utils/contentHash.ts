@@ -0,0 +1,12 @@
+// Fingerprints of file contents, used to find identical attachments
+
+/**
+ * Compute the SHA-256 hash of a file's contents as lowercase hex
+ */
+export const getContentHash = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
\ No newline at end of file
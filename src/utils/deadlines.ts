@@ -0,0 +1,75 @@
+// PIR deadline and SLA rules shared by the UI and the scheduled deadline check
+
+import { PIR, SLAConfig, WorkflowDefinition } from '../types';
+import { DEFAULT_WORKFLOW, getWorkflowState, isSuspendedStatus } from './pirWorkflow';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+/**
+ * Settings used when settings/sla does not exist or leaves fields out
+ */
+export const DEFAULT_SLA_CONFIG: SLAConfig = {
+  reminderOffsetsHours: [72, 24],
+  escalationGraceHours: 48
+};
+
+/**
+ * Check whether work on a PIR is still outstanding: it has been sent out, is
+ * not on hold or cancelled, and has not reached a terminal state of its workflow
+ */
+export const isOpenPIR = (pir: PIR, workflow: WorkflowDefinition): boolean => {
+  if (pir.status === workflow.initialState || isSuspendedStatus(pir.status)) return false;
+  
+  return !getWorkflowState(workflow, pir.status)?.terminal;
+};
+
+/**
+ * Get every status in which a PIR of one of the given workflows, or of the
+ * built-in workflow, can be open
+ */
+export const getOpenStatuses = (workflows: WorkflowDefinition[]): string[] => {
+  const statuses = new Set<string>();
+  
+  [DEFAULT_WORKFLOW, ...workflows].forEach(workflow => {
+    workflow.states
+      .filter(state => state.key !== workflow.initialState && !state.terminal && !isSuspendedStatus(state.key))
+      .forEach(state => statuses.add(state.key));
+  });
+  
+  return Array.from(statuses);
+};
+
+/**
+ * Check whether an open PIR has passed its completion deadline
+ */
+export const isPIROverdue = (pir: PIR, workflow: WorkflowDefinition, now: Date = new Date()): boolean => {
+  return !!pir.completionDeadline &&
+    isOpenPIR(pir, workflow) &&
+    pir.completionDeadline.getTime() < now.getTime();
+};
+
+/**
+ * Get the reminder offsets whose time has come but that were not sent yet.
+ * Reminders are not sent once the deadline has passed.
+ */
+export const getDueReminderOffsets = (pir: PIR, config: SLAConfig, now: Date = new Date()): number[] => {
+  if (!pir.completionDeadline) return [];
+  
+  const deadline = pir.completionDeadline.getTime();
+  
+  if (deadline <= now.getTime()) return [];
+  
+  return config.reminderOffsetsHours.filter(offset =>
+    !(pir.remindersSent || []).includes(offset) &&
+    deadline - offset * HOUR_IN_MS <= now.getTime()
+  );
+};
+
+/**
+ * Check whether an overdue PIR should be escalated now
+ */
+export const isEscalationDue = (pir: PIR, config: SLAConfig, now: Date = new Date()): boolean => {
+  if (!pir.completionDeadline || pir.escalatedAt) return false;
+  
+  return pir.completionDeadline.getTime() + config.escalationGraceHours * HOUR_IN_MS <= now.getTime();
+};
\ No newline at end of file
@@ -0,0 +1,121 @@
+// @mentions in discussion comments, shared by the UI and Cloud Functions
+
+import { CommentMention, PIR, User } from '../types';
+
+type MentionUser = Pick<User, 'id' | 'displayName'>;
+
+/**
+ * An @mention being typed: where its @ is and the text typed after it
+ */
+export interface MentionQuery {
+  start: number;
+  query: string;
+}
+
+/**
+ * A run of comment text that is either plain or a mention of a user
+ */
+export interface MentionSegment {
+  text: string;
+  userId?: string;
+}
+
+/**
+ * Get the IDs of the users taking part in a PIR, who are the ones its comments
+ * can mention
+ */
+export const getMentionableUserIds = (
+  pir: Pick<PIR, 'requesterId' | 'assignedResponderId' | 'reviewerId' | 'reviewers'>
+): string[] => {
+  const userIds = [
+    pir.requesterId,
+    pir.assignedResponderId,
+    pir.reviewerId,
+    ...(pir.reviewers || []).map(reviewer => reviewer.userId)
+  ];
+  
+  return userIds.filter((userId, index): userId is string => !!userId && userIds.indexOf(userId) === index);
+};
+
+/**
+ * Find the @mention being typed just before the caret, if any
+ */
+export const getMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  
+  if (!match) return null;
+  
+  return { start: caret - match[2].length - 1, query: match[2] };
+};
+
+/**
+ * Replace the @mention being typed with the full name of the picked user
+ */
+export const insertMention = (
+  text: string,
+  mention: MentionQuery,
+  user: MentionUser
+): { text: string; caret: number } => {
+  const before = text.slice(0, mention.start);
+  const after = text.slice(mention.start + mention.query.length + 1);
+  const inserted = `@${user.displayName} `;
+  
+  return { text: before + inserted + after.replace(/^\s+/, ''), caret: before.length + inserted.length };
+};
+
+/**
+ * Split comment text into plain runs and mentions of the given users
+ */
+export const splitMentions = (text: string, users: MentionUser[]): MentionSegment[] => {
+  // Longer names first, so "@Ann Lee" is not read as "@Ann"
+  const candidates = users
+    .filter(user => !!user.displayName)
+    .sort((a, b) => b.displayName.length - a.displayName.length);
+  
+  const segments: MentionSegment[] = [];
+  let plainText = '';
+  let index = 0;
+  
+  while (index < text.length) {
+    const startsMention = text[index] === '@' && (index === 0 || /\s/.test(text[index - 1]));
+    const user = startsMention
+      ? candidates.find(candidate => 
+        text.startsWith(candidate.displayName, index + 1) && 
+        !/\w/.test(text.charAt(index + candidate.displayName.length + 1))
+      )
+      : undefined;
+    
+    if (user) {
+      if (plainText) segments.push({ text: plainText });
+      segments.push({ text: `@${user.displayName}`, userId: user.id });
+      plainText = '';
+      index += user.displayName.length + 1;
+    } else {
+      plainText += text[index];
+      index++;
+    }
+  }
+  
+  if (plainText) segments.push({ text: plainText });
+  
+  return segments;
+};
+
+/**
+ * Get the users mentioned in comment text, each once
+ */
+export const getMentions = (text: string, users: MentionUser[]): CommentMention[] => {
+  return splitMentions(text, users).reduce<CommentMention[]>((mentions, segment) => {
+    if (segment.userId && !mentions.some(mention => mention.userId === segment.userId)) {
+      mentions.push({ userId: segment.userId, displayName: segment.text.slice(1) });
+    }
+    return mentions;
+  }, []);
+};
+
+/**
+ * Get the users mentioned after an edit who were not mentioned before it
+ */
+export const getNewMentions = (before: CommentMention[], after: CommentMention[]): CommentMention[] => {
+  return after.filter(mention => !before.some(previous => previous.userId === mention.userId));
+};
\ No newline at end of file
@@ -0,0 +1,450 @@
+// PIR workflow state machine shared by the UI, the store and Cloud Functions
+
+import {
+  PIR,
+  PIRParticipant,
+  PIRStatus,
+  PIRTransition,
+  ReviewDecision,
+  User,
+  UserRole,
+  WorkflowDefinition,
+  WorkflowState
+} from '../types';
+import { getApprovalOutcome, hasRequiredReviewers } from './reviewPolicy';
+
+/**
+ * Transitions of the built-in PIR lifecycle.
+ * Admins may perform every transition; other users need one of the listed
+ * roles or must be one of the listed participants on the PIR.
+ */
+export const PIR_TRANSITIONS: PIRTransition[] = [
+  {
+    from: PIRStatus.DRAFT,
+    to: PIRStatus.REQUESTED,
+    actionLabel: 'Request Information',
+    allowedRoles: [UserRole.ADMIN],
+    allowedParticipants: ['requester'],
+    requiredFields: ['title', 'description', 'productName', 'productCategory'],
+    notify: ['responder', 'admins']
+  },
+  {
+    from: PIRStatus.REQUESTED,
+    to: PIRStatus.SUBMITTED,
+    actionLabel: 'Submit for Review',
+    allowedRoles: [UserRole.ADMIN],
+    allowedParticipants: ['responder'],
+    requiredFields: [],
+    requiresAnsweredQuestions: true,
+    timestampField: 'submittedAt',
+    notify: ['reviewer', 'requester', 'admins']
+  },
+  {
+    from: PIRStatus.SUBMITTED,
+    to: PIRStatus.REVIEWED,
+    actionLabel: 'Mark as Reviewed',
+    allowedRoles: [UserRole.ADMIN, UserRole.REVIEWER],
+    allowedParticipants: ['reviewer'],
+    requiredFields: [],
+    timestampField: 'reviewedAt',
+    stampReviewer: true,
+    notify: ['requester', 'responder']
+  },
+  {
+    from: PIRStatus.REVIEWED,
+    to: PIRStatus.REJECTED,
+    actionLabel: 'Reject',
+    allowedRoles: [UserRole.ADMIN],
+    allowedParticipants: ['reviewer'],
+    requiredFields: ['reviewerId'],
+    timestampField: 'rejectedAt',
+    approvalOutcome: 'rejected',
+    notify: ['requester', 'responder']
+  },
+  {
+    from: PIRStatus.REVIEWED,
+    to: PIRStatus.ACCEPTED,
+    actionLabel: 'Accept',
+    allowedRoles: [UserRole.ADMIN],
+    allowedParticipants: ['reviewer'],
+    requiredFields: ['reviewerId'],
+    timestampField: 'acceptedAt',
+    approvalOutcome: 'approved',
+    notify: ['requester', 'responder']
+  },
+  {
+    from: PIRStatus.REVIEWED,
+    to: PIRStatus.REQUESTED,
+    actionLabel: 'Request Changes',
+    allowedRoles: [UserRole.ADMIN],
+    allowedParticipants: ['reviewer'],
+    requiredFields: [],
+    requiredInput: ['reviewNotes'],
+    startsRevision: true,
+    notify: ['responder']
+  },
+  {
+    from: PIRStatus.REJECTED,
+    to: PIRStatus.REQUESTED,
+    actionLabel: 'Return for Revision',
+    allowedRoles: [UserRole.ADMIN],
+    allowedParticipants: ['reviewer'],
+    requiredFields: [],
+    requiredInput: ['reviewNotes'],
+    startsRevision: true,
+    notify: ['responder']
+  }
+];
+
+/**
+ * The built-in six-state lifecycle, used when no workflow in Firestore
+ * matches a PIR's product category
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  id: 'default',
+  name: 'Standard PIR Workflow',
+  productCategories: [],
+  isDefault: true,
+  initialState: PIRStatus.DRAFT,
+  states: [
+    { key: PIRStatus.DRAFT, label: 'Draft', color: 'gray' },
+    { key: PIRStatus.REQUESTED, label: 'Requested', color: 'blue' },
+    { key: PIRStatus.SUBMITTED, label: 'Submitted', color: 'yellow' },
+    { key: PIRStatus.REVIEWED, label: 'Reviewed', color: 'purple' },
+    { key: PIRStatus.ACCEPTED, label: 'Accepted', color: 'green', terminal: true },
+    { key: PIRStatus.REJECTED, label: 'Rejected', color: 'red', terminal: true }
+  ],
+  transitions: PIR_TRANSITIONS
+};
+
+/**
+ * States every workflow shares for stopping work on a PIR
+ */
+export const SUSPENDED_STATES: WorkflowState[] = [
+  { key: PIRStatus.ON_HOLD, label: 'On Hold', color: 'orange' },
+  { key: PIRStatus.CANCELLED, label: 'Cancelled', color: 'gray', terminal: true }
+];
+
+/**
+ * Check whether a PIR status means work on the PIR is stopped
+ */
+export const isSuspendedStatus = (status: string): boolean => {
+  return SUSPENDED_STATES.some(state => state.key === status);
+};
+
+/**
+ * Get the transitions of a workflow together with the built-in ones that let
+ * the requester put any open PIR on hold, resume it, or cancel it
+ */
+export const getWorkflowTransitions = (workflow: WorkflowDefinition): PIRTransition[] => {
+  const openStates = workflow.states.filter(state => !state.terminal && !isSuspendedStatus(state.key));
+  const suspendTransitions: PIRTransition[] = [];
+  
+  openStates.forEach(state => {
+    // Drafts have not been sent to anyone, so there is nothing to hold
+    if (state.key !== workflow.initialState) {
+      suspendTransitions.push(
+        {
+          from: state.key,
+          to: PIRStatus.ON_HOLD,
+          actionLabel: 'Put on Hold',
+          allowedRoles: [UserRole.ADMIN],
+          allowedParticipants: ['requester'],
+          requiredFields: [],
+          requiredInput: ['holdReason'],
+          holdsPIR: true,
+          timestampField: 'heldAt',
+          notify: ['responder']
+        },
+        {
+          from: PIRStatus.ON_HOLD,
+          to: state.key,
+          actionLabel: 'Resume',
+          allowedRoles: [UserRole.ADMIN],
+          allowedParticipants: ['requester'],
+          requiredFields: [],
+          resumesHold: true,
+          notify: ['responder']
+        }
+      );
+    }
+    
+    suspendTransitions.push({
+      from: state.key,
+      to: PIRStatus.CANCELLED,
+      actionLabel: 'Cancel PIR',
+      allowedRoles: [UserRole.ADMIN],
+      allowedParticipants: ['requester'],
+      requiredFields: [],
+      requiredInput: ['cancellationReason'],
+      timestampField: 'cancelledAt',
+      notify: ['responder']
+    });
+  });
+  
+  // Held PIRs can be cancelled as well
+  suspendTransitions.push({
+    from: PIRStatus.ON_HOLD,
+    to: PIRStatus.CANCELLED,
+    actionLabel: 'Cancel PIR',
+    allowedRoles: [UserRole.ADMIN],
+    allowedParticipants: ['requester'],
+    requiredFields: [],
+    requiredInput: ['cancellationReason'],
+    timestampField: 'cancelledAt',
+    notify: ['responder']
+  });
+  
+  return [...workflow.transitions, ...suspendTransitions];
+};
+
+/**
+ * Pick the workflow for a product category: a workflow claiming the category,
+ * then the workflow marked as default, then the built-in lifecycle
+ */
+export const selectWorkflow = (
+  workflows: WorkflowDefinition[],
+  productCategory: string
+): WorkflowDefinition => {
+  const normalizedCategory = productCategory.trim().toLowerCase();
+  
+  return workflows.find(workflow => 
+    workflow.productCategories.some(category => category.trim().toLowerCase() === normalizedCategory)
+  ) || workflows.find(workflow => workflow.isDefault) || DEFAULT_WORKFLOW;
+};
+
+/**
+ * Find a state of a workflow by its key
+ */
+export const getWorkflowState = (workflow: WorkflowDefinition, key: string): WorkflowState | undefined => {
+  return workflow.states.find(state => state.key === key) || SUSPENDED_STATES.find(state => state.key === key);
+};
+
+export type PIRTransitionErrorCode = 'invalid-transition' | 'permission-denied' | 'missing-fields' | 'approval-pending';
+
+/**
+ * Error thrown when a PIR status transition is not allowed
+ */
+export class PIRTransitionError extends Error {
+  readonly code: PIRTransitionErrorCode;
+  readonly from: string;
+  readonly to: string;
+  readonly missingFields: string[];
+  
+  constructor(
+    code: PIRTransitionErrorCode,
+    message: string,
+    from: string,
+    to: string,
+    missingFields: string[] = []
+  ) {
+    super(message);
+    this.name = 'PIRTransitionError';
+    this.code = code;
+    this.from = from;
+    this.to = to;
+    this.missingFields = missingFields;
+    
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, PIRTransitionError.prototype);
+  }
+}
+
+/**
+ * Find the transition between two statuses, if one exists
+ */
+export const getTransition = (
+  workflow: WorkflowDefinition,
+  from: string,
+  to: string
+): PIRTransition | undefined => {
+  return getWorkflowTransitions(workflow).find(transition => transition.from === from && transition.to === to);
+};
+
+/**
+ * Find the transition out of a status that applies a review outcome, if one exists
+ */
+export const getApprovalTransition = (
+  workflow: WorkflowDefinition,
+  from: string,
+  outcome: ReviewDecision
+): PIRTransition | undefined => {
+  return workflow.transitions.find(transition => transition.from === from && transition.approvalOutcome === outcome);
+};
+
+/**
+ * Check whether required reviewers record their decisions while a PIR is in
+ * the given status
+ */
+export const isReviewState = (workflow: WorkflowDefinition, status: string): boolean => {
+  return workflow.transitions.some(transition => transition.from === status && !!transition.approvalOutcome);
+};
+
+/**
+ * Check whether reviewers decide on individual answers while a PIR is in the
+ * given status: any status the PIR is reviewed, decided or sent back from
+ */
+export const isAnswerReviewState = (workflow: WorkflowDefinition, status: string): boolean => {
+  return workflow.transitions.some(transition => 
+    transition.from === status && 
+    (!!transition.stampReviewer || !!transition.approvalOutcome || !!transition.startsRevision)
+  );
+};
+
+/**
+ * Check whether a PIR with required reviewers reached the outcome a transition
+ * depends on. PIRs with a single reviewer are decided by that reviewer alone.
+ */
+export const isApprovalSatisfied = (pir: PIR, transition: PIRTransition): boolean => {
+  if (!transition.approvalOutcome || !hasRequiredReviewers(pir)) return true;
+  
+  return getApprovalOutcome(pir) === transition.approvalOutcome;
+};
+
+/**
+ * Check whether a user takes part in a PIR in the given capacity
+ */
+export const isPIRParticipant = (pir: PIR, user: User, participant: PIRParticipant): boolean => {
+  switch (participant) {
+    case 'requester':
+      return pir.requesterId === user.id;
+    case 'responder':
+      return !!pir.assignedResponderId && pir.assignedResponderId === user.id;
+    case 'reviewer':
+      return (!!pir.reviewerId && pir.reviewerId === user.id) ||
+        !!pir.reviewers?.some(reviewer => reviewer.userId === user.id);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Check whether a user may perform a transition on a PIR
+ */
+export const canPerformTransition = (pir: PIR, transition: PIRTransition, user: User): boolean => {
+  if (pir.status !== transition.from) return false;
+  if (transition.resumesHold && pir.statusBeforeHold !== transition.to) return false;
+  
+  return transition.allowedRoles.includes(user.role) ||
+    transition.allowedParticipants.some(participant => isPIRParticipant(pir, user, participant));
+};
+
+/**
+ * Check whether a user may move a PIR to the given status
+ */
+export const canTransition = (
+  workflow: WorkflowDefinition,
+  pir: PIR,
+  to: string,
+  user: User | null
+): boolean => {
+  if (!user) return false;
+  
+  const transition = getTransition(workflow, pir.status, to);
+  return !!transition && canPerformTransition(pir, transition, user);
+};
+
+/**
+ * Get the transitions a user may perform on a PIR in its current status
+ */
+export const getAvailableTransitions = (
+  workflow: WorkflowDefinition,
+  pir: PIR,
+  user: User | null
+): PIRTransition[] => {
+  if (!user) return [];
+  
+  return getWorkflowTransitions(workflow).filter(transition => 
+    canPerformTransition(pir, transition, user) && isApprovalSatisfied(pir, transition)
+  );
+};
+
+/**
+ * Get the fields a transition sets on the PIR besides its status and timestamp
+ */
+export const getTransitionSideEffects = (transition: PIRTransition, user: User, pir?: PIR): Partial<PIR> => {
+  const sideEffects: Partial<PIR> = {};
+  
+  // PIRs with required reviewers keep their reviewer list instead
+  if (transition.stampReviewer && !(pir && hasRequiredReviewers(pir))) {
+    sideEffects.reviewerId = user.id;
+    sideEffects.reviewerName = user.displayName;
+  }
+  
+  if (transition.holdsPIR && pir) {
+    sideEffects.statusBeforeHold = pir.status;
+  }
+  
+  return sideEffects;
+};
+
+const isMissingValue = (value: unknown): boolean => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  return false;
+};
+
+/**
+ * Validate a transition and return it, throwing a PIRTransitionError if the
+ * transition does not exist, the user may not perform it, the required
+ * reviewers have not reached its outcome, or the PIR or the submitted data is
+ * missing fields the transition requires
+ */
+export const assertTransition = (
+  workflow: WorkflowDefinition,
+  pir: PIR,
+  to: string,
+  user: User,
+  additionalData: Partial<PIR> = {}
+): PIRTransition => {
+  const transition = getTransition(workflow, pir.status, to);
+  
+  if (!transition || (transition.resumesHold && pir.statusBeforeHold !== to)) {
+    throw new PIRTransitionError(
+      'invalid-transition',
+      `A PIR cannot move from ${pir.status} to ${to}`,
+      pir.status,
+      to
+    );
+  }
+  
+  if (!canPerformTransition(pir, transition, user)) {
+    throw new PIRTransitionError(
+      'permission-denied',
+      `You do not have permission to move this PIR to ${to}`,
+      pir.status,
+      to
+    );
+  }
+  
+  if (!isApprovalSatisfied(pir, transition)) {
+    throw new PIRTransitionError(
+      'approval-pending',
+      `The required reviewers have not ${transition.approvalOutcome} this PIR`,
+      pir.status,
+      to
+    );
+  }
+  
+  const resultingPIR: Partial<PIR> = {
+    ...pir,
+    ...additionalData,
+    ...getTransitionSideEffects(transition, user, pir)
+  };
+  const missingFields = [
+    ...transition.requiredFields.filter(field => isMissingValue(resultingPIR[field])),
+    ...(transition.requiredInput || []).filter(field => isMissingValue(additionalData[field]))
+  ];
+  
+  if (missingFields.length > 0) {
+    throw new PIRTransitionError(
+      'missing-fields',
+      `The following fields are required to move this PIR to ${to}: ${missingFields.join(', ')}`,
+      pir.status,
+      to,
+      missingFields
+    );
+  }
+  
+  return transition;
+};
\ No newline at end of file
@@ -0,0 +1,275 @@
+// Bulk import of PIR questions from CSV and Excel files
+
+// SheetJS is installed from cdn.sheetjs.com; its npm releases stopped at an unpatched 0.18.5
+import * as XLSX from 'xlsx';
+import { PIRSection, Question, QuestionType } from '../types';
+import { 
+  getQuestionType, 
+  normalizeQuestionTypeSettings, 
+  QUESTION_TYPE_LABELS, 
+  validateQuestionDefinition 
+} from './questionTypes';
+import { getNextQuestionOrder } from './questionOrder';
+
+/**
+ * Columns read from an import file; only the question text is required
+ */
+export const QUESTION_IMPORT_COLUMNS = ['text', 'category', 'required', 'type', 'options', 'section'] as const;
+
+export type QuestionImportColumn = typeof QUESTION_IMPORT_COLUMNS[number];
+
+/**
+ * File types accepted by the import
+ */
+export const QUESTION_IMPORT_ACCEPT = '.csv,.xlsx,.xls';
+
+// Most questions one file can add, so its preview stays reviewable
+export const MAX_IMPORT_ROWS = 200;
+
+/**
+ * A row of an import file read as a question, with the problems that keep it
+ * from being imported
+ */
+export interface QuestionImportRow {
+  rowNumber: number; // Row of the file, counting the header as row 1
+  question: Pick<Question, 'text' | 'category' | 'required' | 'type' | 'options'>;
+  sectionTitle: string; // Empty for questions outside any section
+  errors: string[];
+}
+
+/**
+ * The rows of an import file, or the reason the file cannot be imported
+ */
+export interface QuestionImportResult {
+  rows: QuestionImportRow[];
+  error: string | null;
+}
+
+// Header names accepted for each column besides the column name itself
+const COLUMN_ALIASES: Record<QuestionImportColumn, string[]> = {
+  text: ['question', 'question text'],
+  category: [],
+  required: ['mandatory'],
+  type: ['question type', 'answer type'],
+  options: ['choices'],
+  section: ['section title']
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'required'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', 'optional'];
+
+/**
+ * Reduce a name to lowercase letters and digits, so "Yes / No" matches "yes_no"
+ */
+const toKey = (value: string): string => {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Read the cells of the first sheet of a CSV or Excel file as text, one array
+ * per row including blank rows
+ */
+export const readSpreadsheetRows = async (file: File): Promise<string[][]> => {
+  // Reading CSV as text keeps UTF-8 characters intact
+  const workbook = /\.csv$/i.test(file.name)
+    ? XLSX.read(await file.text(), { type: 'string' })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  
+  if (!sheet) return [];
+  
+  return XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+};
+
+/**
+ * Find the position of each known column in the header row
+ */
+const getColumnIndexes = (header: string[]): Partial<Record<QuestionImportColumn, number>> => {
+  const headerKeys = header.map(cell => toKey(String(cell)));
+  
+  return QUESTION_IMPORT_COLUMNS.reduce<Partial<Record<QuestionImportColumn, number>>>((indexes, column) => {
+    const names = [column, ...COLUMN_ALIASES[column]].map(toKey);
+    const index = headerKeys.findIndex(key => names.includes(key));
+    
+    return index === -1 ? indexes : { ...indexes, [column]: index };
+  }, {});
+};
+
+/**
+ * Read a question type from its key or label; blank cells are free text
+ */
+const parseQuestionType = (value: string): QuestionType | null => {
+  if (!value) return QuestionType.TEXT;
+  
+  const key = toKey(value);
+  const type = Object.values(QuestionType).find(candidate =>
+    toKey(candidate) === key || toKey(QUESTION_TYPE_LABELS[candidate]) === key
+  );
+  
+  return type || null;
+};
+
+/**
+ * Read whether a question is required; blank cells are required like in the
+ * question form
+ */
+const parseRequired = (value: string): boolean | null => {
+  const key = value.toLowerCase();
+  
+  if (!key || TRUE_VALUES.includes(key)) return true;
+  if (FALSE_VALUES.includes(key)) return false;
+  
+  return null;
+};
+
+/**
+ * Split the options cell of a choice question on semicolons, pipes or line breaks
+ */
+const parseOptions = (value: string): string[] => {
+  return value.split(/[;|\n]/).map(option => option.trim()).filter(Boolean);
+};
+
+/**
+ * Read the rows of an import file into questions, checking each row
+ *
+ * Blank rows are skipped. Rows repeating a question already in the PIR, or an
+ * earlier row of the file, are reported so they are not added twice.
+ */
+export const parseQuestionImport = (
+  cells: string[][],
+  existingQuestions: Pick<Question, 'text'>[] = []
+): QuestionImportResult => {
+  const [header = [], ...lines] = cells;
+  const columns = getColumnIndexes(header);
+  
+  if (columns.text === undefined) {
+    return { rows: [], error: `The first row must name the columns: ${QUESTION_IMPORT_COLUMNS.join(', ')}` };
+  }
+  
+  const seenTexts = new Set(existingQuestions.map(question => question.text.trim().toLowerCase()));
+  const rows: QuestionImportRow[] = [];
+  
+  lines.forEach((line, index) => {
+    const getCell = (column: QuestionImportColumn): string => {
+      const columnIndex = columns[column];
+      return columnIndex === undefined ? '' : String(line[columnIndex] ?? '').trim();
+    };
+    
+    if (QUESTION_IMPORT_COLUMNS.every(column => !getCell(column))) return;
+    
+    const errors: string[] = [];
+    const text = getCell('text');
+    const category = getCell('category');
+    const required = parseRequired(getCell('required'));
+    const type = parseQuestionType(getCell('type'));
+    
+    if (!text) {
+      errors.push('Question text is missing');
+    } else if (seenTexts.has(text.toLowerCase())) {
+      errors.push('This question is already in the PIR or listed earlier in the file');
+    }
+    
+    if (!category) {
+      errors.push('Category is missing');
+    }
+    
+    if (required === null) {
+      errors.push(`Required must be yes or no, not "${getCell('required')}"`);
+    }
+    
+    const typeSettings = normalizeQuestionTypeSettings({
+      type: type || QuestionType.TEXT,
+      options: parseOptions(getCell('options'))
+    });
+    
+    if (!type) {
+      errors.push(`Unknown question type "${getCell('type')}"`);
+    } else {
+      const definitionError = validateQuestionDefinition(typeSettings);
+      if (definitionError) errors.push(definitionError);
+    }
+    
+    if (text) seenTexts.add(text.toLowerCase());
+    
+    rows.push({
+      rowNumber: index + 2,
+      question: {
+        text,
+        category,
+        required: required ?? true,
+        type: getQuestionType(typeSettings),
+        ...(typeSettings.options && { options: typeSettings.options })
+      },
+      sectionTitle: getCell('section'),
+      errors
+    });
+  });
+  
+  if (rows.length === 0) {
+    return { rows, error: 'The file has no questions below the header row' };
+  }
+  
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `A file can add at most ${MAX_IMPORT_ROWS} questions; this one has ${rows.length}` };
+  }
+  
+  return { rows, error: null };
+};
+
+/**
+ * Find the section of a PIR with the given title, ignoring case
+ */
+const findSectionByTitle = (sections: PIRSection[], title: string): PIRSection | undefined => {
+  const key = title.trim().toLowerCase();
+  return sections.find(section => section.title.trim().toLowerCase() === key);
+};
+
+/**
+ * Get the section titles of the importable rows that the PIR does not have yet,
+ * in the order they first appear
+ */
+export const getNewSectionTitles = (rows: QuestionImportRow[], sections: PIRSection[]): string[] => {
+  return rows
+    .filter(row => row.errors.length === 0 && row.sectionTitle && !findSectionByTitle(sections, row.sectionTitle))
+    .map(row => row.sectionTitle)
+    .filter((title, index, titles) =>
+      titles.findIndex(other => other.toLowerCase() === title.toLowerCase()) === index
+    );
+};
+
+/**
+ * Build the PIR questions for the importable rows, placing each last in its
+ * section in file order
+ *
+ * Rows naming a section the PIR does not have are placed outside any section.
+ */
+export const toImportedQuestions = (
+  rows: QuestionImportRow[],
+  pirId: string,
+  createdBy: string,
+  questions: Pick<Question, 'id' | 'sectionId' | 'order' | 'createdAt'>[],
+  sections: PIRSection[]
+): Array<Omit<Question, 'id'>> => {
+  const nextOrders = new Map<string, number>();
+  
+  return rows
+    .filter(row => row.errors.length === 0)
+    .map(row => {
+      const sectionId = (row.sectionTitle && findSectionByTitle(sections, row.sectionTitle)?.id) || null;
+      const sectionKey = sectionId || '';
+      const order = nextOrders.get(sectionKey) ?? getNextQuestionOrder(questions, sectionId);
+      
+      nextOrders.set(sectionKey, order + 1);
+      
+      return {
+        pirId,
+        ...row.question,
+        ...(sectionId && { sectionId }),
+        order,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        createdBy,
+        attachmentIds: []
+      };
+    });
+};
\ No newline at end of file
@@ -0,0 +1,79 @@
+// Question library search and copying of library questions into PIRs
+
+import { LibraryQuestion, PIRTemplateQuestion, Question } from '../types';
+
+/**
+ * Split a search term into lowercase words
+ */
+const tokenize = (term: string): string[] => {
+  return term.toLowerCase().split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Find library questions matching every word of a search term in their text,
+ * guidance, category or tags, optionally limited to a category and a tag
+ */
+export const searchLibraryQuestions = (
+  questions: LibraryQuestion[],
+  term: string,
+  filters: { category?: string; tag?: string } = {}
+): LibraryQuestion[] => {
+  const words = tokenize(term);
+  
+  return questions.filter(question => {
+    if (filters.category && question.category !== filters.category) return false;
+    if (filters.tag && !question.tags.includes(filters.tag)) return false;
+    
+    const haystack = [question.text, question.guidance || '', question.category, ...question.tags]
+      .join(' ')
+      .toLowerCase();
+    
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+/**
+ * Get the question fields carried into templates and duplicated PIRs, keeping
+ * the reference back to the library entry
+ */
+export const toTemplateQuestion = (question: PIRTemplateQuestion): PIRTemplateQuestion => {
+  return {
+    text: question.text,
+    category: question.category,
+    required: question.required,
+    ...(question.type && { type: question.type }),
+    ...(question.options && { options: [...question.options] }),
+    ...(question.units && { units: [...question.units] }),
+    ...(question.visibility && { visibility: question.visibility }),
+    ...(question.sectionId && { sectionId: question.sectionId }),
+    ...(question.order !== undefined && { order: question.order }),
+    ...(question.sourceId && { sourceId: question.sourceId }),
+    ...(question.guidance && { guidance: question.guidance }),
+    ...(question.libraryQuestionId && {
+      libraryQuestionId: question.libraryQuestionId,
+      libraryVersion: question.libraryVersion
+    })
+  };
+};
+
+/**
+ * Build a PIR question from the current version of a library question
+ */
+export const toPIRQuestion = (
+  libraryQuestion: LibraryQuestion,
+  pirId: string,
+  createdBy: string
+): Omit<Question, 'id'> => {
+  return {
+    ...toTemplateQuestion({
+      ...libraryQuestion,
+      libraryQuestionId: libraryQuestion.id,
+      libraryVersion: libraryQuestion.version
+    }),
+    pirId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy,
+    attachmentIds: []
+  };
+};
\ No newline at end of file
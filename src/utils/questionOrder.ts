@@ -0,0 +1,177 @@
+// Question sections and ordering within a PIR
+
+import { PIRSection, Question, QuestionPlacement } from '../types';
+
+type OrderedQuestion = Pick<Question, 'id' | 'sectionId' | 'order' | 'createdAt'>;
+
+/**
+ * A section of a PIR with its questions in order; the section is null for
+ * questions outside any section
+ */
+export interface QuestionGroup<T extends OrderedQuestion> {
+  section: PIRSection | null;
+  questions: T[];
+}
+
+/**
+ * Get the section a question is placed in, or null when it is outside any section
+ */
+const getSectionId = (question: OrderedQuestion): string | null => {
+  return question.sectionId || null;
+};
+
+/**
+ * Sort questions by their order; questions without one follow, oldest first
+ */
+export const sortQuestions = <T extends OrderedQuestion>(questions: T[]): T[] => {
+  return [...questions].sort((a, b) => {
+    const orderA = a.order ?? Number.MAX_SAFE_INTEGER;
+    const orderB = b.order ?? Number.MAX_SAFE_INTEGER;
+    
+    if (orderA !== orderB) return orderA - orderB;
+    return a.createdAt.getTime() - b.createdAt.getTime();
+  });
+};
+
+/**
+ * Sort sections by their order
+ */
+export const sortSections = (sections: PIRSection[] = []): PIRSection[] => {
+  return [...sections].sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Group questions by section, in section order
+ *
+ * Questions outside any section, or in a section that no longer exists, come
+ * first in a group without a section.
+ */
+export const groupQuestionsBySection = <T extends OrderedQuestion>(
+  questions: T[],
+  sections: PIRSection[] = []
+): QuestionGroup<T>[] => {
+  const sortedSections = sortSections(sections);
+  const sectionIds = new Set(sortedSections.map(section => section.id));
+  const sortedQuestions = sortQuestions(questions);
+  
+  const unsectioned = sortedQuestions.filter(question => {
+    const sectionId = getSectionId(question);
+    return !sectionId || !sectionIds.has(sectionId);
+  });
+  
+  return [
+    ...(unsectioned.length > 0 || sortedSections.length === 0 ? [{ section: null, questions: unsectioned }] : []),
+    ...sortedSections.map(section => ({
+      section,
+      questions: sortedQuestions.filter(question => getSectionId(question) === section.id)
+    }))
+  ];
+};
+
+/**
+ * Get the order that puts a new question last in a section
+ */
+export const getNextQuestionOrder = (questions: OrderedQuestion[], sectionId: string | null = null): number => {
+  return questions
+    .filter(question => getSectionId(question) === sectionId)
+    .reduce((next, question) => Math.max(next, (question.order ?? -1) + 1), 0);
+};
+
+/**
+ * Get the order that puts a new section last
+ */
+export const getNextSectionOrder = (sections: PIRSection[] = []): number => {
+  return sections.reduce((next, section) => Math.max(next, section.order + 1), 0);
+};
+
+/**
+ * Keep only the placements that change where a question sits
+ */
+const getChangedPlacements = (questions: OrderedQuestion[], placements: QuestionPlacement[]): QuestionPlacement[] => {
+  return placements.filter(placement => {
+    const question = questions.find(q => q.id === placement.id);
+    return !question || question.order !== placement.order || getSectionId(question) !== placement.sectionId;
+  });
+};
+
+/**
+ * Work out the placements that move a question into a section, before another
+ * question or last, renumbering the sections it leaves and joins
+ */
+export const moveQuestion = (
+  questions: OrderedQuestion[],
+  questionId: string,
+  sectionId: string | null,
+  beforeQuestionId?: string
+): QuestionPlacement[] => {
+  const movedQuestion = questions.find(question => question.id === questionId);
+  if (!movedQuestion || questionId === beforeQuestionId) return [];
+  
+  const sourceSectionId = getSectionId(movedQuestion);
+  const remaining = sortQuestions(questions.filter(question => question.id !== questionId));
+  
+  const targetQuestions = remaining.filter(question => getSectionId(question) === sectionId);
+  const insertAt = targetQuestions.findIndex(question => question.id === beforeQuestionId);
+  targetQuestions.splice(insertAt === -1 ? targetQuestions.length : insertAt, 0, movedQuestion);
+  
+  const placements = targetQuestions.map((question, order) => ({ id: question.id, sectionId, order }));
+  
+  if (sourceSectionId !== sectionId) {
+    remaining
+      .filter(question => getSectionId(question) === sourceSectionId)
+      .forEach((question, order) => placements.push({ id: question.id, sectionId: sourceSectionId, order }));
+  }
+  
+  return getChangedPlacements(questions, placements);
+};
+
+/**
+ * Work out the placements that move a section's questions out of it, after the
+ * questions outside any section, before the section is removed
+ */
+export const moveQuestionsOutOfSection = (questions: OrderedQuestion[], sectionId: string): QuestionPlacement[] => {
+  const firstOrder = getNextQuestionOrder(questions);
+  
+  return sortQuestions(questions.filter(question => getSectionId(question) === sectionId))
+    .map((question, index) => ({ id: question.id, sectionId: null, order: firstOrder + index }));
+};
+
+/**
+ * Apply placements to questions held in memory
+ */
+export const applyQuestionPlacements = <T extends OrderedQuestion>(questions: T[], placements: QuestionPlacement[]): T[] => {
+  return questions.map(question => {
+    const placement = placements.find(p => p.id === question.id);
+    
+    return placement
+      ? { ...question, order: placement.order, sectionId: placement.sectionId || undefined }
+      : question;
+  });
+};
+
+/**
+ * Move a section up or down one place, renumbering every section
+ */
+export const moveSection = (sections: PIRSection[], sectionId: string, direction: -1 | 1): PIRSection[] => {
+  const sorted = sortSections(sections);
+  const index = sorted.findIndex(section => section.id === sectionId);
+  const swapIndex = index + direction;
+  
+  if (index !== -1 && swapIndex >= 0 && swapIndex < sorted.length) {
+    [sorted[index], sorted[swapIndex]] = [sorted[swapIndex], sorted[index]];
+  }
+  
+  return sorted.map((section, order) => ({ ...section, order }));
+};
+
+/**
+ * Drop empty section fields so the sections can be saved
+ */
+export const normalizeSections = (sections: PIRSection[]): PIRSection[] => {
+  return sections.map(({ id, title, description, order }) => ({
+    id,
+    title: title.trim(),
+    order,
+    ...(description?.trim() && { description: description.trim() })
+  }));
+};
\ No newline at end of file
@@ -0,0 +1,168 @@
+// Question type rules and answer validation shared by the UI and repositories
+
+import { Answer, AnswerValue, NumberAnswerValue, Question, QuestionType } from '../types';
+import { formatLongDate } from './formatters';
+
+/**
+ * Labels shown for each question type
+ */
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.YES_NO]: 'Yes / No',
+  [QuestionType.SINGLE_CHOICE]: 'Single choice',
+  [QuestionType.MULTIPLE_CHOICE]: 'Multiple choice',
+  [QuestionType.NUMBER]: 'Number',
+  [QuestionType.DATE]: 'Date',
+  [QuestionType.TEXT]: 'Free text',
+  [QuestionType.FILE]: 'File required'
+};
+
+type TypedQuestion = Pick<Question, 'type' | 'options' | 'units'>;
+
+/**
+ * Error thrown when an answer does not fit its question
+ */
+export class AnswerValidationError extends Error {
+  readonly questionId: string;
+  
+  constructor(message: string, questionId: string) {
+    super(message);
+    this.name = 'AnswerValidationError';
+    this.questionId = questionId;
+    
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, AnswerValidationError.prototype);
+  }
+}
+
+/**
+ * Get the type of a question; questions created before typed questions are free text
+ */
+export const getQuestionType = (question: TypedQuestion): QuestionType => {
+  return question.type || QuestionType.TEXT;
+};
+
+/**
+ * Check whether a question type offers a list of options
+ */
+export const isChoiceType = (type: QuestionType): boolean => {
+  return type === QuestionType.SINGLE_CHOICE || type === QuestionType.MULTIPLE_CHOICE;
+};
+
+/**
+ * Check that a question's type settings are complete, returning an error
+ * message or null
+ */
+export const validateQuestionDefinition = (question: TypedQuestion): string | null => {
+  const type = getQuestionType(question);
+  
+  if (!Object.values(QuestionType).includes(type)) {
+    return `Unknown question type "${type}"`;
+  }
+  
+  if (isChoiceType(type)) {
+    const options = (question.options || []).filter(option => option.trim());
+    
+    if (options.length < 2) {
+      return 'Choice questions need at least two options';
+    }
+    
+    if (new Set(options).size !== options.length) {
+      return 'Choice options must be unique';
+    }
+  }
+  
+  return null;
+};
+
+/**
+ * Clean up type settings entered in a form, keeping only those that apply to
+ * the question type
+ */
+export const normalizeQuestionTypeSettings = (question: TypedQuestion): TypedQuestion => {
+  const type = getQuestionType(question);
+  
+  return {
+    type,
+    ...(isChoiceType(type) && {
+      options: (question.options || []).map(option => option.trim()).filter(Boolean)
+    }),
+    ...(type === QuestionType.NUMBER && {
+      units: (question.units || []).map(unit => unit.trim()).filter(Boolean)
+    })
+  };
+};
+
+const isNumberValue = (value: AnswerValue | undefined): value is NumberAnswerValue => {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+};
+
+/**
+ * Check that an answer fits its question's type, returning an error message
+ * or null
+ */
+export const validateAnswer = (
+  question: TypedQuestion,
+  answer: Pick<Answer, 'text' | 'value' | 'attachmentIds'>
+): string | null => {
+  const { value } = answer;
+  const options = question.options || [];
+  const units = question.units || [];
+  
+  switch (getQuestionType(question)) {
+    case QuestionType.YES_NO:
+      return typeof value === 'boolean' ? null : 'Please answer yes or no';
+    
+    case QuestionType.SINGLE_CHOICE:
+      return typeof value === 'string' && options.includes(value) ? null : 'Please choose one of the options';
+    
+    case QuestionType.MULTIPLE_CHOICE:
+      if (!Array.isArray(value) || value.length === 0) {
+        return 'Please choose at least one option';
+      }
+      return value.every(item => options.includes(item)) ? null : 'Please choose only from the listed options';
+    
+    case QuestionType.NUMBER:
+      if (!isNumberValue(value) || typeof value.amount !== 'number' || !Number.isFinite(value.amount)) {
+        return 'Please enter a valid number';
+      }
+      if (units.length > 0 && (!value.unit || !units.includes(value.unit))) {
+        return `Please choose a unit: ${units.join(', ')}`;
+      }
+      return null;
+    
+    case QuestionType.DATE:
+      return value instanceof Date && !isNaN(value.getTime()) ? null : 'Please enter a valid date';
+    
+    case QuestionType.FILE:
+      return answer.attachmentIds.length > 0 ? null : 'Please attach at least one file';
+    
+    case QuestionType.TEXT:
+    default:
+      return typeof answer.text === 'string' && answer.text.trim() ? null : 'Answer text cannot be empty';
+  }
+};
+
+/**
+ * Get the readable form of an answer value, stored as the answer's text
+ */
+export const formatAnswerValue = (question: TypedQuestion, value: AnswerValue | undefined, attachmentCount: number = 0): string => {
+  switch (getQuestionType(question)) {
+    case QuestionType.YES_NO:
+      return value === true ? 'Yes' : value === false ? 'No' : '';
+    
+    case QuestionType.MULTIPLE_CHOICE:
+      return Array.isArray(value) ? value.join(', ') : '';
+    
+    case QuestionType.NUMBER:
+      return isNumberValue(value) ? [value.amount, value.unit].filter(part => part !== undefined && part !== '').join(' ') : '';
+    
+    case QuestionType.DATE:
+      return value instanceof Date ? formatLongDate(value) : '';
+    
+    case QuestionType.FILE:
+      return `${attachmentCount} file${attachmentCount === 1 ? '' : 's'} attached`;
+    
+    default:
+      return typeof value === 'string' ? value : '';
+  }
+};
\ No newline at end of file
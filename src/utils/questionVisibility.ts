@@ -0,0 +1,205 @@
+// Conditional question visibility shared by the UI and Cloud Functions
+
+import { Answer, Question, QuestionCondition, QuestionConditionOperator, QuestionType, QuestionVisibility } from '../types';
+import { getQuestionType } from './questionTypes';
+
+type VisibilityAnswer = Pick<Answer, 'questionId' | 'text' | 'value' | 'createdAt'>;
+type VisibilityQuestion = Pick<Question, 'id' | 'text' | 'type' | 'visibility'>;
+
+/**
+ * Labels shown for each condition operator
+ */
+export const CONDITION_OPERATOR_LABELS: Record<QuestionConditionOperator, string> = {
+  answered: 'is answered',
+  equals: 'is',
+  not_equals: 'is not',
+  greater_than: 'is greater than',
+  less_than: 'is less than'
+};
+
+/**
+ * Get the most recent answer to a question
+ */
+export const getLatestAnswer = <T extends VisibilityAnswer>(answers: T[], questionId: string): T | undefined => {
+  return answers
+    .filter(answer => answer.questionId === questionId)
+    .reduce<T | undefined>(
+      (latest, answer) => !latest || answer.createdAt.getTime() > latest.createdAt.getTime() ? answer : latest,
+      undefined
+    );
+};
+
+/**
+ * Get the number an answer holds, if any
+ */
+const getNumericValue = (answer: VisibilityAnswer): number | null => {
+  const { value } = answer;
+  
+  if (value && typeof value === 'object' && 'amount' in value) return value.amount;
+  
+  const parsed = parseFloat(answer.text);
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Check whether an answer equals a condition value
+ */
+const answerEquals = (answer: VisibilityAnswer, expected: QuestionCondition['value']): boolean => {
+  const { value } = answer;
+  
+  if (Array.isArray(value)) return value.includes(String(expected));
+  if (typeof value === 'boolean') return value === (expected === true || expected === 'true');
+  if (typeof expected === 'number') return getNumericValue(answer) === expected;
+  
+  // Free text answers, and answers saved before typed questions, compare their text
+  const actual = typeof value === 'string' ? value : answer.text;
+  return actual.trim().toLowerCase() === String(expected ?? '').trim().toLowerCase();
+};
+
+/**
+ * Check a single condition against the latest answer to its question
+ */
+export const isConditionMet = (condition: QuestionCondition, answers: VisibilityAnswer[]): boolean => {
+  const answer = getLatestAnswer(answers, condition.questionId);
+  
+  if (!answer) return false;
+  
+  switch (condition.operator) {
+    case 'answered':
+      return true;
+    case 'equals':
+      return answerEquals(answer, condition.value);
+    case 'not_equals':
+      return !answerEquals(answer, condition.value);
+    case 'greater_than':
+    case 'less_than': {
+      const actual = getNumericValue(answer);
+      const expected = Number(condition.value);
+      
+      if (actual === null || isNaN(expected)) return false;
+      return condition.operator === 'greater_than' ? actual > expected : actual < expected;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Get the questions of a PIR that are currently shown
+ *
+ * A question is hidden when its conditions are not met, and also when a
+ * question it depends on is hidden, so whole branches disappear together.
+ * Conditions on questions that do not exist are never met.
+ */
+export const getVisibleQuestions = <T extends VisibilityQuestion>(questions: T[], answers: VisibilityAnswer[]): T[] => {
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  const visibility = new Map<string, boolean>();
+  
+  const isVisible = (question: VisibilityQuestion, path: Set<string>): boolean => {
+    const known = visibility.get(question.id);
+    if (known !== undefined) return known;
+    
+    const conditions = question.visibility?.conditions || [];
+    if (conditions.length === 0) return true;
+    
+    // Circular conditions can never be satisfied
+    if (path.has(question.id)) return false;
+    const nextPath = new Set(path).add(question.id);
+    
+    const results = conditions.map(condition => {
+      const dependency = questionsById.get(condition.questionId);
+      return !!dependency && isVisible(dependency, nextPath) && isConditionMet(condition, answers);
+    });
+    
+    const visible = question.visibility?.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+    visibility.set(question.id, visible);
+    return visible;
+  };
+  
+  return questions.filter(question => isVisible(question, new Set()));
+};
+
+/**
+ * Describe a question's visibility conditions for display
+ */
+export const describeVisibility = (visibility: QuestionVisibility, questions: VisibilityQuestion[]): string => {
+  const descriptions = visibility.conditions.map(condition => {
+    const questionText = questions.find(question => question.id === condition.questionId)?.text || 'a removed question';
+    const operator = CONDITION_OPERATOR_LABELS[condition.operator];
+    
+    if (condition.operator === 'answered') {
+      return `"${questionText}" ${operator}`;
+    }
+    
+    const value = typeof condition.value === 'boolean' ? (condition.value ? 'Yes' : 'No') : condition.value;
+    return `"${questionText}" ${operator} ${value}`;
+  });
+  
+  return descriptions.join(visibility.match === 'any' ? ' or ' : ' and ');
+};
+
+/**
+ * Get the operators that make sense for conditions on a question
+ */
+export const getConditionOperators = (question: Pick<Question, 'type'>): QuestionConditionOperator[] => {
+  switch (getQuestionType(question)) {
+    case QuestionType.NUMBER:
+      return ['answered', 'equals', 'not_equals', 'greater_than', 'less_than'];
+    case QuestionType.DATE:
+    case QuestionType.FILE:
+      return ['answered'];
+    default:
+      return ['answered', 'equals', 'not_equals'];
+  }
+};
+
+/**
+ * Check that every visibility condition is complete, returning an error
+ * message or null
+ */
+export const validateVisibility = (visibility: QuestionVisibility | undefined, questionId?: string): string | null => {
+  for (const condition of visibility?.conditions || []) {
+    if (!condition.questionId) {
+      return 'Please choose the question each condition depends on';
+    }
+    
+    if (condition.questionId === questionId) {
+      return 'A question cannot depend on its own answer';
+    }
+    
+    if (condition.operator !== 'answered' && (condition.value === undefined || condition.value === '')) {
+      return 'Please enter a value for each condition';
+    }
+  }
+  
+  return null;
+};
+
+/**
+ * Drop condition values that do not apply, so the visibility can be saved
+ */
+export const normalizeVisibility = (visibility: QuestionVisibility): QuestionVisibility => {
+  return {
+    match: visibility.match,
+    conditions: visibility.conditions.map(({ questionId, operator, value }) => ({
+      questionId,
+      operator,
+      ...(operator !== 'answered' && value !== undefined && { value })
+    }))
+  };
+};
+
+/**
+ * Point visibility conditions at copies of the questions they depend on,
+ * dropping conditions on questions that were not copied
+ */
+export const remapVisibility = (
+  visibility: QuestionVisibility,
+  questionIdMap: Map<string, string>
+): QuestionVisibility | null => {
+  const conditions = visibility.conditions
+    .filter(condition => questionIdMap.has(condition.questionId))
+    .map(condition => ({ ...condition, questionId: questionIdMap.get(condition.questionId) as string }));
+  
+  return conditions.length > 0 ? { ...visibility, conditions } : null;
+};
\ No newline at end of file
@@ -0,0 +1,94 @@
+// Multi-reviewer approval rules shared by the UI and Cloud Functions
+
+import { PIR, PIRReviewer, ReviewDecision } from '../types';
+
+/**
+ * Check whether a PIR is approved by a list of required reviewers rather than
+ * a single reviewer
+ */
+export const hasRequiredReviewers = (pir: Pick<PIR, 'reviewers'>): boolean => {
+  return !!pir.reviewers && pir.reviewers.length > 0;
+};
+
+/**
+ * Get the number of approvals a PIR needs before it can be accepted
+ */
+export const getRequiredApprovalCount = (pir: Pick<PIR, 'reviewers' | 'approvalPolicy'>): number => {
+  const reviewerCount = pir.reviewers?.length || 0;
+  
+  // Sequential sign-off always needs every reviewer
+  if (pir.approvalPolicy?.mode !== 'parallel' || !pir.approvalPolicy.quorum) {
+    return reviewerCount;
+  }
+  
+  return Math.min(Math.max(pir.approvalPolicy.quorum, 1), reviewerCount);
+};
+
+/**
+ * Combine the reviewer decisions of a PIR into an outcome, or null while the
+ * review is still pending. A rejection by any required reviewer rejects the PIR.
+ */
+export const getApprovalOutcome = (pir: Pick<PIR, 'reviewers' | 'approvalPolicy'>): ReviewDecision | null => {
+  const reviewers = pir.reviewers || [];
+  
+  if (reviewers.length === 0) return null;
+  
+  if (reviewers.some(reviewer => reviewer.decision === 'rejected')) {
+    return 'rejected';
+  }
+  
+  const approvals = reviewers.filter(reviewer => reviewer.decision === 'approved').length;
+  
+  return approvals >= getRequiredApprovalCount(pir) ? 'approved' : null;
+};
+
+/**
+ * Get the reviewers who may record a decision now: everyone still undecided
+ * in parallel mode, or the next reviewer in line in sequential mode
+ */
+export const getActiveReviewers = (pir: Pick<PIR, 'reviewers' | 'approvalPolicy'>): PIRReviewer[] => {
+  if (getApprovalOutcome(pir) !== null) return [];
+  
+  const pendingReviewers = (pir.reviewers || []).filter(reviewer => !reviewer.decision);
+  
+  if (pir.approvalPolicy?.mode === 'sequential') {
+    return pendingReviewers.slice(0, 1);
+  }
+  
+  return pendingReviewers;
+};
+
+/**
+ * Check whether a user may record their review decision on a PIR now
+ */
+export const canRecordReviewDecision = (pir: Pick<PIR, 'reviewers' | 'approvalPolicy'>, userId: string): boolean => {
+  return getActiveReviewers(pir).some(reviewer => reviewer.userId === userId);
+};
+
+/**
+ * Get the reviewers of a PIR with one reviewer's decision applied
+ */
+export const applyReviewDecision = (
+  reviewers: PIRReviewer[],
+  userId: string,
+  decision: ReviewDecision,
+  notes: string,
+  decidedAt: Date
+): PIRReviewer[] => {
+  return reviewers.map(reviewer =>
+    reviewer.userId === userId
+      ? { ...reviewer, decision, notes, decidedAt }
+      : reviewer
+  );
+};
+
+/**
+ * Clear the decisions of every reviewer for a new review round
+ */
+export const resetReviewDecisions = (reviewers: PIRReviewer[]): PIRReviewer[] => {
+  return reviewers.map(({ userId, displayName, reviewRole }) => ({
+    userId,
+    displayName,
+    ...(reviewRole && { reviewRole })
+  }));
+};
\ No newline at end of file